@@ -1,10 +1,13 @@
 import React, { useEffect, useRef, useState } from 'react'
-import { useChatStore, useSubjectStore, useAvatarStore, useApiKeyStore } from './store'
-import { chatService } from './services'
+import { useChatStore, useSubjectStore, useAvatarStore, useApiKeyStore, useLearnerStore } from './store'
+import { chatService, learnerService, classService } from './services'
 import { AvatarContainer } from './components/Avatar'
-import { ChatBox, InputArea } from './components/Chat'
-import { ApiKeyModal } from './components/UI'
+import { ChatBox, InputArea, SessionHistory } from './components/Chat'
+import { ApiKeyModal, ProfileSetupModal } from './components/UI'
 import { AdminPanel } from './components/Admin'
+import { KnowledgeMap } from './components/Subject'
+import { ReviewSession } from './components/Review'
+import { ExercisePanel } from './components/Exercise'
 
 function App() {
   const controllerRef = useRef<any>(null)
@@ -12,6 +15,19 @@ function App() {
   // Admin Panel state
   const [showAdminPanel, setShowAdminPanel] = useState(false)
 
+  // Knowledge Map state
+  const [showKnowledgeMap, setShowKnowledgeMap] = useState(false)
+
+  // Review state
+  const [showReview, setShowReview] = useState(false)
+  const [dueReviewCount, setDueReviewCount] = useState(0)
+
+  // Exercise state
+  const [showExercisePanel, setShowExercisePanel] = useState(false)
+
+  // Session History state
+  const [showSessionHistory, setShowSessionHistory] = useState(false)
+
   // Chat Store
   const {
     messages,
@@ -21,9 +37,11 @@ function App() {
     setCurrentResponse,
     appendCurrentResponse,
     clearMessages,
-    getConversationHistory,
     sessionId,
-    setSessionId
+    setSessionId,
+    restoreSession,
+    resetStreamExtras,
+    setLockedMode
   } = useChatStore()
 
   // Subject Store
@@ -34,8 +52,12 @@ function App() {
   // Avatar Store
   const { setState: setAvatarState } = useAvatarStore()
 
+  // Learner Store
+  const { learnerId, setProfile } = useLearnerStore()
+
   // API Key Management
   const [showApiKeyModal, setShowApiKeyModal] = useState(false)
+  const [showProfileSetup, setShowProfileSetup] = useState(false)
   const { hasKeys } = useApiKeyStore()
 
   // 检查是否需要显示密钥输入对话框
@@ -45,13 +67,36 @@ function App() {
     }
   }, [hasKeys])
 
-  // 初始化会话
+  // 初始化会话：优先使用服务端保存的历史
   useEffect(() => {
     if (!sessionId) {
       setSessionId(`session_${Date.now()}`)
+      return
     }
+
+    chatService.getAllSessionMessages(sessionId).then((messages) => {
+      if (messages && messages.length > 0) {
+        restoreSession(sessionId, messages)
+      }
+    })
   }, [])
 
+  // 加载学习者档案、班级锁定的模式和今天待复习的数量
+  useEffect(() => {
+    learnerService.getLearnerProfile(learnerId).then((profile) => {
+      setProfile(profile)
+      // 首次使用时请学习者填写年级，讲解深度和检索的定理难度随之调整
+      if (profile && !useLearnerStore.getState().setupCompleted) {
+        setShowProfileSetup(true)
+      }
+      // 所在班级锁定了辅导模式时，输入框的模式选择随之锁定
+      if (profile?.classId) {
+        classService.getClassPolicy(profile.classId).then(policy => setLockedMode(policy?.lockedMode || null))
+      }
+    })
+    learnerService.getDueReviews(learnerId).then(reviews => setDueReviewCount(reviews.length))
+  }, [learnerId])
+
   // 同步数字人控制器引用 - 使用轮询确保获取到控制器
   useEffect(() => {
     const checkController = () => {
@@ -85,9 +130,6 @@ function App() {
       controllerRef.current = controller
       console.log('[App] Avatar controller updated before send:', controller)
     }
-    // 获取对话历史（在添加当前消息之前获取）
-    const history = getConversationHistory()
-
     // 构建用户消息内容（支持多模态）
     const userContent: string | any[] = text
     let contentForDisplay: string | any[] = text
@@ -95,7 +137,7 @@ function App() {
     // 如果有图片，构建多模态内容用于显示
     if (images && images.length > 0) {
       contentForDisplay = [
-        { type: 'text', text: text || '请仔细观察这道题目，给出详细的解题步骤和答案' }
+        { type: 'text', text: text || '请帮我分析这道题目' }
       ]
       for (const imageUrl of images) {
         contentForDisplay.push({
@@ -115,6 +157,7 @@ function App() {
 
     setProcessing(true)
     setCurrentResponse('')
+    resetStreamExtras()
 
     // 数字人进入倾听状态
     setAvatarState('listen')
@@ -167,8 +210,7 @@ function App() {
       {
         message: text,
         images: images,
-        sessionId,
-        conversationHistory: history
+        sessionId
       },
       // onChunk - 实时更新文本并传递给数字人
       (chunk) => {
@@ -183,12 +225,17 @@ function App() {
       // onComplete
       (finalResponse) => {
         streamEnded = true
-        // 添加助手消息
+        // 添加助手消息（附带流式事件中收到的定理、引用、引导问题和组件）
+        const { streamExtras } = useChatStore.getState()
         addMessage({
           id: (Date.now() + 1).toString(),
           role: 'assistant',
           content: finalResponse,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          relatedTheorems: streamExtras.relatedTheorems.map(t => t.theorem),
+          socraticQuestions: streamExtras.socraticQuestions,
+          visualAids: streamExtras.visualAids,
+          citations: streamExtras.citations
         })
 
         setCurrentResponse('')
@@ -225,6 +272,25 @@ function App() {
     chatService.clearSession(sessionId)
   }
 
+  // 恢复历史对话
+  const handleResumeSession = async (targetSessionId: string) => {
+    const messages = await chatService.getAllSessionMessages(targetSessionId)
+    restoreSession(targetSessionId, messages || [])
+    setShowSessionHistory(false)
+  }
+
+  // 从知识地图就选中的定理开始对话
+  const handleAskAboutTheorem = (theorem: string) => {
+    setShowKnowledgeMap(false)
+    handleSendMessage(`请讲解${theorem}`)
+  }
+
+  // 开始新对话（保留旧会话在服务端）
+  const handleNewSession = () => {
+    restoreSession(`session_${Date.now()}`, [])
+    setShowSessionHistory(false)
+  }
+
   return (
     <div className="h-screen w-screen flex flex-col bg-gradient-to-br from-blue-50 via-white to-purple-50 overflow-hidden">
       {/* API Key Modal */}
@@ -232,11 +298,50 @@ function App() {
         <ApiKeyModal onClose={() => setShowApiKeyModal(false)} />
       )}
 
+      {/* Profile Setup - 密钥对话框关闭后再显示 */}
+      {showProfileSetup && !showApiKeyModal && (
+        <ProfileSetupModal onClose={() => setShowProfileSetup(false)} />
+      )}
+
       {/* Admin Panel */}
       {showAdminPanel && (
         <AdminPanel onClose={() => setShowAdminPanel(false)} />
       )}
 
+      {/* Knowledge Map */}
+      {showKnowledgeMap && (
+        <KnowledgeMap
+          onClose={() => setShowKnowledgeMap(false)}
+          onAskAbout={handleAskAboutTheorem}
+        />
+      )}
+
+      {/* Review */}
+      {showReview && (
+        <ReviewSession
+          onClose={() => setShowReview(false)}
+          onFinished={() => setDueReviewCount(0)}
+        />
+      )}
+
+      {/* Exercise */}
+      {showExercisePanel && (
+        <ExercisePanel
+          initialTheoremId={useChatStore.getState().streamExtras.relatedTheorems[0]?.id}
+          onClose={() => setShowExercisePanel(false)}
+        />
+      )}
+
+      {/* Session History */}
+      {showSessionHistory && (
+        <SessionHistory
+          currentSessionId={sessionId}
+          onResume={handleResumeSession}
+          onNewSession={handleNewSession}
+          onClose={() => setShowSessionHistory(false)}
+        />
+      )}
+
       {/* 顶部导航 - 紧凑版 */}
       <header className="bg-white shadow-sm flex-shrink-0">
         <div className="max-w-full mx-auto px-4 py-2">
@@ -249,6 +354,43 @@ function App() {
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowSessionHistory(true)}
+                className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
+                title="历史对话"
+              >
+                <span>🕘</span>
+                <span className="hidden sm:inline">历史</span>
+              </button>
+              <button
+                onClick={() => setShowReview(true)}
+                className="relative text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
+                title="今日复习"
+              >
+                <span>🔁</span>
+                <span className="hidden sm:inline">复习</span>
+                {dueReviewCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                    {dueReviewCount}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setShowExercisePanel(true)}
+                className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
+                title="练习"
+              >
+                <span>✏️</span>
+                <span className="hidden sm:inline">练习</span>
+              </button>
+              <button
+                onClick={() => setShowKnowledgeMap(true)}
+                className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
+                title="知识地图"
+              >
+                <span>🗺️</span>
+                <span className="hidden sm:inline">地图</span>
+              </button>
               <button
                 onClick={() => setShowAdminPanel(true)}
                 className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
@@ -257,6 +399,14 @@ function App() {
                 <span>📖</span>
                 <span className="hidden sm:inline">知识库</span>
               </button>
+              <button
+                onClick={() => setShowProfileSetup(true)}
+                className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
+                title="学习档案"
+              >
+                <span>👤</span>
+                <span className="hidden sm:inline">档案</span>
+              </button>
               <button
                 onClick={() => setShowApiKeyModal(true)}
                 className="text-xs text-gray-600 hover:text-blue-600 transition px-2 py-1 flex items-center space-x-1"
@@ -297,6 +447,7 @@ function App() {
                 currentResponse={currentResponse}
                 isProcessing={useChatStore.getState().isProcessing}
                 onQuickQuestion={handleSendMessage}
+                onStartExercise={() => setShowExercisePanel(true)}
                 messageCount={messages.length}
                 learningStreak={useSubjectStore.getState().learningProgress.currentStreak}
               />
@@ -1,4 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react'
+import type { PromptTemplateSummary, SubjectCategory, Theorem } from '@shared/types'
+import { SUBJECT_NAMES } from '@shared/constants'
+import { promptService } from '../../services'
+import { TheoremEditor } from './TheoremEditor'
+import { PromptEditor } from './PromptEditor'
 
 interface KnowledgeFile {
   name: string
@@ -36,6 +41,7 @@ interface KnowledgeItem {
   }>
   socraticQuestions?: string[]
   keywords?: string[]
+  source?: string // 上传文档生成的条目为 uploaded_document
 }
 
 interface KnowledgeFileContent {
@@ -134,6 +140,12 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedItem, setSelectedItem] = useState<KnowledgeItem | null>(null)
+  // 编辑器状态：null 关闭，'new' 新增，否则为正在编辑的条目
+  const [editing, setEditing] = useState<KnowledgeItem | 'new' | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [publishedId, setPublishedId] = useState<string | null>(null)
+  // 只有学科知识库文件可以在这里编辑，上传文档由文档管理维护
+  const editable = !fileName && !!category && category in SUBJECT_NAMES
 
   useEffect(() => {
     const loadContent = async () => {
@@ -150,7 +162,9 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
         if (data.success) {
           setContent(data.data)
           if (data.data.items.length > 0) {
-            setSelectedItem(data.data.items[0])
+            // 发布后重新加载时选中刚发布的条目
+            const published = data.data.items.find((item: KnowledgeItem) => item.id === publishedId)
+            setSelectedItem(published || data.data.items[0])
           }
         } else {
           setError(data.error?.message || '加载失败')
@@ -163,7 +177,13 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
     }
 
     loadContent()
-  }, [category, fileName])
+  }, [category, fileName, reloadKey])
+
+  const handlePublished = (theorem: Theorem) => {
+    setEditing(null)
+    setPublishedId(theorem.id)
+    setReloadKey((key) => key + 1)
+  }
 
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty) {
@@ -188,14 +208,24 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
               {content && <p className="text-sm text-white/80">{content.items.length} 条内容</p>}
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
-          >
-            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          <div className="flex items-center space-x-2">
+            {editable && (
+              <button
+                onClick={() => setEditing('new')}
+                className="px-3 py-1.5 text-sm font-medium bg-white/20 hover:bg-white/30 rounded-lg transition"
+              >
+                ➕ 新增定理
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* 内容 */}
@@ -239,7 +269,17 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
               <div className="space-y-6">
                 {/* 标题 */}
                 <div>
-                  <h3 className="text-2xl font-bold text-gray-900 mb-2">{selectedItem.theorem}</h3>
+                  <div className="flex items-start justify-between">
+                    <h3 className="text-2xl font-bold text-gray-900 mb-2">{selectedItem.theorem}</h3>
+                    {editable && selectedItem.source !== 'uploaded_document' && (
+                      <button
+                        onClick={() => setEditing(selectedItem)}
+                        className="px-3 py-1.5 text-sm font-medium text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition"
+                      >
+                        ✏️ 编辑
+                      </button>
+                    )}
+                  </div>
                   <div className="flex items-center space-x-3 text-sm text-gray-600">
                     <span className="px-2 py-1 bg-gray-100 rounded">{selectedItem.topic}</span>
                     <span className={`px-2 py-1 rounded ${getDifficultyColor(selectedItem.difficulty)}`}>
@@ -357,6 +397,16 @@ const DetailModal: React.FC<DetailModalProps> = ({ category, fileName, onClose }
           </div>
         </div>
       </div>
+
+      {/* 定理编辑器 */}
+      {editing && (
+        <TheoremEditor
+          theorem={editing === 'new' ? undefined : (editing as Partial<Theorem>)}
+          defaultCategory={category as SubjectCategory}
+          onClose={() => setEditing(null)}
+          onPublished={handlePublished}
+        />
+      )}
     </div>
   )
 }
@@ -368,6 +418,8 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onClose }) => {
   const [knowledgeFiles, setKnowledgeFiles] = useState<KnowledgeFile[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [detailFile, setDetailFile] = useState<{ category?: string; fileName?: string } | null>(null)
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateSummary[]>([])
+  const [editingPrompt, setEditingPrompt] = useState<string | null>(null)
 
   // 确认气泡状态
   const [confirmBubble, setConfirmBubble] = useState<{
@@ -392,8 +444,14 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onClose }) => {
     }
   }
 
+  // 加载提示词模板列表
+  const loadPromptTemplates = async () => {
+    setPromptTemplates(await promptService.listPromptTemplates())
+  }
+
   useEffect(() => {
     loadKnowledgeFiles()
+    loadPromptTemplates()
   }, [])
 
   // 处理文件选择（选择后自动上传）
@@ -546,7 +604,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onClose }) => {
                 <input
                   id="file-input"
                   type="file"
-                  accept=".txt,.md,.pdf,.json"
+                  accept=".txt,.md,.pdf,.json,.docx,.html,.htm,.epub"
                   onChange={handleFileSelect}
                   className="hidden"
                   disabled={isUploading}
@@ -581,7 +639,7 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onClose }) => {
                               <span>点击选择文件即可上传</span>
                             )}
                           </p>
-                          <p className="text-xs text-gray-500 mt-1">支持 TXT、MD、PDF、JSON 格式</p>
+                          <p className="text-xs text-gray-500 mt-1">支持 TXT、MD、PDF、JSON、DOCX、HTML、EPUB 格式</p>
                         </div>
                       </>
                     )}
@@ -690,10 +748,52 @@ export const AdminPanel: React.FC<AdminPanelProps> = ({ onClose }) => {
                 </div>
               )}
             </div>
+
+            {/* 分隔线 */}
+            <div className="border-t border-gray-200" />
+
+            {/* 提示词模板 */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+                <span className="mr-2">🧩</span>
+                提示词模板
+              </h3>
+              <p className="text-sm text-gray-500">老师人设、各辅导模式的教学要求和各年级的讲解要求，修改后保存为新版本，启用后立即用于对话</p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {promptTemplates.map(template => (
+                  <div
+                    key={template.id}
+                    className="bg-gray-50 rounded-lg p-4 hover:bg-gray-100 transition cursor-pointer"
+                    onClick={() => setEditingPrompt(template.id)}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="font-medium text-gray-900">{template.name}</div>
+                      <span className="text-xs text-blue-500">点击编辑</span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-gray-500">
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">
+                        使用 v{template.activeVersion}
+                      </span>
+                      <span>最新 v{template.latestVersion}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
       </div>
 
+      {/* 提示词编辑器 */}
+      {editingPrompt && (
+        <PromptEditor
+          templateId={editingPrompt}
+          onClose={() => setEditingPrompt(null)}
+          onSaved={loadPromptTemplates}
+        />
+      )}
+
       {/* 详情弹窗 */}
       {detailFile && (
         <DetailModal
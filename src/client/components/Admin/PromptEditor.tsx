@@ -0,0 +1,334 @@
+import React, { useState, useEffect, useRef } from 'react'
+import type { PromptTemplate, PromptVariableName, TutoringMode } from '@shared/types'
+import { PROMPT_VARIABLES, TUTORING_MODES } from '@shared/constants'
+import { promptService } from '../../services'
+
+interface PromptEditorProps {
+  templateId: string
+  onClose: () => void
+  onSaved: (template: PromptTemplate) => void
+}
+
+interface EditorError {
+  message: string
+  details?: string[]
+}
+
+/**
+ * 提示词模板编辑器：查看历史版本、编辑并保存新版本、用示例变量预览、启用或回滚版本
+ */
+export const PromptEditor: React.FC<PromptEditorProps> = ({ templateId, onClose, onSaved }) => {
+  const [template, setTemplate] = useState<PromptTemplate | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [baseVersion, setBaseVersion] = useState<number | null>(null) // 编辑器内容基于的版本
+  const [content, setContent] = useState('')
+  const [note, setNote] = useState('')
+  const [activate, setActivate] = useState(false)
+  const [adminToken, setAdminToken] = useState('') // 服务端配置了 CLASS_ADMIN_TOKEN 时保存和切换版本需要
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<EditorError | null>(null)
+  const [view, setView] = useState<'edit' | 'preview'>('edit')
+  const [previewMode, setPreviewMode] = useState<TutoringMode>('socratic')
+  const [preview, setPreview] = useState<string | null>(null)
+  const [previewing, setPreviewing] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const isSystem = templateId === 'system'
+  const isModeTemplate = templateId.startsWith('mode-') // 模式模板固定预览该模式，其余模板可以选择预览的模式
+  const baseContent = template?.versions.find(v => v.version === baseVersion)?.content ?? ''
+  const isDirty = content !== baseContent
+
+  const applyTemplate = (loaded: PromptTemplate, version = loaded.activeVersion) => {
+    setTemplate(loaded)
+    setBaseVersion(version)
+    setContent(loaded.versions.find(v => v.version === version)?.content ?? '')
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      const loaded = await promptService.getPromptTemplate(templateId)
+      if (loaded) {
+        applyTemplate(loaded)
+      } else {
+        setError({ message: '加载提示词模板失败' })
+      }
+      setLoading(false)
+    }
+    load()
+  }, [templateId])
+
+  // 在光标处插入变量
+  const insertVariable = (name: PromptVariableName) => {
+    const textarea = textareaRef.current
+    const tag = `{{${name}}}`
+    if (!textarea) {
+      setContent(prev => prev + tag)
+      return
+    }
+    const { selectionStart, selectionEnd } = textarea
+    setContent(prev => prev.slice(0, selectionStart) + tag + prev.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart + tag.length, selectionStart + tag.length)
+    })
+  }
+
+  const loadVersion = (version: number) => {
+    if (isDirty && !window.confirm('当前修改尚未保存，确定载入其他版本吗？')) return
+    if (template) applyTemplate(template, version)
+    setPreview(null)
+    setView('edit')
+  }
+
+  const handlePreview = async (mode = previewMode) => {
+    setView('preview')
+    setPreviewing(true)
+    setError(null)
+    const result = await promptService.previewPrompt(templateId, { content, mode: isModeTemplate ? undefined : mode })
+    if (result.success && result.data) {
+      setPreview(result.data.rendered)
+    } else {
+      setPreview(null)
+      setError({ message: result.error?.message || '预览失败', details: result.error?.details })
+    }
+    setPreviewing(false)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    const result = await promptService.createPromptVersion(templateId, {
+      content,
+      note: note.trim() || undefined,
+      activate
+    }, adminToken.trim() || undefined)
+    if (result.success && result.data) {
+      const saved = result.data
+      applyTemplate(saved, Math.max(...saved.versions.map(v => v.version)))
+      setNote('')
+      onSaved(saved)
+    } else {
+      setError({ message: result.error?.message || '保存失败', details: result.error?.details })
+    }
+    setSaving(false)
+  }
+
+  const handleActivate = async (version: number) => {
+    setError(null)
+    const result = await promptService.activatePromptVersion(templateId, version, adminToken.trim() || undefined)
+    if (result.success && result.data) {
+      setTemplate(result.data)
+      onSaved(result.data)
+    } else {
+      setError({ message: result.error?.message || '切换版本失败', details: result.error?.details })
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">🧩</span>
+            <div>
+              <h2 className="text-xl font-bold">{template?.name || '提示词模板'}</h2>
+              <p className="text-sm text-white/80">{template?.description}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 错误信息 */}
+        {error && (
+          <div className="mx-6 mt-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+            <p className="font-medium">✗ {error.message}</p>
+            {error.details && error.details.length > 0 && (
+              <ul className="mt-1 list-disc list-inside space-y-0.5">
+                {error.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-16">
+            <div className="w-8 h-8 border-3 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+          </div>
+        ) : template && (
+          <div className="flex-1 overflow-hidden grid grid-cols-3">
+            {/* 版本历史 */}
+            <div className="border-r border-gray-200 overflow-y-auto p-4 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-800 mb-2">🕘 版本历史</h3>
+              {[...template.versions].reverse().map(version => {
+                const isActive = version.version === template.activeVersion
+                return (
+                  <div
+                    key={version.version}
+                    className={`rounded-lg p-3 text-sm border ${
+                      version.version === baseVersion ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">v{version.version}</span>
+                      {isActive && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-700">使用中</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{new Date(version.createdAt).toLocaleString()}</p>
+                    {version.note && <p className="text-xs text-gray-700 mt-1">{version.note}</p>}
+                    <div className="flex space-x-2 mt-2">
+                      <button
+                        onClick={() => loadVersion(version.version)}
+                        className="text-xs text-blue-600 hover:underline"
+                      >
+                        载入编辑
+                      </button>
+                      {!isActive && (
+                        <button
+                          onClick={() => handleActivate(version.version)}
+                          className="text-xs text-green-600 hover:underline"
+                        >
+                          {version.version < template.activeVersion ? '回滚到此版本' : '启用'}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            {/* 编辑和预览 */}
+            <div className="col-span-2 overflow-y-auto p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
+                  <button
+                    onClick={() => setView('edit')}
+                    className={`px-3 py-1 text-sm rounded-md transition ${view === 'edit' ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+                  >
+                    编辑
+                  </button>
+                  <button
+                    onClick={() => handlePreview()}
+                    className={`px-3 py-1 text-sm rounded-md transition ${view === 'preview' ? 'bg-white shadow text-gray-900' : 'text-gray-600'}`}
+                  >
+                    预览
+                  </button>
+                </div>
+                <span className="text-xs text-gray-500">
+                  基于 v{baseVersion}{isDirty ? '（已修改）' : ''}
+                </span>
+              </div>
+
+              {view === 'edit' ? (
+                <>
+                  <div>
+                    <p className="text-xs text-gray-500 mb-1">
+                      点击插入变量；用 {'{{#变量}}...{{/变量}}'} 包住的内容只在变量非空时输出
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {(Object.keys(PROMPT_VARIABLES) as PromptVariableName[])
+                        .filter(name => isSystem || (name !== 'modeInstructions' && name !== 'gradeInstructions'))
+                        .map(name => (
+                          <button
+                            key={name}
+                            onClick={() => insertVariable(name)}
+                            title={PROMPT_VARIABLES[name]}
+                            className="px-2 py-0.5 text-xs font-mono bg-purple-50 text-purple-700 hover:bg-purple-100 rounded"
+                          >
+                            {`{{${name}}}`}
+                          </button>
+                        ))}
+                    </div>
+                  </div>
+                  <textarea
+                    ref={textareaRef}
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    rows={20}
+                    className="w-full px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  />
+                </>
+              ) : (
+                <div className="space-y-2">
+                  {!isModeTemplate && (
+                    <label className="flex items-center space-x-2 text-sm text-gray-600">
+                      <span>预览模式</span>
+                      <select
+                        value={previewMode}
+                        onChange={(e) => {
+                          const mode = e.target.value as TutoringMode
+                          setPreviewMode(mode)
+                          handlePreview(mode)
+                        }}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                      >
+                        {Object.entries(TUTORING_MODES).map(([value, info]) => (
+                          <option key={value} value={value}>{info.icon} {info.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <p className="text-xs text-gray-500">使用示例变量（数学、初中、一段知识库内容）渲染的完整系统提示词；年级模板按该年级预览</p>
+                  {previewing ? (
+                    <div className="flex justify-center items-center py-8">
+                      <div className="w-6 h-6 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+                    </div>
+                  ) : preview !== null && (
+                    <pre className="whitespace-pre-wrap text-sm text-gray-800 bg-gray-50 rounded-lg p-4 border border-gray-200">
+                      {preview}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* 底部操作 */}
+        {template && (
+          <div className="border-t border-gray-200 px-6 py-4 flex items-center space-x-3">
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="修改说明（可选）"
+              maxLength={200}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => setAdminToken(e.target.value)}
+              placeholder="管理口令（如已配置）"
+              autoComplete="off"
+              className="w-40 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+            <label className="flex items-center space-x-1 text-sm text-gray-700">
+              <input type="checkbox" checked={activate} onChange={(e) => setActivate(e.target.checked)} />
+              <span>保存后立即启用</span>
+            </label>
+            <button
+              onClick={handleSave}
+              disabled={saving || !isDirty || !content.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? '保存中...' : '保存为新版本'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default PromptEditor
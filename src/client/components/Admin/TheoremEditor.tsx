@@ -0,0 +1,585 @@
+import React, { useState, useEffect } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import type { Theorem, SubjectCategory, DifficultyLevel, ProofStep, Example, CommonMistake } from '@shared/types'
+import { SUBJECT_NAMES, DIFFICULTY_LEVELS } from '@shared/constants'
+import { knowledgeService } from '../../services'
+import { useTheoremDraftStore, NEW_THEOREM_DRAFT_KEY } from '../../store/useTheoremDraftStore'
+import { diffTheorem } from './theoremDiff'
+import 'katex/dist/katex.min.css'
+
+interface TheoremEditorProps {
+  theorem?: Partial<Theorem> // 编辑已有定理；不传时新增
+  defaultCategory?: SubjectCategory
+  onClose: () => void
+  onPublished: (theorem: Theorem) => void
+}
+
+/**
+ * 补齐缺失字段，保证表单的每个字段都有值
+ */
+function toEditableTheorem(source: Partial<Theorem> | undefined, category: SubjectCategory): Theorem {
+  const resolvedCategory = source?.category || category
+  return {
+    id: source?.id || '',
+    category: resolvedCategory,
+    subject: source?.subject || SUBJECT_NAMES[resolvedCategory],
+    topic: source?.topic || '',
+    theorem: source?.theorem || '',
+    difficulty: source?.difficulty || '初级',
+    description: source?.description || '',
+    formula: source?.formula || '',
+    formulaLatex: source?.formulaLatex || '',
+    visualization: source?.visualization || { type: '', description: '', widgets: [] },
+    proofSteps: source?.proofSteps || [],
+    examples: source?.examples || [],
+    commonMistakes: source?.commonMistakes || [],
+    socraticQuestions: source?.socraticQuestions || [],
+    prerequisites: source?.prerequisites || [],
+    prerequisiteConcepts: source?.prerequisiteConcepts || [],
+    relatedTheorems: source?.relatedTheorems || [],
+    teachingTips: source?.teachingTips || [],
+    keywords: source?.keywords || [],
+    embeddingText: source?.embeddingText || ''
+  }
+}
+
+/**
+ * 定理编辑器：表单编辑全部字段，自动保存草稿，发布前展示与原条目的差异
+ */
+export const TheoremEditor: React.FC<TheoremEditorProps> = ({ theorem, defaultCategory = 'math', onClose, onPublished }) => {
+  const isNew = !theorem?.id
+  const draftKey = theorem?.id || NEW_THEOREM_DRAFT_KEY
+  const { drafts, saveDraft, discardDraft } = useTheoremDraftStore()
+
+  const [original] = useState<Theorem | null>(() => (isNew ? null : toEditableTheorem(theorem, defaultCategory)))
+  const [restoredAt] = useState<number | null>(() => drafts[draftKey]?.savedAt || null)
+  const [form, setForm] = useState<Theorem>(() => drafts[draftKey]?.theorem || toEditableTheorem(theorem, defaultCategory))
+  const [draftSavedAt, setDraftSavedAt] = useState<number | null>(null)
+  const [mode, setMode] = useState<'edit' | 'diff'>('edit')
+  const [publishing, setPublishing] = useState(false)
+  const [publishError, setPublishError] = useState<{ message: string; details?: string[] } | null>(null)
+
+  const baseline = original || toEditableTheorem(undefined, defaultCategory)
+  const isDirty = JSON.stringify(form) !== JSON.stringify(baseline)
+
+  // 停止输入 1 秒后自动保存草稿
+  useEffect(() => {
+    if (!isDirty) return
+
+    const timer = setTimeout(() => {
+      saveDraft(draftKey, form)
+      setDraftSavedAt(Date.now())
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [form, isDirty, draftKey, saveDraft])
+
+  const update = <K extends keyof Theorem>(field: K, value: Theorem[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSaveDraft = () => {
+    saveDraft(draftKey, form)
+    setDraftSavedAt(Date.now())
+  }
+
+  const handleDiscardDraft = () => {
+    discardDraft(draftKey)
+    setForm(baseline)
+    setDraftSavedAt(null)
+    setMode('edit')
+  }
+
+  const handlePublish = async () => {
+    setPublishing(true)
+    setPublishError(null)
+
+    const result = isNew
+      ? await knowledgeService.createTheorem(form)
+      : await knowledgeService.updateTheorem(form.id, form)
+
+    setPublishing(false)
+    if (result.success && result.data) {
+      discardDraft(draftKey)
+      onPublished(result.data)
+    } else {
+      setPublishError({
+        message: result.error?.message || '发布失败',
+        details: result.error?.details
+      })
+      setMode('edit')
+    }
+  }
+
+  const diffs = mode === 'diff' ? diffTheorem(original, form) : []
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">✏️</span>
+            <div>
+              <h2 className="text-xl font-bold">{isNew ? '新增定理' : `编辑：${baseline.theorem}`}</h2>
+              <p className="text-sm text-white/80">
+                {draftSavedAt
+                  ? `草稿已保存 ${new Date(draftSavedAt).toLocaleTimeString()}`
+                  : restoredAt
+                    ? `已恢复 ${new Date(restoredAt).toLocaleString()} 保存的草稿`
+                    : '修改会自动保存为草稿'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+            title="关闭（草稿会保留）"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 发布失败信息 */}
+        {publishError && (
+          <div className="mx-6 mt-4 p-3 rounded-lg bg-red-50 text-red-800 border border-red-200 text-sm">
+            <p className="font-medium">✗ {publishError.message}</p>
+            {publishError.details && publishError.details.length > 0 && (
+              <ul className="mt-1 list-disc list-inside space-y-0.5">
+                {publishError.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* 内容 */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {mode === 'edit' ? (
+            <div className="space-y-6">
+              {/* 基本信息 */}
+              <Section title="基本信息" icon="📋">
+                <div className="grid grid-cols-2 gap-4">
+                  <Field label="ID">
+                    <input
+                      value={form.id}
+                      onChange={(e) => update('id', e.target.value.trim())}
+                      disabled={!isNew}
+                      placeholder="如 math_pythagorean_001"
+                      className={`${inputClass} disabled:bg-gray-100 disabled:text-gray-500`}
+                    />
+                  </Field>
+                  <Field label="名称">
+                    <input value={form.theorem} onChange={(e) => update('theorem', e.target.value)} className={inputClass} />
+                  </Field>
+                  <Field label="学科">
+                    <select
+                      value={form.category}
+                      onChange={(e) => {
+                        const category = e.target.value as SubjectCategory
+                        setForm((prev) => ({ ...prev, category, subject: SUBJECT_NAMES[category] }))
+                      }}
+                      className={inputClass}
+                    >
+                      {Object.entries(SUBJECT_NAMES).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label="主题">
+                    <input value={form.topic} onChange={(e) => update('topic', e.target.value)} className={inputClass} />
+                  </Field>
+                  <Field label="难度">
+                    <select
+                      value={form.difficulty}
+                      onChange={(e) => update('difficulty', e.target.value as DifficultyLevel)}
+                      className={inputClass}
+                    >
+                      {DIFFICULTY_LEVELS.map((level) => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </Field>
+                </div>
+                <Field label="描述">
+                  <textarea
+                    value={form.description}
+                    onChange={(e) => update('description', e.target.value)}
+                    rows={3}
+                    className={inputClass}
+                  />
+                </Field>
+              </Section>
+
+              {/* 公式 */}
+              <Section title="公式" icon="📐">
+                <div className="grid grid-cols-2 gap-4">
+                  <Field label="公式（纯文本）">
+                    <input value={form.formula} onChange={(e) => update('formula', e.target.value)} className={inputClass} />
+                  </Field>
+                  <Field label="LaTeX 公式">
+                    <input
+                      value={form.formulaLatex}
+                      onChange={(e) => update('formulaLatex', e.target.value)}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </Field>
+                </div>
+                <div className="bg-blue-50 rounded-lg px-4 py-3 min-h-[3rem]">
+                  <p className="text-xs text-gray-500 mb-1">预览</p>
+                  {form.formulaLatex.trim() ? (
+                    <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+                      {`$$${form.formulaLatex}$$`}
+                    </ReactMarkdown>
+                  ) : (
+                    <p className="text-sm text-gray-400">输入 LaTeX 公式后在此预览</p>
+                  )}
+                </div>
+              </Section>
+
+              {/* 证明步骤 */}
+              <Section title="证明步骤" icon="🪜">
+                <ItemList<ProofStep>
+                  items={form.proofSteps}
+                  addLabel="添加步骤"
+                  createItem={() => ({ step: form.proofSteps.length + 1, title: '', content: '' })}
+                  // 步骤编号始终与顺序一致
+                  onChange={(steps) => update('proofSteps', steps.map((step, index) => ({ ...step, step: index + 1 })))}
+                  renderItem={(step, change) => (
+                    <>
+                      <input
+                        value={step.title}
+                        onChange={(e) => change({ ...step, title: e.target.value })}
+                        placeholder={`步骤 ${step.step} 标题`}
+                        className={inputClass}
+                      />
+                      <textarea
+                        value={step.content}
+                        onChange={(e) => change({ ...step, content: e.target.value })}
+                        placeholder="步骤内容"
+                        rows={2}
+                        className={inputClass}
+                      />
+                      <input
+                        value={step.visual || ''}
+                        onChange={(e) => change({ ...step, visual: e.target.value || undefined })}
+                        placeholder="配图标识（可选）"
+                        className={inputClass}
+                      />
+                    </>
+                  )}
+                />
+              </Section>
+
+              {/* 例题 */}
+              <Section title="例题" icon="📝">
+                <ItemList<Example>
+                  items={form.examples}
+                  addLabel="添加例题"
+                  createItem={() => ({ problem: '', solution: '', steps: [] })}
+                  onChange={(examples) => update('examples', examples)}
+                  renderItem={(example, change) => (
+                    <>
+                      <textarea
+                        value={example.problem}
+                        onChange={(e) => change({ ...example, problem: e.target.value })}
+                        placeholder="题目"
+                        rows={2}
+                        className={inputClass}
+                      />
+                      <textarea
+                        value={example.solution}
+                        onChange={(e) => change({ ...example, solution: e.target.value })}
+                        placeholder="解答"
+                        rows={2}
+                        className={inputClass}
+                      />
+                      <StringListInput
+                        value={example.steps || []}
+                        onChange={(steps) => change({ ...example, steps })}
+                        placeholder="解题步骤，每行一步"
+                      />
+                    </>
+                  )}
+                />
+              </Section>
+
+              {/* 常见错误 */}
+              <Section title="常见错误" icon="⚠️">
+                <ItemList<CommonMistake>
+                  items={form.commonMistakes}
+                  addLabel="添加常见错误"
+                  createItem={() => ({ mistake: '', correction: '' })}
+                  onChange={(mistakes) => update('commonMistakes', mistakes)}
+                  renderItem={(mistake, change) => (
+                    <>
+                      <input
+                        value={mistake.mistake}
+                        onChange={(e) => change({ ...mistake, mistake: e.target.value })}
+                        placeholder="错误"
+                        className={inputClass}
+                      />
+                      <input
+                        value={mistake.correction}
+                        onChange={(e) => change({ ...mistake, correction: e.target.value })}
+                        placeholder="纠正"
+                        className={inputClass}
+                      />
+                    </>
+                  )}
+                />
+              </Section>
+
+              {/* 教学内容 */}
+              <Section title="教学引导" icon="🤔">
+                <Field label="苏格拉底式问题（每行一个）">
+                  <StringListInput value={form.socraticQuestions} onChange={(value) => update('socraticQuestions', value)} />
+                </Field>
+                <Field label="教学提示（每行一个）">
+                  <StringListInput value={form.teachingTips} onChange={(value) => update('teachingTips', value)} />
+                </Field>
+              </Section>
+
+              {/* 关联与检索 */}
+              <Section title="关联与检索" icon="🔗">
+                <div className="grid grid-cols-2 gap-4">
+                  <Field label="前置知识（条目ID，每行一个）">
+                    <StringListInput value={form.prerequisites} onChange={(value) => update('prerequisites', value)} />
+                  </Field>
+                  <Field label="前置概念（知识库外的基础知识，每行一个）">
+                    <StringListInput value={form.prerequisiteConcepts} onChange={(value) => update('prerequisiteConcepts', value)} />
+                  </Field>
+                  <Field label="相关定理（条目ID，每行一个）">
+                    <StringListInput value={form.relatedTheorems} onChange={(value) => update('relatedTheorems', value)} />
+                  </Field>
+                  <Field label="关键词（每行一个）">
+                    <StringListInput value={form.keywords} onChange={(value) => update('keywords', value)} />
+                  </Field>
+                  <Field label="检索文本">
+                    <textarea
+                      value={form.embeddingText}
+                      onChange={(e) => update('embeddingText', e.target.value)}
+                      rows={4}
+                      className={inputClass}
+                    />
+                  </Field>
+                </div>
+              </Section>
+
+              {/* 可视化 */}
+              <Section title="可视化" icon="🎨">
+                <div className="grid grid-cols-2 gap-4">
+                  <Field label="类型">
+                    <input
+                      value={form.visualization.type}
+                      onChange={(e) => update('visualization', { ...form.visualization, type: e.target.value })}
+                      className={inputClass}
+                    />
+                  </Field>
+                  <Field label="组件（每行一个）">
+                    <StringListInput
+                      value={form.visualization.widgets}
+                      onChange={(widgets) => update('visualization', { ...form.visualization, widgets })}
+                    />
+                  </Field>
+                </div>
+                <Field label="说明">
+                  <input
+                    value={form.visualization.description}
+                    onChange={(e) => update('visualization', { ...form.visualization, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </Field>
+              </Section>
+            </div>
+          ) : (
+            /* 变更对比 */
+            <div className="space-y-4">
+              {diffs.length === 0 ? (
+                <div className="text-center py-12 text-gray-500">
+                  <span className="text-4xl mb-4 block">🟰</span>
+                  <p>没有任何修改</p>
+                </div>
+              ) : (
+                diffs.map((diff) => (
+                  <div key={diff.field} className="border border-gray-200 rounded-lg overflow-hidden">
+                    <div className="bg-gray-50 px-4 py-2 text-sm font-medium text-gray-700">{diff.label}</div>
+                    <pre className="text-xs font-mono overflow-x-auto">
+                      {diff.lines.map((line, index) => (
+                        <div
+                          key={index}
+                          className={`px-4 whitespace-pre-wrap ${
+                            line.type === 'added'
+                              ? 'bg-green-50 text-green-800'
+                              : line.type === 'removed'
+                                ? 'bg-red-50 text-red-800 line-through'
+                                : 'text-gray-500'
+                          }`}
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* 底部操作 */}
+        <div className="border-t px-6 py-4 flex justify-between items-center bg-gray-50">
+          <div className="flex space-x-2">
+            <button
+              onClick={handleSaveDraft}
+              disabled={!isDirty}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-100 rounded-lg transition disabled:opacity-50"
+            >
+              💾 保存草稿
+            </button>
+            {(drafts[draftKey] || isDirty) && (
+              <button
+                onClick={handleDiscardDraft}
+                className="px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg transition"
+              >
+                丢弃草稿
+              </button>
+            )}
+          </div>
+          {mode === 'edit' ? (
+            <button
+              onClick={() => setMode('diff')}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition"
+            >
+              查看变更
+            </button>
+          ) : (
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setMode('edit')}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+              >
+                返回编辑
+              </button>
+              <button
+                onClick={handlePublish}
+                disabled={publishing || diffs.length === 0}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition disabled:opacity-50"
+              >
+                {publishing ? '发布中...' : '确认发布'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-400'
+
+const Section: React.FC<{ title: string; icon: string; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <div className="space-y-3">
+    <h3 className="text-base font-semibold text-gray-800 flex items-center">
+      <span className="mr-2">{icon}</span>
+      {title}
+    </h3>
+    {children}
+  </div>
+)
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block">
+    <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+    {children}
+  </label>
+)
+
+function parseLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean)
+}
+
+/**
+ * 每行一项的字符串列表输入；保留输入中的空行，提交时去掉空项
+ */
+const StringListInput: React.FC<{
+  value: string[]
+  onChange: (value: string[]) => void
+  placeholder?: string
+}> = ({ value, onChange, placeholder }) => {
+  const [text, setText] = useState(value.join('\n'))
+
+  // 外部修改（丢弃草稿、调整列表顺序）时同步输入框内容
+  useEffect(() => {
+    if (parseLines(text).join('\n') !== value.join('\n')) {
+      setText(value.join('\n'))
+    }
+  }, [value])
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        onChange(parseLines(e.target.value))
+      }}
+      placeholder={placeholder}
+      rows={Math.max(3, Math.min(8, value.length + 1))}
+      className={inputClass}
+    />
+  )
+}
+
+interface ItemListProps<T> {
+  items: T[]
+  addLabel: string
+  createItem: () => T
+  onChange: (items: T[]) => void
+  renderItem: (item: T, change: (item: T) => void) => React.ReactNode
+}
+
+/**
+ * 可增删、调整顺序的结构化列表
+ */
+function ItemList<T>({ items, addLabel, createItem, onChange, renderItem }: ItemListProps<T>) {
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= items.length) return
+    const next = [...items]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start space-x-2 bg-gray-50 rounded-lg p-3">
+          <span className="flex-shrink-0 w-6 h-6 mt-1 bg-blue-600 text-white rounded-full flex items-center justify-center text-xs font-medium">
+            {index + 1}
+          </span>
+          <div className="flex-1 space-y-2">
+            {renderItem(item, (changed) => onChange(items.map((old, i) => (i === index ? changed : old))))}
+          </div>
+          <div className="flex flex-col space-y-1">
+            <button onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="上移">↑</button>
+            <button onClick={() => move(index, 1)} disabled={index === items.length - 1} className="px-2 text-gray-500 hover:text-gray-800 disabled:opacity-30" title="下移">↓</button>
+            <button onClick={() => onChange(items.filter((_, i) => i !== index))} className="px-2 text-red-500 hover:text-red-700" title="删除">✕</button>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...items, createItem()])}
+        className="w-full py-2 text-sm text-blue-600 border-2 border-dashed border-blue-200 hover:border-blue-400 hover:bg-blue-50 rounded-lg transition"
+      >
+        + {addLabel}
+      </button>
+    </div>
+  )
+}
+
+export default TheoremEditor
@@ -0,0 +1,97 @@
+import type { Theorem } from '@shared/types'
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface FieldDiff {
+  field: keyof Theorem
+  label: string
+  lines: DiffLine[]
+}
+
+// 参与对比的字段及显示名称（按编辑器中的顺序）
+export const THEOREM_FIELD_LABELS: Array<[keyof Theorem, string]> = [
+  ['id', 'ID'],
+  ['theorem', '名称'],
+  ['category', '学科'],
+  ['subject', '学科名称'],
+  ['topic', '主题'],
+  ['difficulty', '难度'],
+  ['description', '描述'],
+  ['formula', '公式'],
+  ['formulaLatex', 'LaTeX 公式'],
+  ['visualization', '可视化'],
+  ['proofSteps', '证明步骤'],
+  ['examples', '例题'],
+  ['commonMistakes', '常见错误'],
+  ['socraticQuestions', '苏格拉底式问题'],
+  ['teachingTips', '教学提示'],
+  ['prerequisites', '前置知识'],
+  ['relatedTheorems', '相关定理'],
+  ['keywords', '关键词'],
+  ['embeddingText', '检索文本']
+]
+
+/**
+ * 把字段值展开成逐行文本：字符串按换行拆分，字符串数组每项一行，其余按格式化的 JSON
+ */
+function toLines(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return []
+  if (typeof value === 'string') return value.split('\n')
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value
+  return JSON.stringify(value, null, 2).split('\n')
+}
+
+/**
+ * 基于最长公共子序列的逐行对比
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const m = before.length
+  const n = after.length
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0))
+
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < m && j < n) {
+    if (before[i] === after[j]) {
+      lines.push({ type: 'same', text: before[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: before[i++] })
+    } else {
+      lines.push({ type: 'added', text: after[j++] })
+    }
+  }
+  while (i < m) lines.push({ type: 'removed', text: before[i++] })
+  while (j < n) lines.push({ type: 'added', text: after[j++] })
+
+  return lines
+}
+
+/**
+ * 对比发布前后的定理，只返回有变化的字段；新增定理时 before 为 null
+ */
+export function diffTheorem(before: Theorem | null, after: Theorem): FieldDiff[] {
+  const diffs: FieldDiff[] = []
+
+  for (const [field, label] of THEOREM_FIELD_LABELS) {
+    const lines = diffLines(toLines(before?.[field]), toLines(after[field]))
+    if (lines.some(line => line.type !== 'same')) {
+      diffs.push({ field, label, lines })
+    }
+  }
+
+  return diffs
+}
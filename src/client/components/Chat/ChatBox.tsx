@@ -3,8 +3,9 @@ import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
-import type { ChatMessage } from '@shared/types'
+import type { ChatMessage, Citation, Widget } from '@shared/types'
 import { QuickActionsPopover } from './QuickActionsPopover'
+import { CitationDetail } from './CitationDetail'
 import 'katex/dist/katex.min.css'
 
 interface ChatBoxProps {
@@ -12,6 +13,7 @@ interface ChatBoxProps {
   currentResponse?: string
   isProcessing?: boolean
   onQuickQuestion?: (question: string) => void
+  onStartExercise?: () => void
   messageCount?: number
   learningStreak?: number
 }
@@ -21,6 +23,7 @@ export const ChatBox: React.FC<ChatBoxProps> = ({
   currentResponse,
   isProcessing,
   onQuickQuestion,
+  onStartExercise,
   messageCount = 0,
   learningStreak = 0
 }) => {
@@ -29,6 +32,7 @@ export const ChatBox: React.FC<ChatBoxProps> = ({
   const [showQuickActions, setShowQuickActions] = useState(false)
   const quickActionsButtonRef = useRef<HTMLButtonElement>(null)
   const [showScrollToBottom, setShowScrollToBottom] = useState(false)
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null)
 
   // 上一次的消息数量，用于检测新消息
   const prevMessageCountRef = React.useRef(0)
@@ -104,6 +108,10 @@ export const ChatBox: React.FC<ChatBoxProps> = ({
             onQuickQuestion(question)
             setShowQuickActions(false)
           }}
+          onStartExercise={onStartExercise && (() => {
+            onStartExercise()
+            setShowQuickActions(false)
+          })}
         />
       )}
 
@@ -112,8 +120,13 @@ export const ChatBox: React.FC<ChatBoxProps> = ({
         className="flex-1 overflow-y-auto space-y-3 p-2 relative"
         onScroll={handleScroll}
       >
-        {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+        {messages.map((message, index) => (
+          <MessageBubble
+            key={message.id}
+            message={message}
+            onQuestionClick={index === messages.length - 1 && !isProcessing ? onQuickQuestion : undefined}
+            onCitationClick={setActiveCitation}
+          />
         ))}
 
         {/* 当前响应（流式） */}
@@ -161,15 +174,22 @@ export const ChatBox: React.FC<ChatBoxProps> = ({
           </svg>
         </button>
       )}
+
+      {/* 引用详情 */}
+      {activeCitation && (
+        <CitationDetail citation={activeCitation} onClose={() => setActiveCitation(null)} />
+      )}
     </div>
   )
 }
 
 interface MessageBubbleProps {
   message: ChatMessage
+  onQuestionClick?: (question: string) => void
+  onCitationClick?: (citation: Citation) => void
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, onQuestionClick, onCitationClick }) => {
   const isUser = message.role === 'user'
 
   // 检查是否为多模态内容
@@ -224,6 +244,27 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           </div>
         )}
 
+        {/* 引用来源（对应回复中的 [n] 标记） */}
+        {message.citations && message.citations.length > 0 && !isUser && (
+          <div className="mt-3 pt-3 border-t border-blue-200">
+            <p className="text-xs font-medium text-gray-600 mb-2">🔖 引用来源：</p>
+            <div className="flex flex-wrap gap-2">
+              {message.citations.map((citation) => (
+                <button
+                  key={citation.index}
+                  onClick={() => onCitationClick?.(citation)}
+                  className="px-2 py-1 bg-white/60 hover:bg-white rounded-md text-xs text-blue-700 transition text-left"
+                  title={citation.excerpt || citation.title}
+                >
+                  <span className="font-semibold">[{citation.index}]</span>{' '}
+                  {citation.kind === 'chunk' ? `《${citation.title}》` : citation.title}
+                  {citation.page && <span className="text-gray-500"> p.{citation.page}</span>}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* 相关定理 */}
         {message.relatedTheorems && message.relatedTheorems.length > 0 && !isUser && (
           <div className="mt-3 pt-3 border-t border-blue-200">
@@ -241,6 +282,34 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           </div>
         )}
 
+        {/* 可视化组件 */}
+        {message.visualAids && message.visualAids.length > 0 && !isUser && (
+          <div className="mt-3 space-y-2">
+            {message.visualAids.map((widget, index) => (
+              <WidgetView key={index} widget={widget} />
+            ))}
+          </div>
+        )}
+
+        {/* 引导性问题（仅最新一条回复可点击追问） */}
+        {message.socraticQuestions && message.socraticQuestions.length > 0 && !isUser && (
+          <div className="mt-3 pt-3 border-t border-blue-200">
+            <p className="text-xs font-medium text-gray-600 mb-2">🤔 想一想：</p>
+            <div className="space-y-1">
+              {message.socraticQuestions.map((question, index) => (
+                <button
+                  key={index}
+                  onClick={() => onQuestionClick?.(question)}
+                  disabled={!onQuestionClick}
+                  className="block w-full text-left px-2 py-1 bg-white/60 rounded-md text-xs text-purple-700 enabled:hover:bg-white transition disabled:cursor-default"
+                >
+                  {question}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* 时间戳 */}
         <span className={`text-xs mt-2 block ${isUser ? 'opacity-70' : 'text-gray-500'}`}>
           {new Date(message.timestamp).toLocaleTimeString()}
@@ -250,4 +319,30 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   )
 }
 
+const WidgetView: React.FC<{ widget: Widget }> = ({ widget }) => {
+  if (widget.type === 'formula') {
+    return (
+      <div className="bg-white/70 rounded-lg px-3 py-2 text-sm">
+        {widget.data.description && (
+          <p className="text-xs text-gray-500 mb-1">{widget.data.description}</p>
+        )}
+        <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]}>
+          {`$$${widget.data.latex}$$`}
+        </ReactMarkdown>
+      </div>
+    )
+  }
+
+  if (widget.type === 'example') {
+    return (
+      <div className="bg-green-50 rounded-lg px-3 py-2 text-xs text-gray-700 space-y-1">
+        <p className="font-medium text-gray-800">例题：{widget.data.problem}</p>
+        <p>解答：{widget.data.solution}</p>
+      </div>
+    )
+  }
+
+  return null
+}
+
 export default ChatBox
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react'
+import type { Citation, Theorem } from '@shared/types'
+import { knowledgeService } from '../../services'
+import { TheoremDetail } from '../Subject'
+
+interface CitationDetailProps {
+  citation: Citation
+  onClose: () => void
+}
+
+/**
+ * 引用详情弹窗：加载被引用的知识库条目并用 TheoremDetail 展示，文档片段额外显示章节、页码和摘录
+ */
+export const CitationDetail: React.FC<CitationDetailProps> = ({ citation, onClose }) => {
+  const [theorem, setTheorem] = useState<Theorem | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadTheorem = async () => {
+      setLoading(true)
+      setTheorem(await knowledgeService.getTheoremById(citation.theoremId))
+      setLoading(false)
+    }
+
+    loadTheorem()
+  }, [citation.theoremId])
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] overflow-y-auto space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 文档片段来源 */}
+        {citation.kind === 'chunk' && (
+          <div className="bg-white rounded-2xl shadow-lg px-5 py-4">
+            <p className="text-sm font-semibold text-gray-800">
+              📄 [{citation.index}] 《{citation.title}》
+              {citation.heading && <span className="font-normal text-gray-600"> - {citation.heading}</span>}
+              {citation.page && <span className="font-normal text-gray-500">（第{citation.page}页）</span>}
+            </p>
+            {citation.excerpt && (
+              <p className="mt-2 text-xs text-gray-600 leading-relaxed whitespace-pre-wrap bg-gray-50 rounded-lg px-3 py-2">
+                {citation.excerpt}
+              </p>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-lg px-6 py-10 text-center text-gray-500">加载中...</div>
+        ) : theorem ? (
+          <TheoremDetail theorem={theorem} onClose={onClose} />
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg px-6 py-10 text-center text-gray-500">
+            <p>引用的知识条目不存在或已被删除</p>
+            <button
+              onClick={onClose}
+              className="mt-4 px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+            >
+              关闭
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CitationDetail
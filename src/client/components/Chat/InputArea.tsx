@@ -1,4 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react'
+import type { TutoringMode } from '@shared/types'
+import { TUTORING_MODES } from '@shared/constants'
 import { useChatStore } from '../../store'
 import { useAvatarStore } from '../../store'
 
@@ -17,6 +19,9 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled }) => {
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const isProcessing = useChatStore((state) => state.isProcessing)
+  const mode = useChatStore((state) => state.mode)
+  const lockedMode = useChatStore((state) => state.lockedMode)
+  const setMode = useChatStore((state) => state.setMode)
   const avatarState = useAvatarStore((state) => state.state)
 
   // 处理图片上传
@@ -121,6 +126,43 @@ export const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled }) => {
 
   return (
     <div className="bg-white rounded-2xl shadow-lg p-4">
+      {/* 辅导模式 */}
+      <div className="mb-3 flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="text-gray-500 mr-1">模式</span>
+        {lockedMode ? (
+          <span
+            className="px-2 py-1 rounded-lg bg-purple-50 text-purple-700"
+            title="老师为你所在的班级锁定了辅导模式"
+          >
+            🔒 {TUTORING_MODES[lockedMode].icon} {TUTORING_MODES[lockedMode].name}（班级已锁定）
+          </span>
+        ) : (
+          <>
+            <button
+              onClick={() => setMode(null)}
+              className={`px-2 py-1 rounded-lg transition ${
+                mode === null ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              title="有图片时解题，否则引导思考"
+            >
+              自动
+            </button>
+            {(Object.keys(TUTORING_MODES) as TutoringMode[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setMode(key)}
+                className={`px-2 py-1 rounded-lg transition ${
+                  mode === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+                title={TUTORING_MODES[key].description}
+              >
+                {TUTORING_MODES[key].icon} {TUTORING_MODES[key].name}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
       {/* 图片预览区 */}
       {images.length > 0 && (
         <div className="mb-3 flex flex-wrap gap-2">
@@ -3,17 +3,20 @@ import React, { useState, useEffect, useRef } from 'react'
 interface QuickActionsPopoverProps {
   buttonRef: React.RefObject<HTMLButtonElement>
   onSelect: (question: string) => void
+  onStartExercise?: () => void
 }
 
 interface QuickQuestion {
   q: string
   icon: string
   category: string
+  action?: 'exercise' // 打开练习面板，而不是发送提问
 }
 
 export const QuickActionsPopover: React.FC<QuickActionsPopoverProps> = ({
   buttonRef,
-  onSelect
+  onSelect,
+  onStartExercise
 }) => {
   const [position, setPosition] = useState({ top: 0, left: 0 })
   const popoverRef = useRef<HTMLDivElement>(null)
@@ -25,7 +28,7 @@ export const QuickActionsPopover: React.FC<QuickActionsPopoverProps> = ({
     { q: '一元二次方程的求根公式是什么？', icon: '🔢', category: '数学' },
     { q: '牛顿第一定律是什么？能举个例子吗？', icon: '🍎', category: '物理' },
     { q: '什么是能量守恒定律？', icon: '⚡', category: '物理' },
-    { q: '请给我出一道练习题', icon: '✏️', category: '练习' },
+    { q: '请给我出一道练习题', icon: '✏️', category: '练习', action: 'exercise' },
     { q: '帮我梳理一下今天的学习重点', icon: '📝', category: '复习' },
     { q: '这个知识点的常见误区有哪些？', icon: '⚠️', category: '提示' },
     { q: '给我讲一个相关的实际应用例子', icon: '💡', category: '应用' },
@@ -81,7 +84,7 @@ export const QuickActionsPopover: React.FC<QuickActionsPopoverProps> = ({
               .map((item, index) => (
                 <button
                   key={`${category}-${index}`}
-                  onClick={() => onSelect(item.q)}
+                  onClick={() => (item.action === 'exercise' && onStartExercise ? onStartExercise() : onSelect(item.q))}
                   className="w-full text-left px-3 py-2 my-1 rounded-lg hover:bg-blue-50 transition group flex items-start space-x-2"
                 >
                   <span className="text-base flex-shrink-0 mt-0.5">{item.icon}</span>
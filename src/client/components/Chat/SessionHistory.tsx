@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react'
+import type { ChatSessionSummary } from '@shared/types'
+import { chatService } from '../../services'
+
+interface SessionHistoryProps {
+  currentSessionId: string
+  onResume: (sessionId: string) => void
+  onNewSession: () => void
+  onClose: () => void
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({
+  currentSessionId,
+  onResume,
+  onNewSession,
+  onClose
+}) => {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      setLoading(true)
+      const list = await chatService.listSessions()
+      setSessions(list)
+      setLoading(false)
+    }
+
+    loadSessions()
+  }, [])
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">🕘</span>
+            <h2 className="text-xl font-bold">历史对话</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 会话列表 */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <div className="w-8 h-8 border-3 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <span className="text-4xl mb-4 block">📭</span>
+              <p>暂无历史对话</p>
+            </div>
+          ) : (
+            sessions.map((session) => (
+              <div
+                key={session.id}
+                className={`rounded-lg p-3 transition ${
+                  session.id === currentSessionId
+                    ? 'bg-blue-50 border-2 border-blue-300'
+                    : 'bg-gray-50 hover:bg-gray-100 border-2 border-transparent'
+                }`}
+              >
+                <div className="flex items-start justify-between">
+                  <button
+                    onClick={() => onResume(session.id)}
+                    className="flex-1 min-w-0 text-left"
+                  >
+                    <div className="font-medium text-sm text-gray-900 truncate">{session.title}</div>
+                    <div className="text-xs text-gray-500 mt-1 space-x-2">
+                      <span>{session.messageCount} 条消息</span>
+                      <span>{new Date(session.updatedAt).toLocaleString()}</span>
+                      {session.id === currentSessionId && <span className="text-blue-600">当前</span>}
+                    </div>
+                  </button>
+                  <div className="flex items-center space-x-1 ml-2 text-xs">
+                    <a
+                      href={chatService.getSessionExportUrl(session.id, 'md')}
+                      className="px-2 py-1 text-gray-600 hover:text-blue-600 hover:bg-white rounded"
+                      title="导出为 Markdown"
+                    >
+                      MD
+                    </a>
+                    <a
+                      href={chatService.getSessionExportUrl(session.id, 'json')}
+                      className="px-2 py-1 text-gray-600 hover:text-blue-600 hover:bg-white rounded"
+                      title="导出为 JSON"
+                    >
+                      JSON
+                    </a>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* 底部 */}
+        <div className="px-4 py-3 bg-gray-50 border-t border-gray-100 flex justify-end">
+          <button
+            onClick={onNewSession}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-500 hover:bg-blue-600 rounded-lg transition"
+          >
+            开始新对话
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SessionHistory
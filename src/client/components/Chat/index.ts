@@ -1,4 +1,6 @@
 export { ChatBox } from './ChatBox'
+export { CitationDetail } from './CitationDetail'
 export { InputArea } from './InputArea'
 export { QuickActions } from './QuickActions'
 export { QuickActionsPopover } from './QuickActionsPopover'
+export { SessionHistory } from './SessionHistory'
@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import type { Exercise, ExerciseGradeResult, ExerciseType, Theorem } from '@shared/types'
+import { DIFFICULTY_COLORS } from '@shared/types'
+import { exerciseService, knowledgeService } from '../../services'
+import 'katex/dist/katex.min.css'
+
+interface ExercisePanelProps {
+  initialTheoremId?: string
+  onClose: () => void
+}
+
+const TYPE_OPTIONS: Array<{ value: ExerciseType | ''; label: string }> = [
+  { value: '', label: '自动' },
+  { value: 'numeric', label: '数值' },
+  { value: 'symbolic', label: '表达式' },
+  { value: 'choice', label: '选择' },
+  { value: 'free', label: '简答' }
+]
+
+const GRADED_BY_LABELS: Record<ExerciseGradeResult['gradedBy'], string> = {
+  rule: '规则判分',
+  llm: 'AI 评分',
+  heuristic: '要点匹配估分'
+}
+
+const ANSWER_PLACEHOLDERS: Record<ExerciseType, string> = {
+  numeric: '输入数值，如 5 或 1.2e3',
+  symbolic: '输入表达式，如 (a+b)^2 或 x^2-4=0',
+  choice: '',
+  free: '用自己的话写出答案'
+}
+
+const markdown = (text: string) => (
+  <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+    {text}
+  </ReactMarkdown>
+)
+
+/**
+ * 练习模式：按定理出题，提交后自动判分并给出解析
+ */
+export const ExercisePanel: React.FC<ExercisePanelProps> = ({ initialTheoremId, onClose }) => {
+  const [theorems, setTheorems] = useState<Theorem[]>([])
+  const [theoremId, setTheoremId] = useState(initialTheoremId || '')
+  const [type, setType] = useState<ExerciseType | ''>('')
+  const [exercise, setExercise] = useState<Exercise | null>(null)
+  const [answer, setAnswer] = useState('')
+  const [result, setResult] = useState<ExerciseGradeResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    knowledgeService.queryKnowledge({}).then((items) => {
+      setTheorems(items)
+      if (!initialTheoremId && items.length > 0) {
+        setTheoremId(items[0].id)
+      }
+    })
+  }, [initialTheoremId])
+
+  const handleGenerate = async () => {
+    if (!theoremId) return
+    setLoading(true)
+    setError(null)
+    setExercise(null)
+    setResult(null)
+    setAnswer('')
+
+    const { exercise: generated, error: message } = await exerciseService.generateExercise({
+      theoremId,
+      type: type || undefined
+    })
+    setLoading(false)
+    if (generated) {
+      setExercise(generated)
+    } else {
+      setError(message || '出题失败，请重试')
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!exercise || !answer.trim()) return
+    setLoading(true)
+    setError(null)
+
+    const { result: graded, error: message } = await exerciseService.submitExercise(exercise.id, answer)
+    setLoading(false)
+    if (graded) {
+      setResult(graded)
+    } else {
+      setError(message || '判分失败，请重试')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">✏️</span>
+            <div>
+              <h2 className="text-xl font-bold">练习</h2>
+              <p className="text-sm text-white/80">做一道题检验理解，提交后自动判分</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 出题设置 */}
+        <div className="px-6 py-3 border-b flex flex-wrap items-center gap-2">
+          <select
+            value={theoremId}
+            onChange={(e) => setTheoremId(e.target.value)}
+            className="flex-1 min-w-[10rem] px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {theoremId && !theorems.some(t => t.id === theoremId) && (
+              <option value={theoremId}>{theoremId}</option>
+            )}
+            {theorems.map(theorem => (
+              <option key={theorem.id} value={theorem.id}>
+                {theorem.theorem}（{theorem.topic}）
+              </option>
+            ))}
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ExerciseType | '')}
+            className="px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={loading || !theoremId}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {exercise ? '换一题' : '出题'}
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading && !exercise ? (
+            <p className="text-center text-gray-500 py-10">正在出题...</p>
+          ) : !exercise ? (
+            <div className="text-center text-gray-500 py-10">
+              <p className="text-4xl mb-3">📝</p>
+              <p>选择定理和题型，点击「出题」开始练习</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-800">{exercise.theorem}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs ${DIFFICULTY_COLORS[exercise.difficulty]}`}>
+                  {exercise.difficulty}
+                </span>
+                <span className="text-xs text-gray-400">
+                  {TYPE_OPTIONS.find(option => option.value === exercise.type)?.label}题
+                </span>
+              </div>
+
+              <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-xl p-4 text-gray-800 prose prose-sm max-w-none">
+                {markdown(exercise.question)}
+              </div>
+
+              {/* 作答 */}
+              {exercise.type === 'choice' && exercise.options ? (
+                <div className="space-y-2">
+                  {exercise.options.map((option, index) => {
+                    const letter = String.fromCharCode(65 + index)
+                    return (
+                      <label
+                        key={letter}
+                        className={`flex items-start gap-2 px-3 py-2 border rounded-lg cursor-pointer transition ${
+                          answer === letter ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="exercise-option"
+                          value={letter}
+                          checked={answer === letter}
+                          onChange={() => setAnswer(letter)}
+                          disabled={!!result}
+                          className="mt-1"
+                        />
+                        <span className="font-medium text-gray-600">{letter}.</span>
+                        <span className="text-sm text-gray-800 prose prose-sm max-w-none">{markdown(option)}</span>
+                      </label>
+                    )
+                  })}
+                </div>
+              ) : exercise.type === 'free' ? (
+                <textarea
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  disabled={!!result}
+                  rows={4}
+                  placeholder={ANSWER_PLACEHOLDERS.free}
+                  className="w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <input
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && !result && handleSubmit()}
+                    disabled={!!result}
+                    placeholder={ANSWER_PLACEHOLDERS[exercise.type]}
+                    className="flex-1 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {exercise.unit && <span className="text-sm text-gray-500">{exercise.unit}</span>}
+                </div>
+              )}
+
+              {!result && (
+                <button
+                  onClick={handleSubmit}
+                  disabled={loading || !answer.trim()}
+                  className="w-full px-4 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  {loading ? '判分中...' : '提交答案'}
+                </button>
+              )}
+
+              {/* 判分结果 */}
+              {result && (
+                <div className={`rounded-xl p-4 space-y-3 ${result.correct ? 'bg-green-50' : 'bg-red-50'}`}>
+                  <div className="flex items-center justify-between">
+                    <span className={`font-semibold ${result.correct ? 'text-green-700' : 'text-red-700'}`}>
+                      {result.correct ? '✅ 回答正确' : '❌ 还不对'}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      得分 {Math.round(result.score * 100)} · {GRADED_BY_LABELS[result.gradedBy]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">{result.feedback}</p>
+
+                  <div className="text-sm">
+                    <p className="text-xs text-gray-500 mb-1">参考答案</p>
+                    <div className="text-gray-800 prose prose-sm max-w-none">{markdown(result.expectedAnswer)}</div>
+                  </div>
+
+                  {result.solution && (
+                    <div className="text-sm">
+                      <p className="text-xs text-gray-500 mb-1">解析</p>
+                      <div className="text-gray-700 prose prose-sm max-w-none">{markdown(result.solution)}</div>
+                    </div>
+                  )}
+
+                  {result.rubric.length > 0 && (
+                    <div className="text-sm">
+                      <p className="text-xs text-gray-500 mb-1">评分要点</p>
+                      <ul className="list-disc list-inside text-gray-700 space-y-0.5">
+                        {result.rubric.map((item, index) => (
+                          <li key={index}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleGenerate}
+                    disabled={loading}
+                    className="w-full px-4 py-2 text-sm bg-white border rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                  >
+                    再来一题
+                  </button>
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+          )}
+          {!exercise && error && <p className="text-sm text-red-600 text-center">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExercisePanel
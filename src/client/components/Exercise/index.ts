@@ -0,0 +1 @@
+export { ExercisePanel } from './ExercisePanel'
@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import type { DueReview, RecallGrade } from '@shared/types'
+import { DIFFICULTY_COLORS } from '@shared/types'
+import { learnerService } from '../../services'
+import { useLearnerStore } from '../../store'
+import 'katex/dist/katex.min.css'
+
+interface ReviewSessionProps {
+  onClose: () => void
+  onFinished?: (reviewedCount: number) => void
+}
+
+interface ReviewPrompt {
+  question: string
+  answer: string
+}
+
+// 回忆评分按钮（SM-2 评分，低于 3 分视为遗忘）
+const GRADE_OPTIONS: Array<{ grade: RecallGrade; label: string; className: string }> = [
+  { grade: 1, label: '😵 忘记了', className: 'bg-red-50 text-red-700 hover:bg-red-100' },
+  { grade: 3, label: '🤔 很吃力', className: 'bg-yellow-50 text-yellow-700 hover:bg-yellow-100' },
+  { grade: 4, label: '🙂 想起来了', className: 'bg-blue-50 text-blue-700 hover:bg-blue-100' },
+  { grade: 5, label: '😎 很轻松', className: 'bg-green-50 text-green-700 hover:bg-green-100' }
+]
+
+/**
+ * 从定理的引导问题和例题中出题，每次复习轮换到下一题
+ */
+function pickPrompt({ theorem, record }: DueReview): ReviewPrompt {
+  const reference = [theorem.description, theorem.formulaLatex ? `$$${theorem.formulaLatex}$$` : theorem.formula]
+    .filter(Boolean)
+    .join('\n\n')
+
+  const prompts: ReviewPrompt[] = [
+    ...theorem.socraticQuestions.map(question => ({ question, answer: reference })),
+    ...theorem.examples.map(example => ({ question: example.problem, answer: example.solution || reference }))
+  ]
+
+  if (prompts.length === 0) {
+    return { question: `用自己的话说说「${theorem.theorem}」讲的是什么？`, answer: reference }
+  }
+  return prompts[(record.repetitions ?? 0) % prompts.length]
+}
+
+/**
+ * 复习模式：逐个回顾今天到期的定理，先回忆再看参考答案，按回忆情况评分并重新排期
+ */
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ onClose, onFinished }) => {
+  const { learnerId } = useLearnerStore()
+  const [reviews, setReviews] = useState<DueReview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [current, setCurrent] = useState(0)
+  const [revealed, setRevealed] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReviews = async () => {
+      setLoading(true)
+      setReviews(await learnerService.getDueReviews(learnerId))
+      setLoading(false)
+    }
+
+    loadReviews()
+  }, [learnerId])
+
+  const review = reviews[current]
+  const prompt = review ? pickPrompt(review) : null
+  const finished = !loading && current >= reviews.length
+
+  const handleGrade = async (grade: RecallGrade) => {
+    if (!review) return
+    setSubmitting(true)
+    setError(null)
+
+    const record = await learnerService.submitReview(learnerId, review.theorem.id, grade)
+    setSubmitting(false)
+    if (!record) {
+      setError('评分提交失败，请重试')
+      return
+    }
+
+    setRevealed(false)
+    setCurrent(current + 1)
+    if (current + 1 >= reviews.length) {
+      onFinished?.(reviews.length)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">🔁</span>
+            <div>
+              <h2 className="text-xl font-bold">今日复习</h2>
+              {!loading && reviews.length > 0 && (
+                <p className="text-sm text-white/80">
+                  {Math.min(current + 1, reviews.length)} / {reviews.length}
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 内容 */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <p className="text-center text-gray-500 py-10">加载中...</p>
+          ) : reviews.length === 0 ? (
+            <div className="text-center text-gray-500 py-10">
+              <p className="text-4xl mb-3">🎉</p>
+              <p>今天没有需要复习的内容</p>
+            </div>
+          ) : finished ? (
+            <div className="text-center text-gray-600 py-10">
+              <p className="text-4xl mb-3">✅</p>
+              <p>今天的 {reviews.length} 个知识点已复习完成</p>
+              <p className="text-sm text-gray-400 mt-1">下次复习时间已根据你的评分重新安排</p>
+            </div>
+          ) : review && prompt && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-gray-800">{review.theorem.theorem}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs ${DIFFICULTY_COLORS[review.theorem.difficulty]}`}>
+                  {review.theorem.difficulty}
+                </span>
+                <span className="text-xs text-gray-400">{review.theorem.topic}</span>
+              </div>
+
+              <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-xl p-4">
+                <p className="text-xs text-gray-500 mb-1">先试着回忆，再查看参考答案</p>
+                <div className="text-gray-800 prose prose-sm max-w-none">
+                  <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                    {prompt.question}
+                  </ReactMarkdown>
+                </div>
+              </div>
+
+              {revealed ? (
+                <>
+                  <div className="border rounded-xl p-4">
+                    <p className="text-xs text-gray-500 mb-1">参考答案</p>
+                    <div className="text-gray-700 prose prose-sm max-w-none">
+                      <ReactMarkdown remarkPlugins={[remarkGfm, remarkMath]} rehypePlugins={[rehypeKatex]}>
+                        {prompt.answer || '（暂无参考答案）'}
+                      </ReactMarkdown>
+                    </div>
+                  </div>
+
+                  <div>
+                    <p className="text-sm text-gray-600 mb-2">刚才回忆得怎么样？</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                      {GRADE_OPTIONS.map(option => (
+                        <button
+                          key={option.grade}
+                          onClick={() => handleGrade(option.grade)}
+                          disabled={submitting}
+                          className={`px-3 py-2 text-sm rounded-lg transition disabled:opacity-50 ${option.className}`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={() => setRevealed(true)}
+                  className="w-full px-4 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition"
+                >
+                  显示参考答案
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ReviewSession
@@ -0,0 +1 @@
+export { ReviewSession } from './ReviewSession'
@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react'
+import type { KnowledgeGraph, SubjectCategory, DifficultyLevel, Theorem } from '@shared/types'
+import { SUBJECT_CONFIG } from '@shared/constants'
+import { knowledgeService } from '../../services'
+import { useSubjectStore } from '../../store'
+import { TheoremDetail } from './TheoremDetail'
+import { layoutKnowledgeMap, NODE_RADIUS } from './knowledgeMapLayout'
+
+interface KnowledgeMapProps {
+  onClose: () => void
+  onAskAbout: (theorem: string) => void
+}
+
+interface ViewTransform {
+  x: number
+  y: number
+  scale: number
+}
+
+const DIFFICULTY_FILLS: Record<DifficultyLevel, string> = {
+  初级: '#4ade80',
+  中级: '#facc15',
+  高级: '#f87171'
+}
+
+const MASTERED_STROKE = '#7c3aed'
+const MIN_SCALE = 0.3
+const MAX_SCALE = 3
+const INITIAL_VIEW: ViewTransform = { x: 0, y: 0, scale: 1 }
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+/**
+ * 知识地图：按前置关系分层展示知识库条目，节点颜色表示难度，紫色外圈表示已掌握
+ * 滚轮缩放、拖动平移；点击节点可查看详情或就该定理开始对话
+ */
+export const KnowledgeMap: React.FC<KnowledgeMapProps> = ({ onClose, onAskAbout }) => {
+  const { masteredTheoremIds, updateProgress } = useSubjectStore()
+  const [graph, setGraph] = useState<KnowledgeGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [subject, setSubject] = useState<SubjectCategory | 'all'>('all')
+  const [view, setView] = useState<ViewTransform>(INITIAL_VIEW)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<Theorem | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ startX: number; startY: number; originX: number; originY: number; moved: boolean } | null>(null)
+
+  useEffect(() => {
+    const loadGraph = async () => {
+      setLoading(true)
+      setGraph(await knowledgeService.getKnowledgeGraph())
+      setLoading(false)
+    }
+
+    loadGraph()
+  }, [])
+
+  // 只保留当前学科的条目以及两端都在其中的关系
+  const visibleGraph = useMemo<KnowledgeGraph>(() => {
+    if (!graph || subject === 'all') return graph || { nodes: [], edges: [] }
+    const nodes = graph.nodes.filter(node => node.category === subject)
+    const ids = new Set(nodes.map(node => node.id))
+    return { nodes, edges: graph.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target)) }
+  }, [graph, subject])
+
+  const layout = useMemo(() => layoutKnowledgeMap(visibleGraph), [visibleGraph])
+  const positions = useMemo(() => new Map(layout.nodes.map(node => [node.id, node])), [layout])
+  const subjects = useMemo(
+    () => Array.from(new Set((graph?.nodes || []).map(node => node.category))),
+    [graph]
+  )
+
+  const mastered = useMemo(() => new Set(masteredTheoremIds), [masteredTheoremIds])
+  const focusId = hoveredId || selectedId
+  const selected = selectedId ? positions.get(selectedId) : undefined
+
+  const changeSubject = (value: SubjectCategory | 'all') => {
+    setSubject(value)
+    setSelectedId(null)
+    setView(INITIAL_VIEW)
+  }
+
+  // 以指定点（SVG 坐标）为中心缩放
+  const zoomAt = (factor: number, centerX: number, centerY: number) => {
+    setView(current => {
+      const scale = clampScale(current.scale * factor)
+      const ratio = scale / current.scale
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * ratio,
+        y: centerY - (centerY - current.y) * ratio
+      }
+    })
+  }
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect) return
+    zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX - rect.left, e.clientY - rect.top)
+  }
+
+  const zoomFromCenter = (factor: number) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    zoomAt(factor, (rect?.width || 0) / 2, (rect?.height || 0) / 2)
+  }
+
+  const handleMouseDown = (e: React.MouseEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y, moved: false }
+  }
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const dx = e.clientX - drag.startX
+    const dy = e.clientY - drag.startY
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true
+    if (drag.moved) {
+      setView(current => ({ ...current, x: drag.originX + dx, y: drag.originY + dy }))
+    }
+  }
+
+  // 拖动结束时不触发点击；在空白处点击取消选中
+  const handleMouseUp = (e: React.MouseEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (drag?.moved) return
+
+    const nodeId = (e.target as Element).closest('[data-node-id]')?.getAttribute('data-node-id')
+    setSelectedId(nodeId || null)
+  }
+
+  const openDetail = async (id: string) => {
+    setDetail(await knowledgeService.getTheoremById(id))
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] overflow-hidden flex flex-col">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-3">
+            <span className="text-2xl">🗺️</span>
+            <div>
+              <h2 className="text-xl font-bold">知识地图</h2>
+              {graph && (
+                <p className="text-sm text-white/80">
+                  {graph.nodes.length} 个知识点 · 已掌握 {graph.nodes.filter(node => mastered.has(node.id)).length} 个
+                </p>
+              )}
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition p-1 hover:bg-white/10 rounded-lg"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* 工具栏 */}
+        <div className="px-6 py-3 border-b flex flex-wrap items-center gap-2">
+          <FilterButton active={subject === 'all'} onClick={() => changeSubject('all')}>
+            全部
+          </FilterButton>
+          {subjects.map(category => (
+            <FilterButton key={category} active={subject === category} onClick={() => changeSubject(category)}>
+              {SUBJECT_CONFIG[category]?.icon} {SUBJECT_CONFIG[category]?.name || category}
+            </FilterButton>
+          ))}
+
+          <div className="ml-auto flex items-center gap-3 text-xs text-gray-600">
+            {(Object.keys(DIFFICULTY_FILLS) as DifficultyLevel[]).map(level => (
+              <span key={level} className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: DIFFICULTY_FILLS[level] }} />
+                {level}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-full inline-block border-2" style={{ borderColor: MASTERED_STROKE }} />
+              已掌握
+            </span>
+            <span className="flex items-center gap-1">→ 前置</span>
+            <span className="flex items-center gap-1">⋯ 相关</span>
+          </div>
+        </div>
+
+        {/* 地图 */}
+        <div className="flex-1 relative bg-gray-50 min-h-0">
+          {loading ? (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-500">加载中...</div>
+          ) : layout.nodes.length === 0 ? (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-500">暂无知识点</div>
+          ) : (
+            <svg
+              ref={svgRef}
+              className="w-full h-full cursor-grab active:cursor-grabbing select-none"
+              onWheel={handleWheel}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={() => { dragRef.current = null }}
+            >
+              <defs>
+                <marker id="knowledge-map-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L10,5 L0,10 z" fill="#94a3b8" />
+                </marker>
+                <marker id="knowledge-map-arrow-active" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L10,5 L0,10 z" fill="#2563eb" />
+                </marker>
+              </defs>
+
+              <g transform={`translate(${view.x},${view.y}) scale(${view.scale})`}>
+                {/* 关系 */}
+                {visibleGraph.edges.map(edge => {
+                  const source = positions.get(edge.source)
+                  const target = positions.get(edge.target)
+                  if (!source || !target) return null
+
+                  const dx = target.x - source.x
+                  const dy = target.y - source.y
+                  const length = Math.hypot(dx, dy) || 1
+                  const offsetX = (dx / length) * NODE_RADIUS
+                  const offsetY = (dy / length) * NODE_RADIUS
+                  const active = focusId === edge.source || focusId === edge.target
+                  const isPrerequisite = edge.kind === 'prerequisite'
+
+                  return (
+                    <line
+                      key={`${edge.kind}-${edge.source}-${edge.target}`}
+                      x1={source.x + offsetX}
+                      y1={source.y + offsetY}
+                      x2={target.x - offsetX}
+                      y2={target.y - offsetY}
+                      stroke={active ? '#2563eb' : '#cbd5e1'}
+                      strokeWidth={active ? 2.5 : 1.5}
+                      strokeDasharray={isPrerequisite ? undefined : '4 4'}
+                      markerEnd={isPrerequisite ? `url(#knowledge-map-arrow${active ? '-active' : ''})` : undefined}
+                    />
+                  )
+                })}
+
+                {/* 知识点 */}
+                {layout.nodes.map(node => {
+                  const isMastered = mastered.has(node.id)
+                  const isSelected = node.id === selectedId
+                  return (
+                    <g
+                      key={node.id}
+                      data-node-id={node.id}
+                      transform={`translate(${node.x},${node.y})`}
+                      className="cursor-pointer"
+                      onMouseEnter={() => setHoveredId(node.id)}
+                      onMouseLeave={() => setHoveredId(null)}
+                    >
+                      {isMastered && (
+                        <circle r={NODE_RADIUS + 5} fill="none" stroke={MASTERED_STROKE} strokeWidth={3} />
+                      )}
+                      <circle
+                        r={NODE_RADIUS}
+                        fill={DIFFICULTY_FILLS[node.difficulty] || '#e2e8f0'}
+                        stroke={isSelected ? '#1e3a8a' : '#ffffff'}
+                        strokeWidth={isSelected ? 3 : 2}
+                      />
+                      <text textAnchor="middle" dominantBaseline="central" fontSize={16}>
+                        {isMastered ? '✓' : SUBJECT_CONFIG[node.category]?.icon}
+                      </text>
+                      <text y={NODE_RADIUS + 16} textAnchor="middle" fontSize={12} fill="#374151">
+                        {node.theorem.length > 10 ? `${node.theorem.slice(0, 10)}…` : node.theorem}
+                      </text>
+                      <title>{`${node.theorem}（${node.topic} · ${node.difficulty}）`}</title>
+                    </g>
+                  )
+                })}
+              </g>
+            </svg>
+          )}
+
+          {/* 缩放控制 */}
+          <div className="absolute bottom-4 left-4 flex flex-col bg-white rounded-lg shadow border overflow-hidden">
+            <button onClick={() => zoomFromCenter(1.2)} className="px-3 py-1 hover:bg-gray-100" title="放大">＋</button>
+            <button onClick={() => zoomFromCenter(1 / 1.2)} className="px-3 py-1 hover:bg-gray-100 border-t" title="缩小">－</button>
+            <button onClick={() => setView(INITIAL_VIEW)} className="px-3 py-1 hover:bg-gray-100 border-t text-xs" title="重置视图">⟲</button>
+          </div>
+
+          {/* 选中的知识点 */}
+          {selected && (
+            <div className="absolute top-4 right-4 w-64 bg-white rounded-xl shadow-lg border p-4 space-y-3">
+              <div>
+                <p className="font-semibold text-gray-800">{selected.theorem}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {SUBJECT_CONFIG[selected.category]?.name || selected.category} · {selected.topic} · {selected.difficulty}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => openDetail(selected.id)}
+                  className="px-3 py-2 text-sm bg-blue-50 text-blue-700 hover:bg-blue-100 rounded-lg transition"
+                >
+                  📖 查看详情
+                </button>
+                <button
+                  onClick={() => onAskAbout(selected.theorem)}
+                  className="px-3 py-2 text-sm bg-purple-50 text-purple-700 hover:bg-purple-100 rounded-lg transition"
+                >
+                  💬 开始对话
+                </button>
+              </div>
+              <button
+                onClick={() => updateProgress(selected.id, !mastered.has(selected.id))}
+                className="w-full px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+              >
+                {mastered.has(selected.id) ? '↩️ 标记为未掌握' : '✅ 标记为已掌握'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 定理详情 */}
+      {detail && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] p-4" onClick={() => setDetail(null)}>
+          <div className="w-full max-w-2xl max-h-[85vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <TheoremDetail theorem={detail} onClose={() => setDetail(null)} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface FilterButtonProps {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}
+
+const FilterButton: React.FC<FilterButtonProps> = ({ active, onClick, children }) => {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1 rounded-full text-sm transition ${
+        active ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
+
+export default KnowledgeMap
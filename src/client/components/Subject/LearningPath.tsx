@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react'
+import type { LearningPath as LearningPathData } from '@shared/types'
+import { DIFFICULTY_COLORS } from '@shared/types'
+import { knowledgeService } from '../../services'
+import { useSubjectStore } from '../../store'
+
+interface LearningPathProps {
+  theoremId: string
+}
+
+/**
+ * 学习路径：从已掌握的知识出发，按前置关系列出学到目标定理需要经过的条目
+ */
+export const LearningPath: React.FC<LearningPathProps> = ({ theoremId }) => {
+  const { masteredTheoremIds, updateProgress } = useSubjectStore()
+  const [path, setPath] = useState<LearningPathData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadPath = async () => {
+      setLoading(true)
+      setPath(await knowledgeService.getLearningPath(theoremId, masteredTheoremIds))
+      setLoading(false)
+    }
+
+    loadPath()
+  }, [theoremId, masteredTheoremIds])
+
+  if (loading && !path) {
+    return <p className="text-center text-gray-500 py-6">正在规划学习路径...</p>
+  }
+
+  if (!path) {
+    return <p className="text-center text-gray-500 py-6">暂时无法生成学习路径</p>
+  }
+
+  const titles = new Map(path.steps.map(step => [step.id, step.theorem]))
+
+  return (
+    <div className="space-y-4">
+      {/* 已掌握的前置知识 */}
+      {path.mastered.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">✅ 已掌握（点击可撤销）</h3>
+          <div className="flex flex-wrap gap-2">
+            {path.mastered.map(item => (
+              <button
+                key={item.id}
+                onClick={() => updateProgress(item.id, false)}
+                className="px-3 py-1 bg-green-100 text-green-700 hover:bg-green-200 rounded-lg text-sm transition"
+              >
+                {item.theorem}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* 路径步骤 */}
+      <ol className="space-y-2">
+        {path.steps.map((step, index) => {
+          const isTarget = step.id === path.targetId
+          return (
+            <li
+              key={step.id}
+              className={`flex items-start gap-3 rounded-xl border px-4 py-3 ${
+                isTarget ? 'border-purple-300 bg-purple-50' : 'border-gray-200'
+              }`}
+            >
+              <span
+                className={`flex-shrink-0 w-7 h-7 rounded-full flex items-center justify-center text-sm font-semibold ${
+                  isTarget ? 'bg-purple-600 text-white' : 'bg-blue-100 text-blue-700'
+                }`}
+              >
+                {index + 1}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-gray-800">{step.theorem}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${DIFFICULTY_COLORS[step.difficulty]}`}>
+                    {step.difficulty}
+                  </span>
+                  {isTarget && <span className="text-xs text-purple-600">🎯 目标</span>}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {step.topic}
+                  {step.prerequisites.length > 0 && (
+                    <> · 先学：{step.prerequisites.map(id => titles.get(id) || id).join('、')}</>
+                  )}
+                </p>
+              </div>
+              <button
+                onClick={() => updateProgress(step.id, true)}
+                className="flex-shrink-0 px-3 py-1 text-xs bg-gray-100 hover:bg-green-100 hover:text-green-700 rounded-lg transition"
+              >
+                我已掌握
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+
+      {/* 知识库中找不到的前置知识 */}
+      {path.missingPrerequisites.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl px-4 py-3 text-sm text-yellow-800">
+          ⚠️ 以下前置知识尚未收录，需要自行补充：{path.missingPrerequisites.join('、')}
+        </div>
+      )}
+
+      {/* 循环依赖 */}
+      {path.cycles.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl px-4 py-3 text-sm text-red-700">
+          ⚠️ 前置关系存在循环，以下条目的顺序仅供参考：
+          {path.cycles.map(cycle => cycle.map(id => titles.get(id) || id).join(' ↔ ')).join('；')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LearningPath
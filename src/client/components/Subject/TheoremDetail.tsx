@@ -1,10 +1,12 @@
-import React, { useState } from 'react'
+import React, { useState, useEffect } from 'react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
 import type { Theorem } from '@shared/types'
 import { DIFFICULTY_COLORS } from '@shared/types'
+import { LearningPath } from './LearningPath'
+import { knowledgeService } from '../../services'
 import 'katex/dist/katex.min.css'
 
 interface TheoremDetailProps {
@@ -13,7 +15,7 @@ interface TheoremDetailProps {
 }
 
 export const TheoremDetail: React.FC<TheoremDetailProps> = ({ theorem, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'proof' | 'examples' | 'mistakes'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'proof' | 'examples' | 'mistakes' | 'path'>('overview')
 
   return (
     <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
@@ -56,6 +58,9 @@ export const TheoremDetail: React.FC<TheoremDetailProps> = ({ theorem, onClose }
         <TabButton active={activeTab === 'mistakes'} onClick={() => setActiveTab('mistakes')}>
           易错点
         </TabButton>
+        <TabButton active={activeTab === 'path'} onClick={() => setActiveTab('path')}>
+          学习路径
+        </TabButton>
       </div>
 
       {/* 内容 */}
@@ -64,6 +69,7 @@ export const TheoremDetail: React.FC<TheoremDetailProps> = ({ theorem, onClose }
         {activeTab === 'proof' && <ProofTab theorem={theorem} />}
         {activeTab === 'examples' && <ExamplesTab theorem={theorem} />}
         {activeTab === 'mistakes' && <MistakesTab theorem={theorem} />}
+        {activeTab === 'path' && <LearningPath theoremId={theorem.id} />}
       </div>
     </div>
   )
@@ -91,6 +97,26 @@ const TabButton: React.FC<TabButtonProps> = ({ active, onClick, children }) => {
 }
 
 const OverviewTab: React.FC<{ theorem: Theorem }> = ({ theorem }) => {
+  const [prerequisiteTitles, setPrerequisiteTitles] = useState<Map<string, string>>(new Map())
+
+  // prerequisites 保存的是条目ID，展示时换成定理名称
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(theorem.prerequisites.map(id => knowledgeService.getTheoremById(id))).then(items => {
+      if (!cancelled) {
+        setPrerequisiteTitles(new Map(items.filter((item): item is Theorem => !!item).map(item => [item.id, item.theorem])))
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [theorem.id])
+
+  const prerequisiteLabels = [
+    ...theorem.prerequisites.map(id => prerequisiteTitles.get(id) || id),
+    ...(theorem.prerequisiteConcepts || [])
+  ]
+
   return (
     <div className="space-y-6">
       {/* 描述 */}
@@ -110,11 +136,11 @@ const OverviewTab: React.FC<{ theorem: Theorem }> = ({ theorem }) => {
       )}
 
       {/* 前置知识 */}
-      {theorem.prerequisites.length > 0 && (
+      {prerequisiteLabels.length > 0 && (
         <div>
           <h3 className="text-lg font-semibold text-gray-800 mb-2">前置知识</h3>
           <div className="flex flex-wrap gap-2">
-            {theorem.prerequisites.map((prereq, index) => (
+            {prerequisiteLabels.map((prereq, index) => (
               <span
                 key={index}
                 className="px-3 py-1 bg-blue-100 text-blue-700 rounded-lg text-sm"
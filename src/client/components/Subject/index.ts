@@ -1,2 +1,4 @@
+export { KnowledgeMap } from './KnowledgeMap'
+export { LearningPath } from './LearningPath'
 export { TheoremCard } from './TheoremCard'
 export { TheoremDetail } from './TheoremDetail'
@@ -0,0 +1,75 @@
+import type { KnowledgeGraph, KnowledgeGraphNode } from '@shared/types'
+import { SUBJECT_CATEGORIES, DIFFICULTY_LEVELS } from '@shared/types'
+
+export interface PositionedNode extends KnowledgeGraphNode {
+  x: number
+  y: number
+  depth: number
+}
+
+export interface MapLayout {
+  nodes: PositionedNode[]
+  width: number
+  height: number
+}
+
+export const NODE_RADIUS = 22
+const COLUMN_GAP = 180
+const ROW_GAP = 80
+const MARGIN = 60
+
+/**
+ * 分层布局：按前置关系的深度从左到右分列（没有前置知识的在最左侧），
+ * 同一列内按学科、难度排列；前置关系成环时环内的回边不计入深度
+ */
+export function layoutKnowledgeMap(graph: KnowledgeGraph): MapLayout {
+  const prerequisites = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]))
+  for (const edge of graph.edges) {
+    if (edge.kind === 'prerequisite') {
+      prerequisites.get(edge.target)?.push(edge.source)
+    }
+  }
+
+  const depths = new Map<string, number>()
+  const visiting = new Set<string>()
+  const depthOf = (id: string): number => {
+    if (depths.has(id)) return depths.get(id)!
+    if (visiting.has(id)) return -1
+    visiting.add(id)
+    let depth = 0
+    for (const prerequisite of prerequisites.get(id) || []) {
+      depth = Math.max(depth, depthOf(prerequisite) + 1)
+    }
+    visiting.delete(id)
+    depths.set(id, depth)
+    return depth
+  }
+
+  const columns: KnowledgeGraphNode[][] = []
+  for (const node of graph.nodes) {
+    const depth = depthOf(node.id)
+    if (!columns[depth]) columns[depth] = []
+    columns[depth].push(node)
+  }
+
+  const order = (node: KnowledgeGraphNode) =>
+    SUBJECT_CATEGORIES.indexOf(node.category) * 10 + DIFFICULTY_LEVELS.indexOf(node.difficulty)
+  const tallest = Math.max(1, ...columns.map(column => column?.length || 0))
+  const height = MARGIN * 2 + (tallest - 1) * ROW_GAP
+
+  const nodes: PositionedNode[] = []
+  columns.forEach((column, depth) => {
+    if (!column) return
+    column.sort((a, b) => order(a) - order(b) || a.theorem.localeCompare(b.theorem))
+    const offset = (height - (column.length - 1) * ROW_GAP) / 2
+    column.forEach((node, row) => {
+      nodes.push({ ...node, depth, x: MARGIN + depth * COLUMN_GAP, y: offset + row * ROW_GAP })
+    })
+  })
+
+  return {
+    nodes,
+    width: MARGIN * 2 + Math.max(0, columns.length - 1) * COLUMN_GAP,
+    height
+  }
+}
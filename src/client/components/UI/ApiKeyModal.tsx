@@ -61,7 +61,8 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onClose }) => {
         setValidationMessage(data.message || 'API 密钥验证成功')
       } else {
         setValidationStatus('invalid')
-        setValidationMessage(data.error || 'API 密钥无效')
+        // 密钥无效时 error 是说明文字，请求本身出错时是 { code, message }
+        setValidationMessage((typeof data.error === 'string' ? data.error : data.error?.message) || 'API 密钥无效')
       }
     } catch (err: any) {
       setValidationStatus('invalid')
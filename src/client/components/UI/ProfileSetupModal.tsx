@@ -0,0 +1,225 @@
+import React, { useState } from 'react'
+import type { DifficultyLevel, SubjectCategory } from '@shared/types'
+import { DIFFICULTY_CONFIG, DIFFICULTY_LEVELS, GRADE_ADAPTATION, GRADE_LEVELS, SUBJECT_NAMES } from '@shared/constants'
+import type { GradeLevel } from '@shared/constants'
+import { useChatStore, useLearnerStore } from '../../store'
+import { classService, learnerService } from '../../services'
+
+interface ProfileSetupModalProps {
+  onClose: () => void
+}
+
+const GRADE_ICONS: Record<GradeLevel, string> = {
+  小学: '🎒',
+  初中: '📘',
+  高中: '📗',
+  大学: '🎓'
+}
+
+/**
+ * 学习者档案设置：年级决定讲解的深度和检索的定理难度，班级代码用于加入老师设置的班级
+ */
+export const ProfileSetupModal: React.FC<ProfileSetupModalProps> = ({ onClose }) => {
+  const { learnerId, profile, setupCompleted, setProfile, completeSetup } = useLearnerStore()
+  const { lockedMode, setLockedMode } = useChatStore()
+
+  // 尚未设置过的档案中年级是服务端的默认值，不预先选中
+  const [gradeLevel, setGradeLevel] = useState<GradeLevel | null>(
+    setupCompleted && profile && (GRADE_LEVELS as readonly string[]).includes(profile.gradeLevel)
+      ? profile.gradeLevel as GradeLevel
+      : null
+  )
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(setupCompleted && profile ? profile.difficulty : '初级')
+  const [subjects, setSubjects] = useState<SubjectCategory[]>(profile?.subjects || [])
+  const [classCode, setClassCode] = useState(profile?.classId || '')
+  // 班级锁定了辅导模式时由老师调整学习者的班级
+  const classLocked = !!profile?.classId && !!lockedMode
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  // 切换年级时难度改为该年级默认的难度，之后仍可以手动调整
+  const handleSelectGrade = (grade: GradeLevel) => {
+    setGradeLevel(grade)
+    setDifficulty(GRADE_ADAPTATION[grade].preferred)
+  }
+
+  const toggleSubject = (subject: SubjectCategory) => {
+    setSubjects(prev => prev.includes(subject) ? prev.filter(s => s !== subject) : [...prev, subject])
+  }
+
+  const handleSkip = () => {
+    completeSetup()
+    onClose()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!gradeLevel) {
+      setError('请选择年级')
+      return
+    }
+
+    setSaving(true)
+    setError('')
+
+    // 填写了班级代码时先确认班级存在
+    const classId = classCode.trim()
+    const policy = classId ? await classService.getClassPolicy(classId) : null
+    if (classId && !policy) {
+      setError('班级不存在，请向老师确认班级代码')
+      setSaving(false)
+      return
+    }
+
+    const updated = await learnerService.updateLearnerProfile(learnerId, {
+      gradeLevel,
+      difficulty,
+      subjects,
+      ...(classLocked ? {} : { classId: classId || null })
+    })
+    setSaving(false)
+    if (!updated) {
+      setError('保存失败，班级代码只能包含字母、数字、下划线和连字符')
+      return
+    }
+
+    setProfile(updated)
+    setLockedMode(policy?.lockedMode || null)
+    completeSetup()
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* 头部 */}
+        <div className="bg-gradient-to-r from-blue-500 to-purple-600 px-6 py-4 rounded-t-2xl">
+          <div className="flex items-center space-x-3">
+            <span className="text-3xl">👤</span>
+            <div>
+              <h2 className="text-xl font-bold text-white">我的学习档案</h2>
+              <p className="text-sm text-blue-100">老师会按你的年级调整讲解的深度和用语</p>
+            </div>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* 年级 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              年级 <span className="text-red-500">*</span>
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {GRADE_LEVELS.map(grade => (
+                <button
+                  key={grade}
+                  type="button"
+                  onClick={() => handleSelectGrade(grade)}
+                  className={`py-3 rounded-lg border text-sm font-medium transition flex flex-col items-center ${
+                    gradeLevel === grade
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="text-2xl mb-1">{GRADE_ICONS[grade]}</span>
+                  {grade}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 难度 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">希望的难度</label>
+            <div className="flex gap-2">
+              {DIFFICULTY_LEVELS.map(level => {
+                const allowed = !gradeLevel || GRADE_ADAPTATION[gradeLevel].difficulties.includes(level)
+                return (
+                  <button
+                    key={level}
+                    type="button"
+                    disabled={!allowed}
+                    onClick={() => setDifficulty(level)}
+                    title={allowed ? DIFFICULTY_CONFIG[level].description : `${gradeLevel}阶段暂不涉及${level}内容`}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition disabled:opacity-40 disabled:cursor-not-allowed ${
+                      difficulty === level
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {level}
+                  </button>
+                )
+              })}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{DIFFICULTY_CONFIG[difficulty].description}，检索知识时优先选择这个难度的内容</p>
+          </div>
+
+          {/* 学科 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">在学的学科（可多选）</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.entries(SUBJECT_NAMES) as Array<[SubjectCategory, string]>).map(([subject, name]) => (
+                <button
+                  key={subject}
+                  type="button"
+                  onClick={() => toggleSubject(subject)}
+                  className={`px-3 py-1 rounded-full text-sm transition ${
+                    subjects.includes(subject)
+                      ? 'bg-purple-100 text-purple-700 border border-purple-300'
+                      : 'bg-gray-100 text-gray-600 border border-transparent hover:bg-gray-200'
+                  }`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 班级代码 */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">班级代码（可选）</label>
+            <input
+              value={classCode}
+              onChange={(e) => setClassCode(e.target.value)}
+              disabled={classLocked}
+              placeholder="老师提供的班级代码，如 class-8-1"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-400 focus:border-blue-500 transition disabled:bg-gray-100 disabled:text-gray-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              {classLocked
+                ? '班级已由老师锁定辅导模式，更换或退出班级请联系老师'
+                : '加入班级后，老师可以统一设置辅导模式；清空即退出班级'}
+            </p>
+          </div>
+
+          {/* 按钮 */}
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={handleSkip}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+            >
+              {setupCompleted ? '取消' : '以后再说'}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg font-medium hover:opacity-90 transition disabled:opacity-50"
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default ProfileSetupModal
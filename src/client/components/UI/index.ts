@@ -2,3 +2,4 @@ export { SubjectSelector } from './SubjectSelector'
 export { TopicSelector } from './TopicSelector'
 export { DifficultyLevel } from './DifficultyLevel'
 export { ApiKeyModal } from './ApiKeyModal'
+export { ProfileSetupModal } from './ProfileSetupModal'
@@ -1,15 +1,17 @@
-import type { ChatRequest, ChatResponse } from '@shared/types'
-import { useApiKeyStore } from '../store'
+import type { ChatRequest, ChatResponse, ChatMessage, ChatSessionSummary, ChatStreamEvent } from '@shared/types'
+import { useApiKeyStore, useChatStore, useLearnerStore } from '../store'
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
 
 /**
- * 增强请求，添加API密钥
+ * 增强请求，添加API密钥、学习者ID和选择的辅导模式
  */
 function enhanceRequest(request: ChatRequest): ChatRequest {
   const apiKeys = useApiKeyStore.getState()
   return {
     ...request,
+    learnerId: request.learnerId || useLearnerStore.getState().learnerId,
+    mode: request.mode || useChatStore.getState().mode || undefined,
     apiKeys: {
       modelScopeApiKey: apiKeys.modelScopeApiKey,
       xmovAppId: apiKeys.xmovAppId,
@@ -44,6 +46,7 @@ export async function sendMessage(request: ChatRequest): Promise<ChatResponse> {
 
 /**
  * 流式发送对话消息（SSE）
+ * 文本片段通过 onChunk 回调，定理、引导问题、组件等结构化事件写入 chat store
  */
 export async function sendMessageStream(
   request: ChatRequest,
@@ -52,6 +55,7 @@ export async function sendMessageStream(
   onError: (error: string) => void
 ): Promise<() => void> {
   const controller = new AbortController()
+  const { applyStreamEvent } = useChatStore.getState()
 
   try {
     const enhancedRequest = enhanceRequest(request)
@@ -75,32 +79,48 @@ export async function sendMessageStream(
 
     const decoder = new TextDecoder()
     let fullResponse = ''
+    let buffer = ''
+    let finished = false
+
+    // 处理单个事件，返回 true 表示流已结束
+    const handleEvent = (event: ChatStreamEvent): boolean => {
+      switch (event.type) {
+        case 'content':
+          fullResponse += event.data
+          onChunk(event.data)
+          return false
+        case 'done':
+          onComplete(event.data.response ?? fullResponse)
+          return true
+        case 'error':
+          onError(event.data)
+          return true
+        default:
+          applyStreamEvent(event)
+          return false
+      }
+    }
 
     const read = async (): Promise<void> => {
       const { done, value } = await reader.read()
 
       if (done) {
-        onComplete(fullResponse)
+        if (!finished) onComplete(fullResponse)
         return
       }
 
-      const chunk = decoder.decode(value)
-      const lines = chunk.split('\n').filter(line => line.trim())
+      // 一个网络分片可能包含半个事件，保留未完整的部分
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
 
       for (const line of lines) {
         if (line.startsWith('data: ')) {
           const data = line.slice(6)
           try {
-            const parsed = JSON.parse(data)
-
-            if (parsed.type === 'content') {
-              fullResponse += parsed.data
-              onChunk(parsed.data)
-            } else if (parsed.type === 'end') {
-              onComplete(fullResponse)
-              return
-            } else if (parsed.type === 'error') {
-              onError(parsed.data)
+            const parsed: ChatStreamEvent = JSON.parse(data)
+            if (handleEvent(parsed)) {
+              finished = true
               return
             }
           } catch (e) {
@@ -126,12 +146,17 @@ export async function sendMessageStream(
   return () => controller.abort()
 }
 
+// 会话接口只返回当前学习者的会话
+function learnerQuery(): string {
+  return new URLSearchParams({ learnerId: useLearnerStore.getState().learnerId }).toString()
+}
+
 /**
  * 清除会话历史
  */
 export async function clearSession(sessionId: string): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE}/chat/session/${sessionId}`, {
+    const response = await fetch(`${API_BASE}/chat/session/${encodeURIComponent(sessionId)}?${learnerQuery()}`, {
       method: 'DELETE'
     })
 
@@ -143,8 +168,86 @@ export async function clearSession(sessionId: string): Promise<boolean> {
   }
 }
 
+/**
+ * 获取服务端保存的会话列表
+ */
+export async function listSessions(): Promise<ChatSessionSummary[]> {
+  try {
+    const response = await fetch(`${API_BASE}/chat/sessions?${learnerQuery()}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return []
+  } catch (error) {
+    console.error('List sessions error:', error)
+    return []
+  }
+}
+
+/**
+ * 获取服务端保存的会话历史
+ * 第1页为最近的消息，页内按时间正序
+ */
+export async function getSessionHistory(
+  sessionId: string,
+  page: number = 1,
+  pageSize: number = 50
+): Promise<{ messages: ChatMessage[]; total: number; totalPages: number } | null> {
+  try {
+    const params = new URLSearchParams({
+      page: page.toString(),
+      pageSize: pageSize.toString(),
+      learnerId: useLearnerStore.getState().learnerId
+    })
+    const response = await fetch(`${API_BASE}/chat/session/${encodeURIComponent(sessionId)}?${params.toString()}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return {
+        messages: data.data.messages,
+        total: data.data.pagination.total,
+        totalPages: data.data.pagination.totalPages
+      }
+    }
+    return null
+  } catch (error) {
+    console.error('Get session history error:', error)
+    return null
+  }
+}
+
+/**
+ * 获取会话的全部消息：第 1 页是最新的消息，依次向前翻页并拼接
+ */
+export async function getAllSessionMessages(sessionId: string): Promise<ChatMessage[] | null> {
+  const pageSize = 200
+  const first = await getSessionHistory(sessionId, 1, pageSize)
+  if (!first) return null
+
+  let messages = first.messages
+  for (let page = 2; page <= first.totalPages; page++) {
+    const older = await getSessionHistory(sessionId, page, pageSize)
+    if (!older) return null
+    messages = [...older.messages, ...messages]
+  }
+  return messages
+}
+
+/**
+ * 获取会话导出地址
+ */
+export function getSessionExportUrl(sessionId: string, format: 'md' | 'json' = 'md'): string {
+  return `${API_BASE}/chat/session/${encodeURIComponent(sessionId)}/export?format=${format}&${learnerQuery()}`
+}
+
 export default {
   sendMessage,
   sendMessageStream,
-  clearSession
+  clearSession,
+  listSessions,
+  getSessionHistory,
+  getAllSessionMessages,
+  getSessionExportUrl
 }
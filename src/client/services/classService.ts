@@ -0,0 +1,25 @@
+import type { ClassPolicy } from '@shared/types'
+
+const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
+
+/**
+ * 获取班级设置（锁定的辅导模式等），班级不存在时返回 null
+ */
+export async function getClassPolicy(classId: string): Promise<ClassPolicy | null> {
+  try {
+    const response = await fetch(`${API_BASE}/classes/${encodeURIComponent(classId)}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Get class policy error:', error)
+    return null
+  }
+}
+
+export default {
+  getClassPolicy
+}
@@ -0,0 +1,73 @@
+import type { Exercise, ExerciseGenerateRequest, ExerciseGradeResult, ApiKeys } from '@shared/types'
+import { useApiKeyStore, useLearnerStore } from '../store'
+
+const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
+
+/**
+ * 出题和判分都可能调用模型，带上用户配置的密钥
+ */
+function getApiKeys(): ApiKeys {
+  const apiKeys = useApiKeyStore.getState()
+  return {
+    modelScopeApiKey: apiKeys.modelScopeApiKey,
+    xmovAppId: apiKeys.xmovAppId,
+    xmovAppSecret: apiKeys.xmovAppSecret
+  }
+}
+
+/**
+ * 为指定定理生成一道练习题
+ */
+export async function generateExercise(request: ExerciseGenerateRequest): Promise<{ exercise: Exercise | null; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE}/exercises/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ...request, apiKeys: getApiKeys() })
+    })
+    const data = await response.json()
+
+    if (data.success) {
+      return { exercise: data.data }
+    }
+    return { exercise: null, error: data.error?.message || '出题失败' }
+  } catch (error: any) {
+    console.error('Generate exercise error:', error)
+    return { exercise: null, error: error.message || '网络请求失败' }
+  }
+}
+
+/**
+ * 提交答案并获取判分结果，得分计入当前学习者的练习记录
+ */
+export async function submitExercise(exerciseId: string, answer: string): Promise<{ result: ExerciseGradeResult | null; error?: string }> {
+  try {
+    const response = await fetch(`${API_BASE}/exercises/${encodeURIComponent(exerciseId)}/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        answer,
+        learnerId: useLearnerStore.getState().learnerId,
+        apiKeys: getApiKeys()
+      })
+    })
+    const data = await response.json()
+
+    if (data.success) {
+      return { result: data.data }
+    }
+    return { result: null, error: data.error?.message || '判分失败' }
+  } catch (error: any) {
+    console.error('Submit exercise error:', error)
+    return { result: null, error: error.message || '网络请求失败' }
+  }
+}
+
+export default {
+  generateExercise,
+  submitExercise
+}
@@ -1,2 +1,6 @@
 export { default as chatService } from './chatService'
 export { default as knowledgeService } from './knowledgeService'
+export { default as learnerService } from './learnerService'
+export { default as exerciseService } from './exerciseService'
+export { default as classService } from './classService'
+export { default as promptService } from './promptService'
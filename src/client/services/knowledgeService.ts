@@ -1,4 +1,4 @@
-import type { KnowledgeQuery, SearchResult, SubjectCategory, Theorem } from '@shared/types'
+import type { KnowledgeQuery, SearchResult, SubjectCategory, Theorem, LearningPath, KnowledgeGraph, KnowledgeGraphReport } from '@shared/types'
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
 
@@ -110,10 +110,119 @@ export async function getTopicsByCategory(category: SubjectCategory): Promise<st
   }
 }
 
+/**
+ * 获取到目标定理的学习路径，已掌握的条目不会再排进路径
+ */
+export async function getLearningPath(id: string, masteredIds: string[] = []): Promise<LearningPath | null> {
+  try {
+    const params = new URLSearchParams()
+    if (masteredIds.length > 0) params.append('mastered', masteredIds.join(','))
+
+    const response = await fetch(`${API_BASE}/knowledge/${encodeURIComponent(id)}/path?${params.toString()}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Get learning path error:', error)
+    return null
+  }
+}
+
+/**
+ * 获取知识地图（条目及前置、相关关系）
+ */
+export async function getKnowledgeGraph(): Promise<KnowledgeGraph | null> {
+  try {
+    const response = await fetch(`${API_BASE}/knowledge/graph`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Get knowledge graph error:', error)
+    return null
+  }
+}
+
+/**
+ * 检查知识图谱的循环依赖和失效引用
+ */
+export async function checkKnowledgeGraph(): Promise<KnowledgeGraphReport | null> {
+  try {
+    const response = await fetch(`${API_BASE}/knowledge/graph/check`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Check knowledge graph error:', error)
+    return null
+  }
+}
+
+// 知识条目写操作的结果，校验失败时 error.details 列出每一项问题
+export interface KnowledgeWriteResult {
+  success: boolean
+  data?: Theorem
+  error?: {
+    code: string
+    message: string
+    details?: string[]
+  }
+}
+
+async function writeTheorem(method: 'POST' | 'PUT' | 'DELETE', url: string, theorem?: Theorem): Promise<KnowledgeWriteResult> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: theorem ? { 'Content-Type': 'application/json' } : undefined,
+      body: theorem ? JSON.stringify(theorem) : undefined
+    })
+    return await response.json()
+  } catch (error: any) {
+    console.error('Write theorem error:', error)
+    return { success: false, error: { code: 'NETWORK_ERROR', message: error.message || '网络错误' } }
+  }
+}
+
+/**
+ * 新增定理
+ */
+export async function createTheorem(theorem: Theorem): Promise<KnowledgeWriteResult> {
+  return writeTheorem('POST', `${API_BASE}/knowledge`, theorem)
+}
+
+/**
+ * 整体更新定理
+ */
+export async function updateTheorem(id: string, theorem: Theorem): Promise<KnowledgeWriteResult> {
+  return writeTheorem('PUT', `${API_BASE}/knowledge/${encodeURIComponent(id)}`, theorem)
+}
+
+/**
+ * 删除定理
+ */
+export async function deleteTheorem(id: string): Promise<KnowledgeWriteResult> {
+  return writeTheorem('DELETE', `${API_BASE}/knowledge/${encodeURIComponent(id)}`)
+}
+
 export default {
   queryKnowledge,
   searchKnowledge,
   getTheoremById,
   getCategories,
-  getTopicsByCategory
+  getTopicsByCategory,
+  getLearningPath,
+  getKnowledgeGraph,
+  checkKnowledgeGraph,
+  createTheorem,
+  updateTheorem,
+  deleteTheorem
 }
@@ -0,0 +1,101 @@
+import type { LearnerProfile, LearningRecord, DueReview, RecallGrade } from '@shared/types'
+
+const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
+
+/**
+ * 获取学习者档案（含每个定理的学习记录）
+ */
+export async function getLearnerProfile(learnerId: string): Promise<LearnerProfile | null> {
+  try {
+    const response = await fetch(`${API_BASE}/learners/${encodeURIComponent(learnerId)}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Get learner profile error:', error)
+    return null
+  }
+}
+
+/**
+ * 更新学习者档案，只修改传入的字段；classId 为 null 时退出班级
+ */
+export async function updateLearnerProfile(
+  learnerId: string,
+  changes: Partial<Omit<LearnerProfile, 'id' | 'classId' | 'createdAt' | 'updatedAt'>> & { classId?: string | null }
+): Promise<LearnerProfile | null> {
+  try {
+    const response = await fetch(`${API_BASE}/learners/${encodeURIComponent(learnerId)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(changes)
+    })
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    console.error('Update learner profile error:', data.error)
+    return null
+  } catch (error) {
+    console.error('Update learner profile error:', error)
+    return null
+  }
+}
+
+/**
+ * 获取今天到期的复习
+ */
+export async function getDueReviews(learnerId: string): Promise<DueReview[]> {
+  try {
+    const response = await fetch(`${API_BASE}/learners/${encodeURIComponent(learnerId)}/reviews`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return []
+  } catch (error) {
+    console.error('Get due reviews error:', error)
+    return []
+  }
+}
+
+/**
+ * 提交复习的回忆评分，返回重新排期后的学习记录
+ */
+export async function submitReview(learnerId: string, theoremId: string, grade: RecallGrade): Promise<LearningRecord | null> {
+  try {
+    const response = await fetch(
+      `${API_BASE}/learners/${encodeURIComponent(learnerId)}/reviews/${encodeURIComponent(theoremId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ grade })
+      }
+    )
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Submit review error:', error)
+    return null
+  }
+}
+
+export default {
+  getLearnerProfile,
+  updateLearnerProfile,
+  getDueReviews,
+  submitReview
+}
@@ -0,0 +1,114 @@
+import type {
+  PromptPreviewRequest,
+  PromptPreviewResult,
+  PromptTemplate,
+  PromptTemplateSummary
+} from '@shared/types'
+
+const API_BASE = import.meta.env.VITE_API_BASE_URL || '/api'
+
+/**
+ * 获取提示词模板列表
+ */
+export async function listPromptTemplates(): Promise<PromptTemplateSummary[]> {
+  try {
+    const response = await fetch(`${API_BASE}/prompts`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return []
+  } catch (error) {
+    console.error('List prompt templates error:', error)
+    return []
+  }
+}
+
+/**
+ * 获取模板及全部历史版本
+ */
+export async function getPromptTemplate(id: string): Promise<PromptTemplate | null> {
+  try {
+    const response = await fetch(`${API_BASE}/prompts/${encodeURIComponent(id)}`)
+    const data = await response.json()
+
+    if (data.success) {
+      return data.data
+    }
+    return null
+  } catch (error) {
+    console.error('Get prompt template error:', error)
+    return null
+  }
+}
+
+// 提示词接口的结果，校验失败时 error.details 列出每一项问题
+export interface PromptApiResult<T> {
+  success: boolean
+  data?: T
+  error?: {
+    code: string
+    message: string
+    details?: string[]
+  }
+}
+
+async function sendPromptRequest<T>(
+  method: 'POST' | 'PUT',
+  url: string,
+  body: unknown,
+  adminToken?: string
+): Promise<PromptApiResult<T>> {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(adminToken ? { 'X-Admin-Token': adminToken } : {})
+      },
+      body: JSON.stringify(body)
+    })
+    return await response.json()
+  } catch (error: any) {
+    console.error('Prompt request error:', error)
+    return { success: false, error: { code: 'NETWORK_ERROR', message: error.message || '网络错误' } }
+  }
+}
+
+/**
+ * 保存新版本；activate 为 true 时立即用于对话，服务端配置了管理口令时需要提供 adminToken
+ */
+export async function createPromptVersion(
+  id: string,
+  input: { content: string; note?: string; activate?: boolean },
+  adminToken?: string
+): Promise<PromptApiResult<PromptTemplate>> {
+  return sendPromptRequest('POST', `${API_BASE}/prompts/${encodeURIComponent(id)}/versions`, input, adminToken)
+}
+
+/**
+ * 切换对话使用的版本（发布或回滚），服务端配置了管理口令时需要提供 adminToken
+ */
+export async function activatePromptVersion(
+  id: string,
+  version: number,
+  adminToken?: string
+): Promise<PromptApiResult<PromptTemplate>> {
+  return sendPromptRequest('PUT', `${API_BASE}/prompts/${encodeURIComponent(id)}/active`, { version }, adminToken)
+}
+
+/**
+ * 用示例变量预览完整的系统提示词
+ */
+export async function previewPrompt(id: string, request: PromptPreviewRequest): Promise<PromptApiResult<PromptPreviewResult>> {
+  return sendPromptRequest('POST', `${API_BASE}/prompts/${encodeURIComponent(id)}/preview`, request)
+}
+
+export default {
+  listPromptTemplates,
+  getPromptTemplate,
+  createPromptVersion,
+  activatePromptVersion,
+  previewPrompt
+}
@@ -2,3 +2,5 @@ export { useChatStore } from './useChatStore'
 export { useSubjectStore } from './useSubjectStore'
 export { useAvatarStore } from './useAvatarStore'
 export { useApiKeyStore } from './useApiKeyStore'
+export { useTheoremDraftStore } from './useTheoremDraftStore'
+export { useLearnerStore } from './useLearnerStore'
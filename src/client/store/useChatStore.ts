@@ -1,12 +1,32 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { ChatMessage } from '@shared/types'
+import type { ChatMessage, ChatStreamEvent, ChatUsage, Citation, TheoremReference, TutoringMode, Widget } from '@shared/types'
+
+// 流式回复附带的结构化信息
+interface StreamExtras {
+  relatedTheorems: TheoremReference[]
+  socraticQuestions: string[]
+  visualAids: Widget[]
+  citations: Citation[]
+  usage: ChatUsage | null
+}
+
+const emptyStreamExtras: StreamExtras = {
+  relatedTheorems: [],
+  socraticQuestions: [],
+  visualAids: [],
+  citations: [],
+  usage: null
+}
 
 interface ChatState {
   messages: ChatMessage[]
   isProcessing: boolean
   currentResponse: string
   sessionId: string
+  streamExtras: StreamExtras
+  mode: TutoringMode | null // 选择的辅导模式，null 表示由服务端按是否有图片决定
+  lockedMode: TutoringMode | null // 班级锁定的模式，锁定时忽略 mode
 
   addMessage: (message: ChatMessage) => void
   setProcessing: (processing: boolean) => void
@@ -15,6 +35,11 @@ interface ChatState {
   clearMessages: () => void
   getConversationHistory: () => Array<{ role: string; content: string }>
   setSessionId: (sessionId: string) => void
+  restoreSession: (sessionId: string, messages: ChatMessage[]) => void
+  applyStreamEvent: (event: ChatStreamEvent) => void
+  resetStreamExtras: () => void
+  setMode: (mode: TutoringMode | null) => void
+  setLockedMode: (mode: TutoringMode | null) => void
 }
 
 export const useChatStore = create<ChatState>()(
@@ -24,6 +49,9 @@ export const useChatStore = create<ChatState>()(
       isProcessing: false,
       currentResponse: '',
       sessionId: '',
+      streamExtras: emptyStreamExtras,
+      mode: null,
+      lockedMode: null,
 
       addMessage: (message) =>
         set((state) => ({
@@ -51,13 +79,51 @@ export const useChatStore = create<ChatState>()(
         }))
       },
 
-      setSessionId: (sessionId) => set({ sessionId })
+      setSessionId: (sessionId) => set({ sessionId }),
+
+      // 用服务端保存的历史替换本地消息
+      restoreSession: (sessionId, messages) =>
+        set({ sessionId, messages, currentResponse: '' }),
+
+      // 处理流式回复中的结构化事件
+      applyStreamEvent: (event) =>
+        set((state) => {
+          const extras = state.streamExtras
+          switch (event.type) {
+            case 'meta':
+              // 以服务端实际使用的模式为准，老师中途锁定或解锁时同步更新
+              return {
+                streamExtras: emptyStreamExtras,
+                lockedMode: event.data.modeLocked ? event.data.mode : null
+              }
+            case 'theorems':
+              return { streamExtras: { ...extras, relatedTheorems: event.data } }
+            case 'questions':
+              return { streamExtras: { ...extras, socraticQuestions: event.data } }
+            case 'widget':
+              return { streamExtras: { ...extras, visualAids: [...extras.visualAids, event.data] } }
+            case 'citations':
+              return { streamExtras: { ...extras, citations: event.data } }
+            case 'usage':
+              return { streamExtras: { ...extras, usage: event.data } }
+            default:
+              return {}
+          }
+        }),
+
+      resetStreamExtras: () =>
+        set({ streamExtras: emptyStreamExtras }),
+
+      setMode: (mode) => set({ mode }),
+
+      setLockedMode: (lockedMode) => set({ lockedMode })
     }),
     {
       name: 'chat-storage',
       partialize: (state) => ({
         messages: state.messages.slice(-50), // 只保留最近50条
-        sessionId: state.sessionId
+        sessionId: state.sessionId,
+        mode: state.mode
       })
     }
   )
@@ -0,0 +1,35 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { LearnerProfile } from '@shared/types'
+
+interface LearnerState {
+  learnerId: string
+  profile: LearnerProfile | null // 最近一次从服务端获取的档案
+  setupCompleted: boolean // 是否已经填写过年级等档案信息（或选择跳过）
+
+  setProfile: (profile: LearnerProfile | null) => void
+  completeSetup: () => void
+}
+
+/**
+ * 学习者身份（ID 首次使用时生成并保存在 localStorage，学习记录保存在服务端）
+ */
+export const useLearnerStore = create<LearnerState>()(
+  persist(
+    (set) => ({
+      learnerId: `learner_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      profile: null,
+      setupCompleted: false,
+
+      setProfile: (profile) =>
+        set({ profile }),
+
+      completeSetup: () =>
+        set({ setupCompleted: true })
+    }),
+    {
+      name: 'learner-storage',
+      partialize: (state) => ({ learnerId: state.learnerId, setupCompleted: state.setupCompleted })
+    }
+  )
+)
@@ -23,7 +23,8 @@ const initialState: SubjectState = {
     masteredTheorems: 0,
     currentStreak: 0,
     lastStudyTime: 0
-  }
+  },
+  masteredTheoremIds: []
 }
 
 export const useSubjectStore = create<SubjectStore>()(
@@ -49,11 +50,14 @@ export const useSubjectStore = create<SubjectStore>()(
 
       updateProgress: (theoremId, mastered) =>
         set((state) => {
-          const progress = { ...state.learningProgress }
+          const ids = state.masteredTheoremIds.filter(id => id !== theoremId)
           if (mastered) {
-            progress.masteredTheorems += 1
+            ids.push(theoremId)
+          }
+          return {
+            masteredTheoremIds: ids,
+            learningProgress: { ...state.learningProgress, masteredTheorems: ids.length }
           }
-          return { learningProgress: progress }
         }),
 
       incrementStreak: () =>
@@ -66,7 +70,8 @@ export const useSubjectStore = create<SubjectStore>()(
 
       resetProgress: () =>
         set({
-          learningProgress: initialState.learningProgress
+          learningProgress: initialState.learningProgress,
+          masteredTheoremIds: []
         })
     }),
     {
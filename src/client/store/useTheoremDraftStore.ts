@@ -0,0 +1,43 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { Theorem } from '@shared/types'
+
+// 新增定理时草稿使用的键
+export const NEW_THEOREM_DRAFT_KEY = '__new__'
+
+export interface TheoremDraft {
+  theorem: Theorem
+  savedAt: number
+}
+
+interface TheoremDraftState {
+  drafts: Record<string, TheoremDraft>
+
+  saveDraft: (key: string, theorem: Theorem) => void
+  discardDraft: (key: string) => void
+}
+
+/**
+ * 定理编辑草稿（保存在 localStorage，关闭编辑器或刷新页面后可继续编辑）
+ */
+export const useTheoremDraftStore = create<TheoremDraftState>()(
+  persist(
+    (set) => ({
+      drafts: {},
+
+      saveDraft: (key, theorem) =>
+        set((state) => ({
+          drafts: { ...state.drafts, [key]: { theorem, savedAt: Date.now() } }
+        })),
+
+      discardDraft: (key) =>
+        set((state) => {
+          const { [key]: _removed, ...rest } = state.drafts
+          return { drafts: rest }
+        })
+    }),
+    {
+      name: 'theorem-drafts'
+    }
+  )
+)
@@ -6,6 +6,10 @@ import dotenv from 'dotenv'
 import chatRoutes from './routes/chatRoutes.ts'
 import knowledgeRoutes from './routes/knowledgeRoutes.ts'
 import avatarRoutes from './routes/avatarRoutes.ts'
+import learnerRoutes from './routes/learnerRoutes.ts'
+import exerciseRoutes from './routes/exerciseRoutes.ts'
+import classRoutes from './routes/classRoutes.ts'
+import promptRoutes from './routes/promptRoutes.ts'
 
 // 中间件
 import { errorHandler } from './middleware/errorHandler.ts'
@@ -31,6 +35,10 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 app.use('/api/chat', chatRoutes)
 app.use('/api/knowledge', knowledgeRoutes)
 app.use('/api/avatar', avatarRoutes)
+app.use('/api/learners', learnerRoutes)
+app.use('/api/exercises', exerciseRoutes)
+app.use('/api/classes', classRoutes)
+app.use('/api/prompts', promptRoutes)
 
 // 健康检查
 app.get('/health', (req: Request, res: Response) => {
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express'
+import { createError } from './errorHandler.ts'
+
+/**
+ * 请求是否带有老师的管理口令（X-Admin-Token 与 CLASS_ADMIN_TOKEN 一致）；未配置口令时始终为 false
+ */
+export function hasClassAdminToken(req: Request): boolean {
+  const adminToken = process.env.CLASS_ADMIN_TOKEN
+  return !!adminToken && req.get('X-Admin-Token') === adminToken
+}
+
+/**
+ * 修改班级设置、提示词模板前校验管理口令；未配置 CLASS_ADMIN_TOKEN 时不校验
+ */
+export const requireClassAdmin = (req: Request, _res: Response, next: NextFunction) => {
+  if (process.env.CLASS_ADMIN_TOKEN && !hasClassAdminToken(req)) {
+    return next(createError('该操作需要老师的管理口令', 401, 'UNAUTHORIZED'))
+  }
+  next()
+}
@@ -16,7 +16,12 @@ export const errorHandler = (
   const errorCode = err.code || 'INTERNAL_ERROR'
   const message = err.message || '服务器内部错误'
 
-  console.error(`[Error] ${errorCode}: ${message}`)
+  if (err.statusCode) {
+    console.error(`[Error] ${errorCode}: ${message}`)
+  } else {
+    // 不是 createError 生成的错误（如文件读写失败），记录完整的堆栈便于排查
+    console.error('[Error]', err)
+  }
   if (err.details) {
     console.error('[Error Details]', err.details)
   }
@@ -1,10 +1,14 @@
-import { Router, Request, Response } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import multer from 'multer'
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import chatService from '../services/ChatService.ts'
-import modelscopeService from '../services/ModelScopeService.ts'
+import { getLLMProvider, getAllowedRequestProviders, isAllowedRequestProvider } from '../services/llm/index.ts'
+import { isTutoringMode, TUTORING_MODE_IDS } from '../services/TutoringModes.ts'
+import { isValidSessionId } from '../services/SessionStore.ts'
+import { createError } from '../middleware/errorHandler.ts'
+import type { ChatRequest, ChatStreamEvent } from '../../shared/types'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -38,17 +42,63 @@ const upload = multer({
   }
 })
 
+/**
+ * 校验对话请求（send 和 stream 共用），不合法时抛出 400 错误
+ */
+function parseChatRequest(body: any): ChatRequest {
+  const { message, images, subject, topic, sessionId, conversationHistory, userProfile, learnerId, mode, apiKeys, llm } = body || {}
+
+  // 验证：要么有文字消息，要么有图片
+  const hasValidMessage = message && typeof message === 'string' && message.trim()
+  const hasImages = images && Array.isArray(images) && images.length > 0
+
+  if (!hasValidMessage && !hasImages) {
+    throw createError('消息内容不能为空', 400, 'VALIDATION_ERROR')
+  }
+
+  if (!isValidSessionId(sessionId)) {
+    throw createError('会话ID不能为空，且只能包含字母、数字、下划线和连字符', 400, 'INVALID_SESSION_ID')
+  }
+
+  if (llm?.provider && !isAllowedRequestProvider(llm.provider)) {
+    throw createError(`不支持的模型提供方，可选值: ${getAllowedRequestProviders().join(', ')}`, 400, 'VALIDATION_ERROR')
+  }
+
+  if (mode !== undefined && !isTutoringMode(mode)) {
+    throw createError(`不支持的辅导模式，可选值: ${TUTORING_MODE_IDS.join(', ')}`, 400, 'VALIDATION_ERROR')
+  }
+
+  return {
+    message: message || '',
+    images,
+    subject,
+    topic,
+    sessionId,
+    conversationHistory,
+    userProfile,
+    learnerId,
+    mode,
+    apiKeys,
+    llm
+  }
+}
+
+/**
+ * 会话接口通过查询参数 learnerId 标明请求者，只能访问自己的会话
+ */
+function getRequestLearnerId(req: Request): string | undefined {
+  const { learnerId } = req.query
+  return typeof learnerId === 'string' && learnerId ? learnerId : undefined
+}
+
 /**
  * POST /api/chat/upload-image
  * 上传图片
  */
-router.post('/upload-image', upload.single('image'), async (req: Request, res: Response) => {
+router.post('/upload-image', upload.single('image'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.file) {
-      return res.status(400).json({
-        success: false,
-        error: '没有上传文件'
-      })
+      throw createError('没有上传文件', 400, 'VALIDATION_ERROR')
     }
 
     // 返回图片 URL（相对于 public 目录）
@@ -59,12 +109,8 @@ router.post('/upload-image', upload.single('image'), async (req: Request, res: R
       imageUrl,
       filename: req.file.filename
     })
-  } catch (error: any) {
-    console.error('[Upload Image] Error:', error)
-    res.status(500).json({
-      success: false,
-      error: error.message || '图片上传失败'
-    })
+  } catch (error) {
+    next(error)
   }
 })
 
@@ -72,22 +118,19 @@ router.post('/upload-image', upload.single('image'), async (req: Request, res: R
  * POST /api/chat/validate-key
  * 验证 API 密钥是否有效
  */
-router.post('/validate-key', async (req: Request, res: Response) => {
+router.post('/validate-key', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { apiKey } = req.body
 
     if (!apiKey || typeof apiKey !== 'string') {
-      return res.status(400).json({
-        success: false,
-        valid: false,
-        error: 'API Key is required'
-      })
+      throw createError('API Key is required', 400, 'VALIDATION_ERROR')
     }
 
     // 测试调用 - 发送一个简单的请求来验证密钥
     try {
       const testMessage = 'Hello'
-      const response = await modelscopeService.chat({
+      // 客户端填写的密钥只用于 ModelScope
+      await getLLMProvider('modelscope').chat({
         messages: [
           { role: 'user', content: testMessage }
         ],
@@ -112,13 +155,8 @@ router.post('/validate-key', async (req: Request, res: Response) => {
         error: apiError.message || 'API 密钥验证失败'
       })
     }
-  } catch (error: any) {
-    console.error('[Validate Key] Server Error:', error)
-    res.status(500).json({
-      success: false,
-      valid: false,
-      error: error.message || '服务器错误'
-    })
+  } catch (error) {
+    next(error)
   }
 })
 
@@ -126,82 +164,26 @@ router.post('/validate-key', async (req: Request, res: Response) => {
  * POST /api/chat/send
  * 发送对话消息（非流式）
  */
-router.post('/send', async (req: Request, res: Response) => {
+router.post('/send', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { message, images, subject, topic, sessionId, conversationHistory, userProfile, apiKeys } = req.body
-
-    // 验证：要么有文字消息，要么有图片
-    const hasValidMessage = message && typeof message === 'string' && message.trim()
-    const hasImages = images && Array.isArray(images) && images.length > 0
-
-    if (!hasValidMessage && !hasImages) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '消息内容不能为空'
-        }
-      })
-    }
-
-    if (!sessionId) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '会话ID不能为空'
-        }
-      })
-    }
-
-    const result = await chatService.processChat({
-      message: message || '',
-      images,
-      subject,
-      topic,
-      sessionId,
-      conversationHistory,
-      userProfile,
-      apiKeys
-    })
+    const result = await chatService.processChat(parseChatRequest(req.body))
 
     res.json({
       success: true,
       ...result
     })
-  } catch (error: any) {
-    console.error('[Chat Routes] Error:', error)
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'CHAT_ERROR',
-        message: error.message || '处理对话时发生错误'
-      }
-    })
+  } catch (error) {
+    next(error)
   }
 })
 
 /**
  * POST /api/chat/stream
- * 流式对话（SSE）
+ * 流式对话（SSE），事件类型见 ChatStreamEvent
  */
-router.post('/stream', async (req: Request, res: Response) => {
+router.post('/stream', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { message, images, subject, topic, sessionId, conversationHistory, userProfile, apiKeys } = req.body
-
-    // 验证：要么有文字消息，要么有图片
-    const hasValidMessage = message && typeof message === 'string' && message.trim()
-    const hasImages = images && Array.isArray(images) && images.length > 0
-
-    if (!hasValidMessage && !hasImages) {
-      return res.status(400).json({
-        success: false,
-        error: {
-          code: 'VALIDATION_ERROR',
-          message: '消息内容不能为空'
-        }
-      })
-    }
+    const request = parseChatRequest(req.body)
 
     // 设置SSE
     res.setHeader('Content-Type', 'text/event-stream')
@@ -209,72 +191,150 @@ router.post('/stream', async (req: Request, res: Response) => {
     res.setHeader('Connection', 'keep-alive')
     res.setHeader('X-Accel-Buffering', 'no')
 
-    // 发送开始事件
-    res.write(`data: ${JSON.stringify({ type: 'start' })}\n\n`)
+    const sendEvent = (event: ChatStreamEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`)
+    }
 
+    // 响应头已发出，之后的错误只能作为事件发送
     try {
-      // 流式处理
-      const stream = chatService.processChatStream({
-        message: message || '',
-        images,
-        subject,
-        topic,
-        sessionId,
-        conversationHistory,
-        userProfile,
-        apiKeys
-      })
-
-      for await (const chunk of stream) {
-        res.write(`data: ${JSON.stringify({ type: 'content', data: chunk })}\n\n`)
+      // 流式处理，逐个转发结构化事件
+      for await (const event of chatService.processChatStream(request)) {
+        sendEvent(event)
       }
-
-      // 发送结束事件
-      res.write(`data: ${JSON.stringify({ type: 'end' })}\n\n`)
     } catch (streamError: any) {
       // 只序列化错误消息，避免循环引用
       const errorMessage = streamError?.message || String(streamError)
       console.error('[Chat Routes] Stream error:', errorMessage)
-      res.write(`data: ${JSON.stringify({ type: 'error', data: errorMessage })}\n\n`)
+      sendEvent({ type: 'error', data: errorMessage })
     }
 
     res.end()
-  } catch (error: any) {
-    console.error('[Chat Routes] Stream Error:', error)
-    if (!res.headersSent) {
-      res.status(500).json({
-        success: false,
-        error: {
-          code: 'STREAM_ERROR',
-          message: error.message || '流式处理时发生错误'
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/chat/sessions?learnerId=
+ * 获取学习者的会话列表
+ */
+router.get('/sessions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const learnerId = getRequestLearnerId(req)
+    if (!learnerId) {
+      throw createError('learnerId 不能为空', 400, 'VALIDATION_ERROR')
+    }
+
+    const sessions = await chatService.listSessions(learnerId)
+
+    res.json({
+      success: true,
+      data: sessions
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// 会话接口先校验路径中的会话ID
+router.param('sessionId', (_req: Request, _res: Response, next: NextFunction, sessionId: string) => {
+  if (!isValidSessionId(sessionId)) {
+    return next(createError('会话ID只能包含字母、数字、下划线和连字符', 400, 'INVALID_SESSION_ID'))
+  }
+  next()
+})
+
+/**
+ * GET /api/chat/session/:sessionId?learnerId=
+ * 获取会话历史（分页，第1页为最近的消息，页内按时间正序）
+ */
+router.get('/session/:sessionId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionId } = req.params
+    const page = Math.max(1, parseInt(req.query.page as string) || 1)
+    const pageSize = Math.min(200, Math.max(1, parseInt(req.query.pageSize as string) || 50))
+
+    const session = await chatService.getSession(sessionId, getRequestLearnerId(req))
+
+    if (!session) {
+      throw createError('会话不存在或已过期', 404, 'SESSION_NOT_FOUND')
+    }
+
+    const total = session.messages.length
+    const end = Math.max(0, total - (page - 1) * pageSize)
+    const start = Math.max(0, end - pageSize)
+
+    res.json({
+      success: true,
+      data: {
+        id: session.id,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        dialogue: session.dialogue,
+        messages: session.messages.slice(start, end),
+        pagination: {
+          page,
+          pageSize,
+          total,
+          totalPages: Math.ceil(total / pageSize)
         }
-      })
+      }
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/chat/session/:sessionId/export?format=md|json&learnerId=
+ * 导出会话记录
+ */
+router.get('/session/:sessionId/export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { sessionId } = req.params
+    const format = ((req.query.format as string) || 'md').toLowerCase()
+
+    if (format !== 'md' && format !== 'json') {
+      throw createError('导出格式只支持 md 或 json', 400, 'VALIDATION_ERROR')
+    }
+
+    const session = await chatService.getSession(sessionId, getRequestLearnerId(req))
+
+    if (!session) {
+      throw createError('会话不存在或已过期', 404, 'SESSION_NOT_FOUND')
     }
+
+    const filename = `chat-${encodeURIComponent(sessionId)}.${format}`
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      return res.send(JSON.stringify(session, null, 2))
+    }
+
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8')
+    res.send(chatService.exportSessionMarkdown(session))
+  } catch (error) {
+    next(error)
   }
 })
 
 /**
- * DELETE /api/chat/session/:sessionId
+ * DELETE /api/chat/session/:sessionId?learnerId=
  * 清除会话历史
  */
-router.delete('/session/:sessionId', async (req: Request, res: Response) => {
+router.delete('/session/:sessionId', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { sessionId } = req.params
 
-    chatService.clearSession(sessionId)
+    await chatService.clearSession(sessionId, getRequestLearnerId(req))
 
     res.json({
       success: true,
       message: '会话历史已清除'
     })
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'CLEAR_SESSION_ERROR',
-        message: error.message || '清除会话时发生错误'
-      }
-    })
+  } catch (error) {
+    next(error)
   }
 })
 
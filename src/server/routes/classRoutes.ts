@@ -0,0 +1,42 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import classService from '../services/ClassService.ts'
+import { requireClassAdmin } from '../middleware/classAdmin.ts'
+
+const router = Router()
+
+/**
+ * GET /api/classes/:id
+ * 获取班级设置（学习者客户端据此显示锁定的模式）
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const policy = await classService.getClass(req.params.id)
+
+    res.json({
+      success: true,
+      data: policy
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/classes/:id
+ * 创建或更新班级设置，请求体 { name?, lockedMode?: 模式 | null }
+ * 配置了 CLASS_ADMIN_TOKEN 时需要在 X-Admin-Token 请求头中提供
+ */
+router.put('/:id', requireClassAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const policy = await classService.updateClass(req.params.id, req.body)
+
+    res.json({
+      success: true,
+      data: policy
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -0,0 +1,50 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import exerciseService from '../services/ExerciseService.ts'
+
+const router = Router()
+
+/**
+ * POST /api/exercises/generate
+ * 根据定理生成一道练习题（返回的题目不含答案）
+ */
+router.post('/generate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (typeof req.body?.theoremId !== 'string' || !req.body.theoremId) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'theoremId 不能为空'
+        }
+      })
+    }
+
+    const exercise = await exerciseService.generate(req.body)
+
+    res.json({
+      success: true,
+      data: exercise
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/exercises/:id/submit
+ * 提交答案并批改
+ */
+router.post('/:id/submit', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await exerciseService.submit(req.params.id, req.body || {})
+
+    res.json({
+      success: true,
+      data: result
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -1,10 +1,14 @@
-import { Router, Request, Response } from 'express'
+import { Router, Request, Response, NextFunction } from 'express'
 import multer from 'multer'
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import knowledgeService from '../services/KnowledgeService.ts'
+import knowledgeService, { isSubjectCategory } from '../services/KnowledgeService.ts'
+import knowledgeGraphService from '../services/KnowledgeGraphService.ts'
 import documentService from '../services/DocumentService.ts'
+import ragService from '../services/RAGService.ts'
+import { migrateKnowledgeItems } from '../services/KnowledgeMigrator.ts'
+import { SUBJECT_NAMES } from '../../shared/constants'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -48,15 +52,18 @@ const documentUpload = multer({
       'application/json',
       'application/pdf',
       'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/html',
+      'application/xhtml+xml',
+      'application/epub+zip'
     ]
-    const allowedExts = ['.txt', '.md', '.json', '.pdf', '.doc', '.docx']
+    const allowedExts = ['.txt', '.md', '.json', '.pdf', '.doc', '.docx', '.html', '.htm', '.epub']
     const ext = path.extname(file.originalname).toLowerCase()
 
     if (allowedTypes.includes(file.mimetype) || allowedExts.includes(ext)) {
       cb(null, true)
     } else {
-      cb(new Error('只支持 TXT、MD、JSON、PDF、DOC、DOCX 文件'))
+      cb(new Error('只支持 TXT、MD、JSON、PDF、DOC、DOCX、HTML、EPUB 文件'))
     }
   }
 })
@@ -133,6 +140,30 @@ router.post('/search', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/knowledge/graph
+ * 获取知识地图（条目及前置、相关关系）
+ */
+router.get('/graph', async (_req: Request, res: Response) => {
+  try {
+    const graph = await knowledgeGraphService.getGraph()
+
+    res.json({
+      success: true,
+      data: graph
+    })
+  } catch (error: any) {
+    console.error('[Knowledge Routes] Graph Error:', error)
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'GRAPH_ERROR',
+        message: error.message || '获取知识地图时发生错误'
+      }
+    })
+  }
+})
+
 /**
  * GET /api/knowledge/:id
  * 获取单个定理详情
@@ -169,6 +200,122 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/knowledge/graph/check
+ * 检查前置关系中的循环依赖和失效引用
+ */
+router.get('/graph/check', async (_req: Request, res: Response) => {
+  try {
+    const report = await knowledgeGraphService.checkGraph()
+
+    res.json({
+      success: true,
+      data: report
+    })
+  } catch (error: any) {
+    console.error('[Knowledge Routes] Graph Check Error:', error)
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'GRAPH_CHECK_ERROR',
+        message: error.message || '检查知识图谱时发生错误'
+      }
+    })
+  }
+})
+
+/**
+ * GET /api/knowledge/:id/path
+ * 规划从已掌握知识到目标定理的学习路径
+ *
+ * 查询参数
+ * - mastered: 已掌握的条目ID，逗号分隔
+ */
+router.get('/:id/path', async (req: Request, res: Response) => {
+  try {
+    const mastered = typeof req.query.mastered === 'string'
+      ? req.query.mastered.split(',').map(id => id.trim()).filter(Boolean)
+      : []
+
+    const path = await knowledgeGraphService.planPath(req.params.id, mastered)
+
+    res.json({
+      success: true,
+      data: path
+    })
+  } catch (error: any) {
+    if (error.statusCode === 404) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      })
+    }
+
+    console.error('[Knowledge Routes] Learning Path Error:', error)
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'LEARNING_PATH_ERROR',
+        message: error.message || '规划学习路径时发生错误'
+      }
+    })
+  }
+})
+
+/**
+ * POST /api/knowledge
+ * 新增定理（按 Theorem 类型校验）
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const theorem = await knowledgeService.createTheorem(req.body)
+
+    res.status(201).json({
+      success: true,
+      data: theorem
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/knowledge/:id
+ * 整体更新定理
+ */
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const theorem = await knowledgeService.updateTheorem(req.params.id, req.body)
+
+    res.json({
+      success: true,
+      data: theorem
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * DELETE /api/knowledge/:id
+ * 删除定理
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await knowledgeService.deleteTheorem(req.params.id)
+
+    res.json({
+      success: true,
+      message: '定理已删除'
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 /**
  * GET /api/knowledge/categories/list
  * 获取所有学科分类
@@ -236,6 +383,17 @@ router.post('/upload-document', documentUpload.single('document'), async (req: R
     console.log('[Upload] File received:', req.file.filename, req.file.mimetype)
 
     const { category, topic, difficulty } = req.body
+    // category 会用作知识库文件名，只接受已有的学科
+    if (category && !isSubjectCategory(category)) {
+      fs.rmSync(req.file.path, { force: true })
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `category 必须是 ${Object.keys(SUBJECT_NAMES).join('、')} 之一`
+        }
+      })
+    }
 
     // 解析文档
     const parsedDoc = await documentService.parseDocument(
@@ -252,8 +410,18 @@ router.post('/upload-document', documentUpload.single('document'), async (req: R
       req.file.originalname
     )
 
+    // 切分为检索片段，长文档按片段检索
+    const chunks = documentService.buildChunks(
+      parsedDoc,
+      knowledgeItem.id,
+      category || 'math',
+      req.file.originalname
+    )
+    knowledgeItem.chunkCount = chunks.length
+
     // 保存到知识库
-    const itemId = await documentService.saveToKnowledge(knowledgeItem, category)
+    const itemId = await documentService.saveToKnowledge(knowledgeItem, category || undefined)
+    documentService.saveChunks(itemId, chunks)
 
     // 保存上传元数据
     documentService.saveUploadMetadata({
@@ -263,6 +431,10 @@ router.post('/upload-document', documentUpload.single('document'), async (req: R
       id: itemId
     })
 
+    // 更新检索索引，新文档立即可被检索
+    await ragService.upsertTheorem(knowledgeItem)
+    await ragService.upsertChunks(itemId, chunks)
+
     res.json({
       success: true,
       data: {
@@ -270,9 +442,14 @@ router.post('/upload-document', documentUpload.single('document'), async (req: R
         title: parsedDoc.title,
         category,
         topic,
-        difficulty
+        difficulty,
+        chunkCount: chunks.length,
+        pageCount: parsedDoc.pageCount,
+        emptyPages: parsedDoc.emptyPages
       },
-      message: '文档上传成功并已添加到知识库'
+      message: parsedDoc.emptyPages && parsedDoc.emptyPages.length > 0
+        ? `文档上传成功，第 ${parsedDoc.emptyPages.join('、')} 页未提取到文字（可能是扫描页或空白页）`
+        : '文档上传成功并已添加到知识库'
     })
   } catch (error: any) {
     console.error('[Knowledge Routes] Upload Document Error:', error)
@@ -381,7 +558,7 @@ router.get('/files/:category/content', async (req: Request, res: Response) => {
     const knowledgeDir = path.join(__dirname, '../../../data/knowledge')
     const filePath = path.join(knowledgeDir, `${category}.json`)
 
-    if (!fs.existsSync(filePath)) {
+    if ((!isSubjectCategory(category) && category !== 'uploaded_documents') || !fs.existsSync(filePath)) {
       return res.status(404).json({
         success: false,
         error: {
@@ -398,7 +575,7 @@ router.get('/files/:category/content', async (req: Request, res: Response) => {
       success: true,
       data: {
         category,
-        items: Array.isArray(data) ? data : [data]
+        items: migrateKnowledgeItems(data).items
       }
     })
   } catch (error: any) {
@@ -507,7 +684,7 @@ router.delete('/documents/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params
 
-    const deleted = documentService.deleteDocument(id)
+    const deleted = await documentService.deleteDocument(id)
 
     if (!deleted) {
       return res.status(404).json({
@@ -519,6 +696,12 @@ router.delete('/documents/:id', async (req: Request, res: Response) => {
       })
     }
 
+    // 同步移除检索索引中的条目
+    if (deleted.id) {
+      await ragService.removeTheorem(deleted.id)
+      await ragService.removeDocumentChunks(deleted.id)
+    }
+
     res.json({
       success: true,
       message: '文档已删除'
@@ -568,8 +751,8 @@ router.use((error: any, req: Request, res: Response, next: any) => {
     })
   }
 
-  // 其他错误
-  if (error) {
+  // 上传时的其他错误（如文件类型不支持）
+  if (req.path === '/upload-document') {
     return res.status(400).json({
       success: false,
       error: {
@@ -579,7 +762,8 @@ router.use((error: any, req: Request, res: Response, next: any) => {
     })
   }
 
-  next()
+  // 其余接口的错误交给全局的 errorHandler
+  next(error)
 })
 
 export default router
@@ -0,0 +1,75 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import learnerService from '../services/LearnerService.ts'
+import { hasClassAdminToken } from '../middleware/classAdmin.ts'
+
+const router = Router()
+
+/**
+ * GET /api/learners/:id
+ * 获取学习者档案（含每个定理的学习记录）
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const profile = await learnerService.getProfile(req.params.id)
+
+    res.json({
+      success: true,
+      data: profile
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/learners/:id
+ * 更新学习者档案，只修改请求体中出现的字段
+ */
+router.put('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const profile = await learnerService.updateProfile(req.params.id, req.body, { classAdmin: hasClassAdminToken(req) })
+
+    res.json({
+      success: true,
+      data: profile
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/learners/:id/reviews
+ * 获取今天到期的复习（附带定理内容，用于出题）
+ */
+router.get('/:id/reviews', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const reviews = await learnerService.getDueReviews(req.params.id)
+
+    res.json({
+      success: true,
+      data: reviews
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/learners/:id/reviews/:theoremId
+ * 记录复习的回忆评分，请求体 { grade: 0-5 }
+ */
+router.post('/:id/reviews/:theoremId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const record = await learnerService.recordReview(req.params.id, req.params.theoremId, req.body?.grade)
+
+    res.json({
+      success: true,
+      data: record
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
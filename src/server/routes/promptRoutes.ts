@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import promptService from '../services/PromptService.ts'
+import { requireClassAdmin } from '../middleware/classAdmin.ts'
+
+const router = Router()
+
+/**
+ * GET /api/prompts
+ * 获取提示词模板列表
+ */
+router.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const templates = await promptService.listTemplates()
+
+    res.json({
+      success: true,
+      data: templates
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * GET /api/prompts/:id
+ * 获取模板及全部历史版本
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const template = await promptService.getTemplate(req.params.id)
+
+    res.json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/prompts/:id/versions
+ * 保存新版本，请求体 { content, note?, activate? }
+ * 配置了 CLASS_ADMIN_TOKEN 时需要在 X-Admin-Token 请求头中提供
+ */
+router.post('/:id/versions', requireClassAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const template = await promptService.createVersion(req.params.id, req.body)
+
+    res.status(201).json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * PUT /api/prompts/:id/active
+ * 切换对话使用的版本（发布或回滚），请求体 { version }
+ * 配置了 CLASS_ADMIN_TOKEN 时需要在 X-Admin-Token 请求头中提供
+ */
+router.put('/:id/active', requireClassAdmin, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const template = await promptService.activateVersion(req.params.id, req.body?.version)
+
+    res.json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+/**
+ * POST /api/prompts/:id/preview
+ * 用示例变量预览完整的系统提示词，请求体 { content?, mode?, variables? }
+ */
+router.post('/:id/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const preview = await promptService.preview(req.params.id, req.body)
+
+    res.json({
+      success: true,
+      data: preview
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
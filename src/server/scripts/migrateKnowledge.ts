@@ -0,0 +1,55 @@
+/**
+ * 把 data/knowledge 下的知识库文件升级到当前条目结构并原地改写
+ * 只改动升级时有变化的字段，其余内容保持文件原有的格式
+ *
+ * 用法：npm run migrate:knowledge [-- --dry-run]
+ * --dry-run 只统计需要升级的条目，不写文件
+ */
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { migrateKnowledgeItems, KNOWLEDGE_SCHEMA_VERSION } from '../services/KnowledgeMigrator.ts'
+import { writeFileAtomicSync } from '../utils/fileWrite.ts'
+import { updateJsonArray } from '../utils/jsonFormat.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const knowledgeDir = path.join(__dirname, '../../../data/knowledge')
+const dryRun = process.argv.includes('--dry-run')
+
+// 先读取全部文件，前置知识可能引用其他学科文件中的条目
+const files: Array<{ file: string; filePath: string; text: string; data: unknown }> = []
+for (const file of fs.readdirSync(knowledgeDir).filter(f => f.endsWith('.json')).sort()) {
+  const filePath = path.join(knowledgeDir, file)
+
+  const text = fs.readFileSync(filePath, 'utf-8')
+  try {
+    files.push({ file, filePath, text, data: JSON.parse(text) })
+  } catch (error: any) {
+    console.error(`[Migrate] Skipped ${file}: ${error.message}`)
+    process.exitCode = 1
+  }
+}
+const allRecords = files
+  .flatMap(({ data }) => (Array.isArray(data) ? data : [data]))
+  .filter((record): record is Record<string, any> => typeof record === 'object' && record !== null)
+
+let total = 0
+for (const { file, filePath, text, data } of files) {
+  const { items, migrated } = migrateKnowledgeItems(data, allRecords)
+  total += migrated
+  if (migrated === 0) {
+    console.log(`[Migrate] ${file}: up to date`)
+    continue
+  }
+
+  console.log(`[Migrate] ${file}: ${migrated}/${items.length} items upgraded to schema v${KNOWLEDGE_SCHEMA_VERSION}`)
+  if (dryRun) continue
+
+  writeFileAtomicSync(filePath, updateJsonArray(text, items))
+}
+
+console.log(dryRun
+  ? `[Migrate] Dry run: ${total} items need upgrading`
+  : `[Migrate] Done: ${total} items upgraded`)
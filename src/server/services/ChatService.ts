@@ -1,7 +1,35 @@
-import type { ChatRequest, ChatMessage } from '../../shared/types'
-import modelscopeService from './ModelScopeService.ts'
+import type {
+  ChatRequest,
+  ChatMessage,
+  ChatSession,
+  ChatSessionSummary,
+  ChatStreamEvent,
+  Citation,
+  DialogueState,
+  DifficultyLevel,
+  LearnerProfile,
+  TutoringMode,
+  UnderstandingAssessment,
+  MessageContent,
+  TheoremReference,
+  Widget
+} from '../../shared/types'
+import { getRequestLLMProvider, resolveApiKey, resolveRequestModel } from './llm/index.ts'
+import type { ModelMessage, TokenUsage } from './llm/index.ts'
 import ragService from './RAGService.ts'
+import type { DifficultyPreference, ScoredTheorem } from './RAGService.ts'
 import thinkingService from './ThinkingService.ts'
+import type { ThinkingResult } from './ThinkingService.ts'
+import dialogueService from './DialogueService.ts'
+import understandingClassifier from './UnderstandingClassifier.ts'
+import classService from './ClassService.ts'
+import { getDefaultMode } from './TutoringModes.ts'
+import promptService from './PromptService.ts'
+import { getSessionStore } from './SessionStore.ts'
+import learnerService from './LearnerService.ts'
+import { createError } from '../middleware/errorHandler.ts'
+import { GRADE_ADAPTATION, SESSION_CONFIG, SUBJECT_NAMES } from '../../shared/constants'
+import type { GradeLevel } from '../../shared/constants'
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
@@ -9,104 +37,32 @@ import { fileURLToPath } from 'url'
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
-// 会话存储
-const sessions = new Map<string, ChatMessage[]>()
-
 export interface ProcessChatOptions extends ChatRequest {
   // 可以包含额外选项
 }
 
-export class ChatService {
-  private systemPrompt = `你是一位充满耐心、善于引导的学科辅导老师，名为"学小思"。
-
-## 教学理念
-1. 苏格拉底式教学 - 通过提问引导学生独立思考，而不是直接给出答案
-2. 直观讲解 - 用生动形象的比喻和例子帮助理解抽象概念
-3. 循序渐进 - 根据学生的理解程度调整讲解深度和节奏
-4. 鼓励探索 - 培养学生的好奇心和探索精神
-
-## 回答风格
-- 使用温暖、鼓励的语气
-- 多用提问而非陈述
-- 适时给予肯定和鼓励
-- 用生活化的例子解释抽象概念
-- 当学生困惑时，提供渐进式提示
-
-## 职责
-1. 讲解数学、物理、化学、生物等学科的定理和原理
-2. 通过提问引导学生思考
-3. 识别学生的困惑点并针对性讲解
-4. 提供例题和应用场景帮助学生理解
-5. 培养学生的逻辑思维和问题解决能力
-
-## 题目解析（当用户上传题目图片时）
-1. 仔细观察图片中的题目，识别题型和考查的知识点
-2. 分析解题思路，找出关键步骤
-3. 用清晰的步骤展示解题过程，每一步都要说明理由
-4. 重要公式使用 LaTeX 格式展示（如 $E=mc^2$、$a^2+b^2=c^2$）
-5. 最后给出简洁明确的答案
-6. 如果有多种解法，可以展示不同方法供参考
-
-## 重要原则
-- 一般情况下不要直接给出答案，而是引导学生自己发现
-- **当用户上传题目图片请求解析时，请直接给出详细的解题步骤和答案**
-- 当学生完全无法理解时，可以提供更多提示
-- 讲解定理时，先讲直观理解，再讲严谨证明
-- 多问"为什么"、"如果...会怎样"等问题
-- 鼓励学生用自己的话解释概念
-
-## 回复格式约束（严格遵守）
-
-### 表情符号使用限制
-- **禁止使用任何表情符号/emoji**
-- **禁止使用颜文字如 ^_^、:) 等**
-- 用文字表达情感，而非符号
-
-### 内容结构要求
-讲解定理或概念时，使用以下结构：
-
-【定理名称】
-公式：$公式内容$
-适用条件：列举适用条件
-
-【直观理解】
-用生活化例子说明概念的含义
-
-【详细解释】
-1. 第一点
-2. 第二点
-3. 第三点
-
-【应用场景】
-- 场景一
-- 场景二
-
-### 题目解析格式
-解析题目时，使用以下结构：
-
-【题目分析】
-- 考查知识点：xxx
-- 解题思路：xxx
-
-【解题步骤】
-步骤1：xxx
-理由：xxx
-
-步骤2：xxx
-理由：xxx
-
-【答案】
-xxx
-
-### 格式规范
-- 使用 **加粗** 标记关键词
-- 使用 $LaTeX$ 格式书写数学公式
-- 使用"【】"标记章节标题
-- 使用"步骤1、步骤2"标记解题步骤
-- 使用"1. 2. 3."标记列表项
-
-请用简明易懂的语言回答，避免过多专业术语。如果需要使用术语，请先解释。`
+interface PreparedChat {
+  history: ChatMessage[]
+  messages: ModelMessage[]
+  relatedTheorems: TheoremReference[]
+  citationSources: Citation[]
+  thinkingResult: ThinkingResult
+  dialogue?: DialogueState
+  assessment: UnderstandingAssessment // 本轮用户消息的理解判断
+  mode: TutoringMode
+  modeLocked: boolean
+  learnerId?: string
+}
+
+// 回复中的引用标记，支持 [1]、[1,2]、[1、3] 等写法
+const CITATION_PATTERN = /\[(\d+(?:\s*[,，、]\s*\d+)*)\]/g
 
+// 消息ID加随机后缀，同一毫秒内写入的多条消息（如同一轮的提问和回复、并发请求）也不会重复
+function createMessageId(now: number): string {
+  return `msg_${now}_${Math.random().toString(36).slice(2, 10)}`
+}
+
+export class ChatService {
   /**
    * 将图片路径转换为 base64 格式
    */
@@ -137,34 +93,46 @@ xxx
   }
 
   /**
-   * 处理对话请求
+   * 构建写入会话历史的用户消息（图片使用上传地址）
    */
-  async processChat(request: ChatRequest): Promise<{
-    response: string
-    thinking?: string
-    relatedTheorems?: any[]
-    socraticQuestions?: string[]
-  }> {
-    const { message, images, subject, topic, sessionId, conversationHistory, userProfile, apiKeys } = request
+  private buildStoredContent(message: string, images?: string[]): ChatMessage['content'] {
+    if (!images || images.length === 0) {
+      return message
+    }
+    return [
+      { type: 'text', text: message || '请帮我分析这道题目' },
+      ...images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+    ]
+  }
+
+  /**
+   * 准备对话上下文：会话历史、知识检索、思考引导和发送给模型的消息
+   */
+  private async prepareChat(request: ChatRequest): Promise<PreparedChat> {
+    const { message, images, subject, sessionId, conversationHistory, apiKeys } = request
 
     // 设置API密钥
     if (apiKeys?.modelScopeApiKey) {
       ragService.setApiKey(apiKeys.modelScopeApiKey)
     }
 
-    // 1. 获取或创建会话历史
-    let history = sessions.get(sessionId) || []
-    if (conversationHistory) {
-      history = conversationHistory
-    }
+    // 1. 获取或创建会话历史；已保存的会话以服务端记录为准，客户端历史只用于新会话
+    const session = await getSessionStore().get(sessionId)
+    const history = session ? [...session.messages] : [...(conversationHistory || [])]
+
+    // 会话绑定开始它的学习者，之后的请求不能换成其他学习者或省略学习者
+    const learnerId = session?.learnerId || request.learnerId || request.userProfile?.id
+    const profile = await this.loadProfile(learnerId)
+    const { mode, locked: modeLocked } = this.resolveMode(request, profile)
+    const gradeLevel = profile?.gradeLevel || request.userProfile?.gradeLevel
 
     // 2. 构建用户消息内容（支持多模态）
-    let userContent: any = message
+    let userContent: MessageContent = message
 
     // 如果有图片，构建多模态内容（使用标准 OpenAI 格式）
     if (images && images.length > 0) {
       userContent = [
-        { type: 'text', text: message || '请仔细观察这道题目，给出详细的解题步骤和答案' }
+        { type: 'text', text: message || '请帮我分析这道题目' }
       ]
       // 添加图片（尝试使用 base64 格式）
       for (const imageUrl of images) {
@@ -181,232 +149,493 @@ xxx
 
     // 3. 检索相关知识（可选，失败不影响对话）
     let ragContext = ''
-    let relatedTheorems: any[] = []
+    let relatedTheorems: ScoredTheorem[] = []
+    let citationSources: Citation[] = []
     try {
-      ragContext = await ragService.buildRAGContext(message, subject)
-      // 4. 获取相关定理（用于返回前端）
-      relatedTheorems = await ragService.retrieveDocuments(message, 3, subject)
+      // 定理和上传文档片段一起检索，文档片段只取最相关的几段；定理按年级筛选难度
+      const retrieved = await ragService.retrieveContext(
+        message,
+        subject,
+        this.getDifficultyPreference(gradeLevel, profile?.difficulty || request.userProfile?.difficulty)
+      )
+      relatedTheorems = retrieved.theorems
+      ragContext = ragService.formatRAGContext(retrieved.theorems, retrieved.chunks)
+      citationSources = ragService.buildCitationSources(retrieved.theorems, retrieved.chunks)
     } catch (error) {
       console.warn('[Chat] RAG context retrieval failed, continuing without RAG:', error)
     }
 
-    // 5. 分析思考引导
+    // 4. 分析思考引导
     const currentTheorem = relatedTheorems.length > 0 ? relatedTheorems[0] : undefined
     const thinkingResult = thinkingService.analyzeUserQuestion(message, currentTheorem)
 
-    // 6. 构建消息列表
-    const messages: ChatMessage[] = [
-      { id: 'system', role: 'system', content: this.systemPrompt, timestamp: Date.now() }
-    ]
-
-    // 添加RAG上下文
-    if (ragContext) {
-      messages[0].content += `\n\n${ragContext}`
-    }
+    // 5. 判断学生对上一轮提问的理解情况（对照正在引导的定理的常见误区），只有引导和测验模式中学生在作答
+    const isSocratic = mode === 'socratic'
+    const guidedTheorem = session?.dialogue?.theoremId
+      ? ragService.getTheoremById(session.dialogue.theoremId)
+      : undefined
+    const lastReply = [...history].reverse().find(msg => msg.role === 'assistant')
+    const assessment = !isSocratic && mode !== 'quiz'
+      ? understandingClassifier.classifyByKeywords(message)
+      : await understandingClassifier.classify({
+        answer: message,
+        question: lastReply ? this.getMessageText(lastReply) : undefined,
+        theorem: guidedTheorem || currentTheorem,
+        apiKeys,
+        llm: request.llm
+      })
+
+    // 6. 推进苏格拉底式引导：优先沿用本次检索结果中正在引导的定理；其他模式不推进引导
+    const focusTheorem = relatedTheorems.find(t => t.id === session?.dialogue?.theoremId) || currentTheorem
+    const dialogue = isSocratic
+      ? dialogueService.advance(session?.dialogue, focusTheorem?.id, assessment.score)
+      : session?.dialogue
+
+    // 7. 构建消息列表：系统提示词由可在管理后台编辑的模板生成
+    const systemContent = promptService.buildSystemPrompt(mode, {
+      subject: subject ? SUBJECT_NAMES[subject as keyof typeof SUBJECT_NAMES] || subject : '',
+      gradeLevel: gradeLevel || '',
+      reviewContext: mode === 'review' ? await this.buildReviewContext(profile) : '',
+      ragContext,
+      guidingQuestions: isSocratic
+        ? thinkingResult.questions.map((q, i) => `${i + 1}. ${q}`).join('\n')
+        : '',
+      dialogueProgress: dialogue && isSocratic
+        ? dialogueService.buildPrompt(dialogue, focusTheorem, assessment)
+        : ''
+    })
 
-    // 添加教学指导
-    if (thinkingResult.questions.length > 0) {
-      messages[0].content += `\n\n针对此问题，你可以引导学生思考以下问题：\n${thinkingResult.questions.map((q, i) => `${i + 1}. ${q}`).join('\n')}`
-    }
+    const messages: ModelMessage[] = [
+      { role: 'system', content: systemContent }
+    ]
 
     // 添加历史消息（过滤掉多模态格式，只保留纯文本）
-    for (const msg of history) {
-      // 如果 content 是数组（多模态格式），跳过或转换为纯文本
-      if (Array.isArray(msg.content)) {
-        // 尝试提取文本内容
-        const textContent = msg.content.find((item: any) => item.type === 'text')
-        if (textContent && textContent.text) {
-          messages.push({
-            id: msg.id,
-            role: msg.role,
-            content: textContent.text,
-            timestamp: msg.timestamp
-          })
-        }
-        // 如果没有文本内容，跳过这条消息
-      } else if (typeof msg.content === 'string' && msg.content) {
-        // 纯文本消息，直接添加
-        messages.push(msg)
+    for (const msg of history.slice(-SESSION_CONFIG.CONTEXT_MESSAGES)) {
+      const text = this.getMessageText(msg)
+      if (text) {
+        messages.push({ role: msg.role, content: text })
       }
     }
 
     // 添加当前用户消息（支持多模态）
     messages.push({
-      id: Date.now().toString(),
-      role: 'user',
-      content: userContent,
-      timestamp: Date.now()
-    })
-
-    // 6. 调用AI生成回复（传入API密钥）
-    const response = await modelscopeService.chat({
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
-      temperature: 0.8,
-      maxTokens: 1500,
-      enableThinking: false,
-      apiKey: apiKeys?.modelScopeApiKey
-    })
-
-    // 7. 更新会话历史
-    history.push({
-      id: Date.now().toString(),
       role: 'user',
-      content: userContent,
-      timestamp: Date.now()
-    })
-    history.push({
-      id: (Date.now() + 1).toString(),
-      role: 'assistant',
-      content: response,
-      timestamp: Date.now()
+      content: userContent
     })
-    sessions.set(sessionId, history.slice(-20)) // 只保留最近20条
 
     return {
-      response,
+      history,
+      messages,
       relatedTheorems: relatedTheorems.map(t => ({
         id: t.id,
         theorem: t.theorem,
         description: t.description,
-        relevanceScore: (t as any).relevanceScore || 0
+        relevanceScore: t.relevanceScore
       })),
-      socraticQuestions: thinkingResult.questions
+      citationSources,
+      thinkingResult,
+      dialogue,
+      assessment,
+      mode,
+      modeLocked,
+      learnerId
     }
   }
 
   /**
-   * 流式处理对话请求
+   * 读取学习者档案；没有学习者或读取失败时返回 undefined
    */
-  async *processChatStream(request: ChatRequest): AsyncGenerator<string> {
-    const { message, images, subject, sessionId, conversationHistory, apiKeys } = request
+  private async loadProfile(learnerId?: string): Promise<LearnerProfile | undefined> {
+    if (!learnerId) return undefined
+    try {
+      return await learnerService.getProfile(learnerId)
+    } catch (error) {
+      console.warn('[Chat] Failed to load learner profile:', error)
+      return undefined
+    }
+  }
 
-    // 设置API密钥
-    if (apiKeys?.modelScopeApiKey) {
-      ragService.setApiKey(apiKeys.modelScopeApiKey)
+  /**
+   * 确定本次回复的辅导模式：学习者所在班级锁定的模式优先，其次是请求指定的模式
+   */
+  private resolveMode(request: ChatRequest, profile?: LearnerProfile): { mode: TutoringMode; locked: boolean } {
+    const lockedMode = classService.getLockedMode(profile?.classId)
+    if (lockedMode) {
+      return { mode: lockedMode, locked: true }
     }
 
-    // 1. 获取会话历史
-    let history = sessions.get(sessionId) || []
-    if (conversationHistory) {
-      history = conversationHistory
+    return {
+      mode: request.mode || getDefaultMode(!!request.images && request.images.length > 0),
+      locked: false
     }
+  }
 
-    // 2. 构建用户消息内容（支持多模态）
-    let userContent: any = message
+  /**
+   * 按年级确定检索的定理难度：学习者选择的难度在该年级范围内时优先，否则使用年级默认偏好的难度
+   */
+  private getDifficultyPreference(gradeLevel?: string, difficulty?: DifficultyLevel): DifficultyPreference | undefined {
+    const adaptation = GRADE_ADAPTATION[gradeLevel as GradeLevel]
+    if (!adaptation) return undefined
+    return {
+      difficulties: adaptation.difficulties,
+      preferred: difficulty && adaptation.difficulties.includes(difficulty) ? difficulty : adaptation.preferred
+    }
+  }
 
-    // 如果有图片，构建多模态内容（使用标准 OpenAI 格式）
-    if (images && images.length > 0) {
-      userContent = [
-        { type: 'text', text: message || '请仔细观察这道题目，给出详细的解题步骤和答案' }
-      ]
-      // 添加图片（尝试使用 base64 格式）
-      for (const imageUrl of images) {
-        const base64Image = this.convertImageToBase64(imageUrl)
-        console.log('[Chat] Using base64 image, length:', base64Image.length)
-        userContent.push({
-          type: 'image_url',
-          image_url: {
-            url: base64Image  // 保留完整的 data:image/png;base64, 前缀
-          }
-        })
+  /**
+   * 复习模式的内容：今天到期的复习；没有到期内容时列出最近学过的定理
+   */
+  private async buildReviewContext(profile?: LearnerProfile): Promise<string> {
+    if (!profile) {
+      return '还没有这位学生的学习记录，先问学生想复习哪些内容。'
+    }
+
+    try {
+      const due = await learnerService.getDueReviews(profile.id)
+      if (due.length > 0) {
+        return `今天到期需要复习的内容：${due.map(item => item.theorem.theorem).join('、')}`
       }
+
+      const recent = [...profile.learningHistory]
+        .sort((a, b) => b.studiedAt - a.studiedAt)
+        .map(record => ragService.getTheoremById(record.theoremId)?.theorem)
+        .filter(Boolean)
+        .slice(0, 5)
+      if (recent.length > 0) {
+        return `今天没有到期的复习，最近学过的内容：${recent.join('、')}`
+      }
+    } catch (error) {
+      console.warn('[Chat] Failed to load review context:', error)
     }
+    return '还没有这位学生的学习记录，先问学生想复习哪些内容。'
+  }
 
-    // 3. 检索相关知识（可选，失败不影响对话）
-    let ragContext = ''
+  /**
+   * 解析回复中的 [n] 标记，按首次出现的顺序返回对应的引用来源
+   * 公式中的区间（如 $[0,1]$）不算引用，超出编号范围的标记忽略
+   */
+  private resolveCitations(response: string, sources: Citation[]): Citation[] {
+    if (sources.length === 0) return []
+
+    const text = response.replace(/\$\$[\s\S]*?\$\$|\$[^$\n]*\$/g, '')
+    const byIndex = new Map(sources.map(source => [source.index, source]))
+    const cited = new Map<number, Citation>()
+
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      for (const part of match[1].split(/[,，、]/)) {
+        const source = byIndex.get(parseInt(part, 10))
+        if (source && !cited.has(source.index)) {
+          cited.set(source.index, source)
+        }
+      }
+    }
+
+    return Array.from(cited.values())
+  }
+
+  /**
+   * 对话结束后写入会话历史（图片保存原始地址，不保存 base64）
+   */
+  private async appendTurn(
+    request: ChatRequest,
+    prepared: PreparedChat,
+    response: string,
+    citations: Citation[]
+  ): Promise<void> {
+    const { history, relatedTheorems, thinkingResult } = prepared
+    const now = Date.now()
+
+    history.push({
+      id: createMessageId(now),
+      role: 'user',
+      content: this.buildStoredContent(request.message, request.images),
+      timestamp: now,
+      assessment: prepared.assessment
+    })
+    history.push({
+      id: createMessageId(now),
+      role: 'assistant',
+      content: response,
+      timestamp: now,
+      relatedTheorems: relatedTheorems.map(t => t.theorem),
+      socraticQuestions: thinkingResult.questions,
+      citations: citations.length > 0 ? citations : undefined
+    })
+    await this.saveHistory(request.sessionId, history, prepared.dialogue, prepared.learnerId)
+    await this.recordLearning(prepared)
+  }
+
+  /**
+   * 把本轮对话计入学习者对最相关定理的学习记录，失败不影响对话
+   */
+  private async recordLearning(prepared: PreparedChat): Promise<void> {
+    const { learnerId } = prepared
+    const theorem = prepared.relatedTheorems[0]
+    if (!learnerId || !theorem) return
+
+    // 3 分表示回复中没有表达理解或困惑，不调整理解程度
+    const score = prepared.assessment.score
     try {
-      ragContext = await ragService.buildRAGContext(message, subject)
+      await learnerService.recordChatTurn(learnerId, theorem.id, score === 3 ? undefined : score)
     } catch (error) {
-      console.warn('[Chat] RAG context retrieval failed, continuing without RAG:', error)
+      console.warn('[Chat] Failed to record learning progress:', error)
     }
+  }
 
-    // 4. 构建消息列表
-    const messages: any[] = [
-      { role: 'system', content: this.systemPrompt }
-    ]
+  /**
+   * 处理对话请求
+   */
+  async processChat(request: ChatRequest): Promise<{
+    response: string
+    mode: TutoringMode
+    modeLocked: boolean
+    thinking?: string
+    relatedTheorems?: TheoremReference[]
+    citations?: Citation[]
+    visualAids?: Widget[]
+    socraticQuestions?: string[]
+  }> {
+    const prepared = await this.prepareChat(request)
+
+    // 调用AI生成回复（按请求选择模型提供方）
+    const provider = getRequestLLMProvider(request.llm?.provider)
+    const response = await provider.chat({
+      messages: prepared.messages,
+      temperature: 0.8,
+      maxTokens: 1500,
+      enableThinking: false,
+      model: resolveRequestModel(provider, request.llm?.model),
+      apiKey: resolveApiKey(provider, request.apiKeys)
+    })
 
-    if (ragContext) {
-      messages[0].content += `\n\n${ragContext}`
+    const citations = this.resolveCitations(response, prepared.citationSources)
+
+    // 更新会话历史
+    await this.appendTurn(request, prepared, response, citations)
+
+    return {
+      response,
+      mode: prepared.mode,
+      modeLocked: prepared.modeLocked,
+      relatedTheorems: prepared.relatedTheorems,
+      citations,
+      visualAids: prepared.thinkingResult.visualAids,
+      socraticQuestions: prepared.thinkingResult.questions
     }
+  }
 
-    // 添加历史消息（过滤掉多模态格式，只保留纯文本）
-    for (const msg of history) {
-      // 如果 content 是数组（多模态格式），跳过或转换为纯文本
-      if (Array.isArray(msg.content)) {
-        // 尝试提取文本内容
-        const textContent = msg.content.find((item: any) => item.type === 'text')
-        if (textContent && textContent.text) {
-          messages.push({
-            role: msg.role,
-            content: textContent.text
-          })
-        }
-        // 如果没有文本内容，跳过这条消息
-      } else if (typeof msg.content === 'string' && msg.content) {
-        // 纯文本消息，直接添加
-        messages.push({
-          role: msg.role,
-          content: msg.content
-        })
+  /**
+   * 流式处理对话请求
+   * 依次产生 meta → theorems → questions → widget → content... → citations → usage → done 事件
+   */
+  async *processChatStream(request: ChatRequest): AsyncGenerator<ChatStreamEvent> {
+    const startTime = Date.now()
+    const prepared = await this.prepareChat(request)
+    const { relatedTheorems, thinkingResult } = prepared
+
+    yield {
+      type: 'meta',
+      data: {
+        sessionId: request.sessionId,
+        messageId: `msg_${startTime}`,
+        subject: request.subject,
+        mode: prepared.mode,
+        modeLocked: prepared.modeLocked
       }
     }
 
-    // 添加当前用户消息
-    messages.push({
-      role: 'user',
-      content: userContent
-    })
+    if (relatedTheorems.length > 0) {
+      yield { type: 'theorems', data: relatedTheorems }
+    }
+
+    if (thinkingResult.questions.length > 0) {
+      yield { type: 'questions', data: thinkingResult.questions }
+    }
+
+    for (const widget of thinkingResult.visualAids) {
+      yield { type: 'widget', data: widget }
+    }
 
-    // 4. 流式生成回复（传入API密钥）
-    const stream = modelscopeService.chatStream({
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+    // 流式生成回复（按请求选择模型提供方）
+    let tokenUsage: TokenUsage = {}
+    const provider = getRequestLLMProvider(request.llm?.provider)
+    const stream = provider.chatStream({
+      messages: prepared.messages,
       temperature: 0.8,
       maxTokens: 1500,
       enableThinking: false,
-      apiKey: apiKeys?.modelScopeApiKey
+      model: resolveRequestModel(provider, request.llm?.model),
+      apiKey: resolveApiKey(provider, request.apiKeys),
+      onUsage: (usage) => {
+        tokenUsage = usage
+      }
     })
 
     let fullResponse = ''
     for await (const chunk of stream) {
       fullResponse += chunk
-      yield chunk
+      yield { type: 'content', data: chunk }
     }
 
-    // 5. 更新会话历史（保存多模态内容）
-    history.push({
-      id: Date.now().toString(),
-      role: 'user',
-      content: userContent,
-      timestamp: Date.now()
-    })
-    history.push({
-      id: (Date.now() + 1).toString(),
-      role: 'assistant',
-      content: fullResponse,
-      timestamp: Date.now()
+    const citations = this.resolveCitations(fullResponse, prepared.citationSources)
+    if (citations.length > 0) {
+      yield { type: 'citations', data: citations }
+    }
+
+    // 更新会话历史
+    await this.appendTurn(request, prepared, fullResponse, citations)
+
+    yield {
+      type: 'usage',
+      data: {
+        ...tokenUsage,
+        elapsedMs: Date.now() - startTime
+      }
+    }
+
+    yield { type: 'done', data: { response: fullResponse } }
+  }
+
+  /**
+   * 读取会话历史
+   */
+  private async loadHistory(sessionId: string): Promise<ChatMessage[]> {
+    const session = await getSessionStore().get(sessionId)
+    return session ? [...session.messages] : []
+  }
+
+  /**
+   * 保存会话历史、引导状态和所属学习者（保留创建时间，刷新活跃时间）
+   */
+  private async saveHistory(
+    sessionId: string,
+    history: ChatMessage[],
+    dialogue?: DialogueState,
+    learnerId?: string
+  ): Promise<void> {
+    const store = getSessionStore()
+    const existing = await store.get(sessionId)
+    const now = Date.now()
+    await store.save({
+      id: sessionId,
+      messages: history.slice(-SESSION_CONFIG.MAX_STORED_MESSAGES),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      dialogue,
+      learnerId
     })
-    sessions.set(sessionId, history.slice(-20))
   }
 
   /**
-   * 清除会话历史
+   * 清除会话历史；属于其他学习者的会话视为不存在
    */
-  clearSession(sessionId: string): void {
-    sessions.delete(sessionId)
+  async clearSession(sessionId: string, learnerId?: string): Promise<void> {
+    const store = getSessionStore()
+    const session = await store.get(sessionId)
+    if (session && !this.isVisibleTo(session, learnerId)) {
+      throw createError('会话不存在或已过期', 404, 'SESSION_NOT_FOUND')
+    }
+    await store.delete(sessionId)
   }
 
   /**
    * 获取会话历史
    */
-  getSessionHistory(sessionId: string): ChatMessage[] {
-    return sessions.get(sessionId) || []
+  async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    return this.loadHistory(sessionId)
   }
 
   /**
    * 获取所有会话ID
    */
-  getAllSessionIds(): string[] {
-    return Array.from(sessions.keys())
+  async getAllSessionIds(): Promise<string[]> {
+    return getSessionStore().listIds()
+  }
+
+  /**
+   * 会话绑定了学习者时只有该学习者可以查看、导出和清除；未绑定的会话只能凭会话ID访问
+   */
+  private isVisibleTo(session: ChatSession, learnerId?: string): boolean {
+    return !session.learnerId || session.learnerId === learnerId
+  }
+
+  /**
+   * 获取会话详情；属于其他学习者的会话视为不存在
+   */
+  async getSession(sessionId: string, learnerId?: string): Promise<ChatSession | undefined> {
+    const session = await getSessionStore().get(sessionId)
+    return session && this.isVisibleTo(session, learnerId) ? session : undefined
+  }
+
+  /**
+   * 获取学习者的会话列表（按最近活跃时间倒序）
+   */
+  async listSessions(learnerId: string): Promise<ChatSessionSummary[]> {
+    const store = getSessionStore()
+    const ids = await store.listIds()
+    const summaries: ChatSessionSummary[] = []
+
+    for (const id of ids) {
+      const session = await store.get(id)
+      if (!session || session.learnerId !== learnerId) continue
+
+      const firstUserMessage = session.messages.find(m => m.role === 'user')
+      const title = firstUserMessage ? this.getMessageText(firstUserMessage).trim() : ''
+      summaries.push({
+        id: session.id,
+        title: title ? title.substring(0, 30) : '新对话',
+        messageCount: session.messages.length,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt
+      })
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  /**
+   * 导出会话为 Markdown
+   */
+  exportSessionMarkdown(session: ChatSession): string {
+    const roleNames: Record<ChatMessage['role'], string> = {
+      user: '学生',
+      assistant: '学小思',
+      system: '系统'
+    }
+
+    let markdown = `# 学习对话记录\n\n`
+    markdown += `- 会话ID：${session.id}\n`
+    markdown += `- 开始时间：${new Date(session.createdAt).toLocaleString('zh-CN')}\n`
+    markdown += `- 最近活跃：${new Date(session.updatedAt).toLocaleString('zh-CN')}\n`
+    markdown += `- 消息数量：${session.messages.length}\n\n`
+
+    for (const msg of session.messages) {
+      markdown += `## ${roleNames[msg.role]}（${new Date(msg.timestamp).toLocaleString('zh-CN')}）\n\n`
+      markdown += `${this.getMessageText(msg)}\n\n`
+
+      if (Array.isArray(msg.content)) {
+        for (const item of msg.content) {
+          if (item.type === 'image_url') {
+            markdown += `![图片](${item.image_url.url})\n\n`
+          }
+        }
+      }
+    }
+
+    return markdown.trim() + '\n'
+  }
+
+  /**
+   * 提取消息中的文本内容
+   */
+  private getMessageText(msg: ChatMessage): string {
+    if (typeof msg.content === 'string') {
+      return msg.content
+    }
+    return msg.content
+      .map(item => (item.type === 'text' ? item.text : ''))
+      .filter(Boolean)
+      .join('\n')
   }
 }
 
@@ -0,0 +1,111 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { ClassPolicy, TutoringMode } from '../../shared/types'
+import { isTutoringMode, TUTORING_MODE_IDS } from './TutoringModes.ts'
+import { createError } from '../middleware/errorHandler.ts'
+import { writeFileAtomic, createWriteQueue } from '../utils/fileWrite.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const CLASS_ID_PATTERN = /^[\w-]{1,64}$/
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 班级服务 - 老师为班级锁定辅导模式
+ * 班级数量少，全部保存在一个 JSON 文件中（CLASSES_FILE，默认 data/classes.json）
+ */
+export class ClassService {
+  private classes: Map<string, ClassPolicy> | null = null
+  private serialize = createWriteQueue()
+
+  private get filePath(): string {
+    return process.env.CLASSES_FILE || path.join(__dirname, '../../../data/classes.json')
+  }
+
+  private load(): Map<string, ClassPolicy> {
+    if (!this.classes) {
+      this.classes = new Map()
+      if (fs.existsSync(this.filePath)) {
+        const items: ClassPolicy[] = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+        for (const item of items) this.classes.set(item.id, item)
+      }
+    }
+    return this.classes
+  }
+
+  private async persist(): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(Array.from(this.load().values()), null, 2) + '\n')
+  }
+
+  private assertValidId(classId: string): void {
+    if (!CLASS_ID_PATTERN.test(classId)) {
+      throw createError('班级ID只能包含字母、数字、下划线和连字符', 400, 'INVALID_CLASS_ID')
+    }
+  }
+
+  /**
+   * 获取班级设置
+   */
+  async getClass(classId: string): Promise<ClassPolicy> {
+    this.assertValidId(classId)
+    const policy = this.load().get(classId)
+    if (!policy) {
+      throw createError('班级不存在', 404, 'CLASS_NOT_FOUND')
+    }
+    return policy
+  }
+
+  /**
+   * 创建或更新班级设置；lockedMode 为 null 时解除锁定
+   */
+  async updateClass(classId: string, input: unknown): Promise<ClassPolicy> {
+    this.assertValidId(classId)
+
+    const errors: string[] = []
+    if (!isObject(input)) {
+      errors.push('请求体必须是班级设置对象')
+    } else {
+      if (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 50)) {
+        errors.push('name 必须是 1-50 个字符的字符串')
+      }
+      if (input.lockedMode !== undefined && input.lockedMode !== null && !isTutoringMode(input.lockedMode)) {
+        errors.push(`lockedMode 必须是 ${TUTORING_MODE_IDS.join('、')} 之一，或 null 表示不锁定`)
+      }
+    }
+    if (errors.length > 0 || !isObject(input)) {
+      throw createError('班级设置校验失败', 400, 'VALIDATION_ERROR', errors)
+    }
+
+    return this.serialize(async () => {
+      const classes = this.load()
+      const now = Date.now()
+      const existing = classes.get(classId)
+      const policy: ClassPolicy = {
+        id: classId,
+        name: input.name?.trim() || existing?.name || classId,
+        lockedMode: input.lockedMode === undefined ? existing?.lockedMode : input.lockedMode || undefined,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now
+      }
+      classes.set(classId, policy)
+      await this.persist()
+      console.log(`[Class] ${classId} updated, locked mode: ${policy.lockedMode || 'none'}`)
+      return policy
+    })
+  }
+
+  /**
+   * 班级锁定的辅导模式；没有班级、班级不存在或未锁定时返回 undefined
+   */
+  getLockedMode(classId?: string): TutoringMode | undefined {
+    if (!classId) return undefined
+    return this.load().get(classId)?.lockedMode
+  }
+}
+
+export default new ClassService()
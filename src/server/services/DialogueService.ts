@@ -0,0 +1,150 @@
+import type { DialogueStage, DialogueState, Theorem, UnderstandingAssessment, UnderstandingLabel } from '../../shared/types'
+import { DIALOGUE_CONFIG } from '../../shared/constants'
+import thinkingService from './ThinkingService.ts'
+import ragService from './RAGService.ts'
+
+const STAGE_NAMES: Record<DialogueStage, string> = {
+  probe: '摸底提问',
+  hint: '逐级提示',
+  worked_step: '演示关键步骤',
+  check: '检验理解',
+  consolidate: '巩固总结'
+}
+
+const LABEL_NAMES: Record<UnderstandingLabel, string> = {
+  correct: '回答正确',
+  partial: '部分正确',
+  misconception: '存在误解',
+  off_topic: '偏离话题'
+}
+
+/**
+ * 苏格拉底式多轮引导 - 按会话记录引导阶段，决定每轮注入系统提示词的教学要求
+ */
+export class DialogueService {
+  /**
+   * 开始新一轮引导，从摸底提问开始
+   */
+  start(theoremId?: string): DialogueState {
+    return {
+      stage: 'probe',
+      theoremId,
+      hintLevel: 0,
+      attempts: 0,
+      understandingScores: [],
+      updatedAt: Date.now()
+    }
+  }
+
+  /**
+   * 根据学生本轮回答的理解评分（0-5）推进引导阶段
+   * 第一轮对话或换到其他定理时重新开始；theoremId 为空（没有检索到定理）时沿用原来的引导
+   */
+  advance(previous: DialogueState | undefined, theoremId: string | undefined, score: number): DialogueState {
+    if (!previous || (theoremId && theoremId !== previous.theoremId)) {
+      return this.start(theoremId)
+    }
+
+    const state: DialogueState = {
+      ...previous,
+      attempts: previous.attempts + 1,
+      understandingScores: [...previous.understandingScores, score].slice(-DIALOGUE_CONFIG.MAX_SCORE_HISTORY),
+      updatedAt: Date.now()
+    }
+    const understood = score >= DIALOGUE_CONFIG.UNDERSTOOD_SCORE
+
+    switch (previous.stage) {
+      case 'probe':
+        return understood ? { ...state, stage: 'check' } : { ...state, stage: 'hint', hintLevel: 1 }
+
+      case 'hint':
+        if (understood) {
+          return { ...state, stage: 'check' }
+        }
+        // 仍然困惑且提示没用完时给下一级提示；做出了尝试就检验理解；提示用完仍困惑则演示关键步骤
+        if (thinkingService.shouldContinueGuiding(score, state.hintLevel) && state.hintLevel < DIALOGUE_CONFIG.MAX_HINT_LEVEL) {
+          return { ...state, hintLevel: state.hintLevel + 1 }
+        }
+        return { ...state, stage: score >= 3 ? 'check' : 'worked_step' }
+
+      case 'worked_step':
+        return { ...state, stage: 'check' }
+
+      case 'check':
+        return { ...state, stage: score < 3 ? 'worked_step' : 'consolidate' }
+
+      case 'consolidate': {
+        // 巩固之后继续提问，开始新一轮引导；对总结仍有困惑时直接从第一级提示开始
+        const next = this.start(state.theoremId)
+        return score < 3
+          ? { ...next, stage: 'hint', hintLevel: 1, attempts: 1, understandingScores: [score] }
+          : next
+      }
+    }
+  }
+
+  /**
+   * 生成本轮注入系统提示词的引导要求；assessment 为模型给出的理解判断时一并说明
+   */
+  buildPrompt(state: DialogueState, theorem?: Theorem, assessment?: UnderstandingAssessment): string {
+    const lines = ['## 引导进度']
+    const stageName = state.stage === 'hint'
+      ? `${STAGE_NAMES.hint}（第 ${state.hintLevel} 级）`
+      : STAGE_NAMES[state.stage]
+    lines.push(`当前阶段：${stageName}`)
+
+    const lastScore = state.understandingScores[state.understandingScores.length - 1]
+    if (lastScore !== undefined) {
+      lines.push(`学生本轮已回答 ${state.attempts} 次，最近一次理解评分 ${lastScore}/5`)
+      lines.push(`回应学生时的语气参考："${thinkingService.generateEncouragement(lastScore)}"`)
+    }
+
+    // 关键词估计只能看出有没有表达困惑，不写入提示词，避免误导模型
+    if (assessment?.classifiedBy === 'llm' && state.attempts > 0) {
+      lines.push(`学生上一条回答：${LABEL_NAMES[assessment.label]}${assessment.reason ? `（${assessment.reason}）` : ''}`)
+      if (assessment.matchedMistake) {
+        lines.push(`学生可能陷入常见误区："${assessment.matchedMistake.mistake}"。不要直接纠正，先用一个问题或反例让学生自己发现问题，正确理解是：${assessment.matchedMistake.correction}`)
+      }
+    }
+
+    lines.push(`本轮要求：${this.describeStage(state, theorem)}`)
+    return lines.join('\n')
+  }
+
+  private describeStage(state: DialogueState, theorem?: Theorem): string {
+    switch (state.stage) {
+      case 'probe':
+        return '先了解学生已有的认识。提出一个开放性问题，请学生说说自己的想法，暂时不要完整讲解。'
+
+      case 'hint': {
+        const hint = thinkingService.generateProgressiveHints(state.hintLevel, theorem)[0]
+        return `学生还没有想通。只给出下面这一级提示，请学生再试一次，不要直接给出答案。\n${hint}`
+      }
+
+      case 'worked_step': {
+        const example = theorem?.examples[0]
+        const reference = example
+          ? `\n可以参考例题：${example.problem}`
+          : theorem?.proofSteps[0]
+            ? `\n可以参考证明步骤：${theorem.proofSteps[0].title}`
+            : ''
+        return `学生经过多次提示仍有困难。完整演示一个关键步骤，说明每一步的理由，然后请学生独立完成剩下的部分。${reference}`
+      }
+
+      case 'check':
+        return '请学生用自己的话复述关键思路，或完成一个小变式，据此判断是否真正理解；不要替学生回答。'
+
+      case 'consolidate': {
+        // 相关定理按ID引用，只介绍知识库中存在的条目
+        const related = (theorem?.relatedTheorems || [])
+          .map(id => ragService.getTheoremById(id)?.theorem)
+          .filter((name): name is string => !!name)
+          .slice(0, 3)
+        const next = related.length > 0 ? `，或介绍相关定理（${related.join('、')}）` : ''
+        return `学生已经理解。先肯定学生，再用两三句话总结要点，最后给出一道巩固练习${next}。`
+      }
+    }
+  }
+}
+
+export default new DialogueService()
@@ -0,0 +1,130 @@
+import { CHUNK_CONFIG } from '../../shared/constants'
+
+export interface TextChunk {
+  heading?: string // 所在章节标题
+  content: string
+}
+
+export interface ChunkOptions {
+  size?: number // 每个片段的目标字符数
+  overlap?: number // 相邻片段重叠的字符数
+}
+
+interface Section {
+  heading?: string
+  paragraphs: string[]
+}
+
+// Markdown 标题、"第一章/第二节"、"一、" 形式的章节标题
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+(.+)$/,
+  /^(第[一二三四五六七八九十百零\d]+[章节部分讲课].{0,30})$/,
+  /^([一二三四五六七八九十]+、.{1,30})$/
+]
+
+function matchHeading(line: string): string | undefined {
+  for (const pattern of HEADING_PATTERNS) {
+    const match = line.match(pattern)
+    if (match) {
+      return match[1].replace(/[#*]+/g, '').trim()
+    }
+  }
+  return undefined
+}
+
+/**
+ * 按章节标题和空行切分为段落
+ */
+function splitSections(content: string): Section[] {
+  const sections: Section[] = []
+  let current: Section = { paragraphs: [] }
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    const text = paragraph.join('\n').trim()
+    if (text) current.paragraphs.push(text)
+    paragraph = []
+  }
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    const heading = line ? matchHeading(line) : undefined
+
+    if (heading) {
+      flushParagraph()
+      if (current.paragraphs.length > 0 || current.heading) {
+        sections.push(current)
+      }
+      current = { heading, paragraphs: [] }
+    } else if (!line) {
+      flushParagraph()
+    } else {
+      paragraph.push(line)
+    }
+  }
+
+  flushParagraph()
+  if (current.paragraphs.length > 0) {
+    sections.push(current)
+  }
+
+  return sections
+}
+
+/**
+ * 超长段落先按句子切分，单句仍然超长时按长度硬切
+ */
+function splitLongText(text: string, size: number): string[] {
+  if (text.length <= size) return [text]
+
+  const pieces: string[] = []
+  for (const sentence of text.split(/(?<=[。！？!?；;\n])/)) {
+    if (sentence.length <= size) {
+      pieces.push(sentence)
+    } else {
+      for (let i = 0; i < sentence.length; i += size) {
+        pieces.push(sentence.slice(i, i + size))
+      }
+    }
+  }
+  return pieces
+}
+
+/**
+ * 将长文档切分为带重叠的片段
+ * 片段不跨越章节，重叠部分只在同一章节内延续
+ */
+export function splitIntoChunks(content: string, options: ChunkOptions = {}): TextChunk[] {
+  const size = options.size || CHUNK_CONFIG.SIZE
+  const overlap = Math.min(options.overlap ?? CHUNK_CONFIG.OVERLAP, Math.floor(size / 2))
+  const chunks: TextChunk[] = []
+
+  for (const section of splitSections(content)) {
+    let current = ''
+    // current 中属于上一片段的重叠部分长度，只有重叠内容时不单独成片
+    let carried = 0
+
+    const emit = () => {
+      if (current.trim() && current.length > carried) {
+        chunks.push({ heading: section.heading, content: current.trim() })
+      }
+    }
+
+    for (const paragraph of section.paragraphs) {
+      for (const piece of splitLongText(paragraph, size)) {
+        if (current && current.length + piece.length + 1 > size) {
+          emit()
+          const tail = overlap > 0 ? current.slice(-overlap) : ''
+          current = tail ? `${tail}\n${piece}` : piece
+          carried = tail.length
+        } else {
+          current = current ? `${current}\n${piece}` : piece
+        }
+      }
+    }
+
+    emit()
+  }
+
+  return chunks
+}
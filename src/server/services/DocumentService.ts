@@ -1,10 +1,37 @@
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
+import type { DocumentChunk, DifficultyLevel, SubjectCategory, Theorem } from '../../shared/types'
+import { DIFFICULTY_LEVELS } from '../../shared/constants'
+import { splitIntoChunks } from './DocumentChunker.ts'
+import { KNOWLEDGE_SCHEMA_VERSION } from './KnowledgeMigrator.ts'
+import knowledgeService, { isSubjectCategory } from './KnowledgeService.ts'
+import { parseDocx } from './parsers/docx.ts'
+import { parseEpub } from './parsers/epub.ts'
+import { htmlToText } from './parsers/html.ts'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+// PDF 单页
+export interface ParsedPage {
+  pageNumber: number // 从 1 开始
+  text: string
+}
+
+// 文档解析结果
+export interface ParsedDocument {
+  title: string
+  content: string
+  type: string
+  pages?: ParsedPage[] // PDF 按页保存文字，切分片段时保留页码
+  pageCount?: number
+  emptyPages?: number[] // 没有提取到文字的页码（扫描页、空白页）
+}
+
+// 少于该字数的页视为没有文字
+const MIN_PAGE_TEXT_LENGTH = 10
+
 /**
  * 文档解析服务
  * 支持解析 PDF、TXT、MD、JSON 等文档格式
@@ -12,10 +39,12 @@ const __dirname = path.dirname(__filename)
 export class DocumentService {
   private uploadDir: string
   private knowledgeDir: string
+  private chunksDir: string
 
   constructor() {
     this.uploadDir = path.join(__dirname, '../../../public/uploads/documents')
     this.knowledgeDir = path.join(__dirname, '../../../data/knowledge')
+    this.chunksDir = path.join(this.knowledgeDir, 'chunks')
     this.ensureDirectories()
   }
 
@@ -31,11 +60,7 @@ export class DocumentService {
   /**
    * 解析文档内容
    */
-  async parseDocument(filePath: string, mimeType: string): Promise<{
-    title: string
-    content: string
-    type: string
-  }> {
+  async parseDocument(filePath: string, mimeType: string): Promise<ParsedDocument> {
     const ext = path.extname(filePath).toLowerCase()
 
     try {
@@ -47,6 +72,13 @@ export class DocumentService {
           return await this.parseJsonFile(filePath)
         case '.pdf':
           return await this.parsePdfFile(filePath)
+        case '.docx':
+          return this.parseStructuredFile(filePath, 'docx', buffer => parseDocx(buffer))
+        case '.html':
+        case '.htm':
+          return this.parseStructuredFile(filePath, 'html', buffer => htmlToText(new TextDecoder().decode(buffer)))
+        case '.epub':
+          return this.parseStructuredFile(filePath, 'epub', buffer => parseEpub(buffer))
         default:
           throw new Error(`不支持的文件格式: ${ext}`)
       }
@@ -58,7 +90,7 @@ export class DocumentService {
   /**
    * 解析纯文本文件
    */
-  private parseTextFile(filePath: string): { title: string; content: string; type: string } {
+  private parseTextFile(filePath: string): ParsedDocument {
     const content = fs.readFileSync(filePath, 'utf-8')
     const filename = path.basename(filePath)
 
@@ -80,7 +112,7 @@ export class DocumentService {
    * 2. 问答格式 (question, answer / tips, example_answer)
    * 3. 通用对象格式 (title, description)
    */
-  private async parseJsonFile(filePath: string): Promise<{ title: string; content: string; type: string }> {
+  private async parseJsonFile(filePath: string): Promise<ParsedDocument> {
     const content = fs.readFileSync(filePath, 'utf-8')
     const filename = path.basename(filePath, '.json')
 
@@ -219,71 +251,193 @@ export class DocumentService {
   }
 
   /**
-   * 解析PDF文件
-   * 注意：这是一个简化版本，实际应用中可能需要使用 pdf-parse 或 pdfjs-dist
+   * 解析 Word、网页、电子书
+   * 转换结果保留标题（Markdown #）、列表、表格和公式（LaTeX），便于提取"证明""例题"等章节
+   */
+  private parseStructuredFile(
+    filePath: string,
+    type: string,
+    convert: (buffer: Uint8Array) => { title: string; content: string }
+  ): ParsedDocument {
+    const filename = path.basename(filePath, path.extname(filePath))
+    const { title, content } = convert(new Uint8Array(fs.readFileSync(filePath)))
+
+    if (!content.trim()) {
+      throw new Error('文档中没有可提取的文字')
+    }
+
+    return {
+      title: title || filename,
+      content,
+      type
+    }
+  }
+
+  /**
+   * 解析 PDF 文件
+   * 逐页提取文字并记录页码，扫描页、空白页没有文字时单独报告
    */
-  private async parsePdfFile(filePath: string): Promise<{ title: string; content: string; type: string }> {
+  private async parsePdfFile(filePath: string): Promise<ParsedDocument> {
     const filename = path.basename(filePath)
+    const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
 
-    // 简化版：提示需要安装PDF解析库
-    // 实际应用中可以使用 pdf-parse: npm install pdf-parse
-    throw new Error('PDF解析功能需要安装 pdf-parse 库。请使用 pdf-parse 或将PDF转换为文本格式后上传。')
+    const data = new Uint8Array(fs.readFileSync(filePath))
+    const pdf = await getDocument({
+      data,
+      useSystemFonts: true,
+      disableFontFace: true,
+      verbosity: 0
+    }).promise
 
-    /* 完整实现示例（需要安装 pdf-parse）:
-    import pdf from 'pdf-parse'
+    const pages: ParsedPage[] = []
+    const emptyPages: number[] = []
 
-    const dataBuffer = fs.readFileSync(filePath)
-    const data = await pdf(dataBuffer)
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        const textContent = await page.getTextContent()
+
+        let text = ''
+        for (const item of textContent.items) {
+          if (!('str' in item)) continue
+          text += item.str
+          if (item.hasEOL) text += '\n'
+        }
+        text = text.replace(/[ \t]+\n/g, '\n').trim()
+        page.cleanup()
 
-    const lines = data.text.split('\n').filter(line => line.trim())
-    const title = lines[0] || filename
+        if (text.replace(/\s/g, '').length < MIN_PAGE_TEXT_LENGTH) {
+          emptyPages.push(pageNumber)
+        } else {
+          pages.push({ pageNumber, text })
+        }
+      }
+    } finally {
+      await pdf.destroy()
+    }
+
+    if (pages.length === 0) {
+      throw new Error('PDF 中没有可提取的文字，可能是扫描件，请先进行文字识别（OCR）后再上传')
+    }
+
+    if (emptyPages.length > 0) {
+      console.warn(`[Document] ${filename}: ${emptyPages.length} pages produced no text:`, emptyPages.join(','))
+    }
+
+    const firstLine = pages[0].text.split('\n').find(line => line.trim())
+    const title = firstLine && firstLine.trim().length <= 50
+      ? firstLine.trim()
+      : path.basename(filename, path.extname(filename))
 
     return {
-      title: title.trim(),
-      content: data.text.trim(),
-      type: 'pdf'
+      title,
+      content: pages.map(p => p.text).join('\n\n'),
+      type: 'pdf',
+      pages,
+      pageCount: pages.length + emptyPages.length,
+      emptyPages
     }
-    */
   }
 
   /**
    * 将文档内容转换为知识库条目
    */
   convertToKnowledgeItem(
-    parsedDoc: { title: string; content: string; type: string },
+    parsedDoc: ParsedDocument,
     category: string,
     topic: string,
     difficulty: string,
     originalFilename: string
-  ): any {
+  ): Theorem {
     // 分析内容，提取关键信息
     const content = parsedDoc.content
     const keywords = this.extractKeywords(content)
 
     return {
       id: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      category,
+      category: category as SubjectCategory,
       subject: this.getSubjectName(category),
       topic: topic || '通用',
       theorem: parsedDoc.title,
-      difficulty: difficulty || '初级',
+      difficulty: (DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel) ? difficulty : '初级') as DifficultyLevel,
 
       description: this.extractDescription(content),
       formula: this.extractFormula(content),
-      formula_latex: this.extractLatexFormula(content),
+      formulaLatex: this.extractLatexFormula(content),
+      visualization: { type: '', description: '', widgets: [] },
 
-      proof_steps: this.extractSections(content, ['证明', '证明过程', '推导']),
+      proofSteps: this.extractSections(content, ['证明', '证明过程', '推导']),
       examples: this.extractExamples(content),
-      common_mistakes: this.extractMistakes(content),
+      commonMistakes: this.extractMistakes(content),
 
-      socratic_questions: this.extractQuestions(content),
+      socraticQuestions: this.extractQuestions(content),
+      prerequisites: [],
+      prerequisiteConcepts: [],
+      relatedTheorems: [],
+      teachingTips: [],
       keywords: keywords,
+      embeddingText: '',
 
       source: 'uploaded_document',
-      source_file: originalFilename
+      sourceFile: originalFilename,
+      schemaVersion: KNOWLEDGE_SCHEMA_VERSION
     }
   }
 
+  /**
+   * 将长文档切分为带重叠的检索片段
+   */
+  buildChunks(
+    parsedDoc: ParsedDocument,
+    documentId: string,
+    category: string,
+    originalFilename: string
+  ): DocumentChunk[] {
+    // PDF 逐页切分，片段不跨页，便于引用时给出页码
+    const pieces: Array<{ heading?: string; content: string; page?: number }> = parsedDoc.pages
+      ? parsedDoc.pages.flatMap(page =>
+          splitIntoChunks(page.text).map(chunk => ({ ...chunk, page: page.pageNumber }))
+        )
+      : splitIntoChunks(parsedDoc.content)
+
+    return pieces.map((chunk, index) => ({
+      id: `${documentId}_chunk_${index}`,
+      documentId,
+      sourceFile: originalFilename,
+      title: parsedDoc.title,
+      heading: chunk.heading,
+      page: chunk.page,
+      category: category as SubjectCategory,
+      index,
+      content: chunk.content
+    }))
+  }
+
+  /**
+   * 保存文档片段（每个文档一个文件）
+   */
+  saveChunks(documentId: string, chunks: DocumentChunk[]): void {
+    if (!fs.existsSync(this.chunksDir)) {
+      fs.mkdirSync(this.chunksDir, { recursive: true })
+    }
+    fs.writeFileSync(this.chunkFilePath(documentId), JSON.stringify(chunks, null, 2), 'utf-8')
+  }
+
+  /**
+   * 删除文档片段
+   */
+  deleteChunks(documentId: string): void {
+    const filePath = this.chunkFilePath(documentId)
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath)
+    }
+  }
+
+  private chunkFilePath(documentId: string): string {
+    const safeId = documentId.replace(/[^a-zA-Z0-9_-]/g, '_')
+    return path.join(this.chunksDir, `${safeId}.json`)
+  }
+
   /**
    * 提取关键词
    */
@@ -475,37 +629,10 @@ export class DocumentService {
   }
 
   /**
-   * 保存文档到知识库
+   * 保存文档到知识库，写入经由知识库服务的写队列，与定理的增删改互不覆盖
    */
-  async saveToKnowledge(
-    knowledgeItem: any,
-    targetCategory?: string
-  ): Promise<string> {
-    // 确定目标文件
-    const targetFile = targetCategory
-      ? path.join(this.knowledgeDir, `${targetCategory}.json`)
-      : path.join(this.knowledgeDir, 'uploaded_documents.json')
-
-    // 读取现有数据
-    let existingData: any[] = []
-    if (fs.existsSync(targetFile)) {
-      const content = fs.readFileSync(targetFile, 'utf-8')
-      try {
-        existingData = JSON.parse(content)
-        if (!Array.isArray(existingData)) {
-          existingData = []
-        }
-      } catch (e) {
-        existingData = []
-      }
-    }
-
-    // 添加新条目
-    existingData.push(knowledgeItem)
-
-    // 保存文件
-    fs.writeFileSync(targetFile, JSON.stringify(existingData, null, 2), 'utf-8')
-
+  async saveToKnowledge(knowledgeItem: Theorem, targetCategory?: SubjectCategory): Promise<string> {
+    await knowledgeService.addUploadedItem(knowledgeItem, targetCategory)
     return knowledgeItem.id
   }
 
@@ -562,14 +689,14 @@ export class DocumentService {
   }
 
   /**
-   * 删除上传的文档
-   * 支持 id 或 filename
+   * 删除上传的文档及其知识库条目
+   * 支持 id 或 filename，返回被删除文档的元数据
    */
-  deleteDocument(identifier: string): boolean {
+  async deleteDocument(identifier: string): Promise<{ filename: string; category: string; id: string } | null> {
     const uploadsPath = path.join(this.uploadDir, 'metadata.json')
 
     if (!fs.existsSync(uploadsPath)) {
-      return false
+      return null
     }
 
     try {
@@ -581,7 +708,7 @@ export class DocumentService {
         doc.id === identifier || doc.filename === identifier
       )
       if (docIndex === -1) {
-        return false
+        return null
       }
 
       const doc = metadata[docIndex]
@@ -592,14 +719,20 @@ export class DocumentService {
         fs.unlinkSync(filePath)
       }
 
+      // 从知识库中移除
+      if (doc.id) {
+        await knowledgeService.removeUploadedItem(doc.id, isSubjectCategory(doc.category) ? doc.category : undefined)
+        this.deleteChunks(doc.id)
+      }
+
       // 从元数据中移除
       metadata.splice(docIndex, 1)
       fs.writeFileSync(uploadsPath, JSON.stringify(metadata, null, 2), 'utf-8')
 
-      return true
+      return doc
     } catch (e) {
       console.error('Delete document error:', e)
-      return false
+      return null
     }
   }
 }
@@ -0,0 +1,102 @@
+import fs from 'fs'
+import crypto from 'crypto'
+import { writeFileAtomic } from '../utils/fileWrite.ts'
+
+interface EmbeddingCacheEntry {
+  hash: string // 嵌入文本的内容哈希
+  model: string // 生成向量的提供方与模型
+  vector: number[]
+}
+
+interface EmbeddingCacheFile {
+  version: number
+  entries: Record<string, EmbeddingCacheEntry>
+}
+
+const CACHE_VERSION = 1
+
+/**
+ * 知识库向量磁盘缓存
+ * 以定理ID为键，内容哈希和模型名都一致时才复用，避免每次启动重新生成全部向量
+ */
+export class EmbeddingCache {
+  private filePath: string
+  private entries: Record<string, EmbeddingCacheEntry> = {}
+  private dirty = false
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.load()
+  }
+
+  static hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex')
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return
+    }
+
+    try {
+      const data: EmbeddingCacheFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'))
+      if (data.version !== CACHE_VERSION || !data.entries) {
+        console.warn('[EmbeddingCache] Cache version mismatch, ignoring:', this.filePath)
+        return
+      }
+      this.entries = data.entries
+      console.log(`[EmbeddingCache] Loaded ${Object.keys(this.entries).length} cached embeddings`)
+    } catch (error) {
+      console.error('[EmbeddingCache] Failed to read cache, ignoring:', error)
+    }
+  }
+
+  /**
+   * 获取缓存向量，文本或模型有变化时返回 undefined
+   */
+  get(id: string, text: string, model: string): number[] | undefined {
+    const entry = this.entries[id]
+    if (entry && entry.model === model && entry.hash === EmbeddingCache.hashText(text)) {
+      return entry.vector
+    }
+    return undefined
+  }
+
+  set(id: string, text: string, model: string, vector: number[]): void {
+    this.entries[id] = { hash: EmbeddingCache.hashText(text), model, vector }
+    this.dirty = true
+  }
+
+  delete(id: string): void {
+    if (this.entries[id]) {
+      delete this.entries[id]
+      this.dirty = true
+    }
+  }
+
+  /**
+   * 删除已不在知识库中的条目
+   */
+  prune(validIds: Set<string>): number {
+    let count = 0
+    for (const id of Object.keys(this.entries)) {
+      if (!validIds.has(id)) {
+        delete this.entries[id]
+        count++
+      }
+    }
+    if (count > 0) this.dirty = true
+    return count
+  }
+
+  /**
+   * 写回磁盘（无变化时跳过）
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return
+
+    const data: EmbeddingCacheFile = { version: CACHE_VERSION, entries: this.entries }
+    await writeFileAtomic(this.filePath, JSON.stringify(data))
+    this.dirty = false
+  }
+}
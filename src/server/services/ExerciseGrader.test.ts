@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { gradeNumeric, parseNumericQuantity } from './ExerciseGrader.ts'
+
+describe('parseNumericQuantity', () => {
+  it('解析分数、百分数、科学计数法和根号', () => {
+    expect(parseNumericQuantity('3/4')?.value).toBe(0.75)
+    expect(parseNumericQuantity('50%')?.value).toBe(0.5)
+    expect(parseNumericQuantity('1.2e3')?.value).toBe(1200)
+    expect(parseNumericQuantity('1.204×10²⁴')?.value).toBeCloseTo(1.204e24, -20)
+    expect(parseNumericQuantity('√25')?.value).toBe(5)
+  })
+
+  it('取等号后的数值并分出单位', () => {
+    expect(parseNumericQuantity('c = 5')).toEqual({ value: 5 })
+    expect(parseNumericQuantity('v = 5 m/s')).toEqual({ value: 5, unit: 'm/s' })
+  })
+
+  it('变量不会被当成单位', () => {
+    expect(parseNumericQuantity('2x')).toBeUndefined()
+  })
+})
+
+describe('gradeNumeric', () => {
+  it('按相对误差判分', () => {
+    expect(gradeNumeric('1005', '1000').correct).toBe(true)
+    expect(gradeNumeric('1020', '1000').correct).toBe(false)
+    // 很小的正确答案不能靠绝对误差蒙混过关
+    expect(gradeNumeric('0.002', '0.001').correct).toBe(false)
+    expect(gradeNumeric('0.00100', '0.001').correct).toBe(true)
+  })
+
+  it('正确答案为 0 时只允许极小的误差', () => {
+    expect(gradeNumeric('0', '0').correct).toBe(true)
+    expect(gradeNumeric('1e-12', '0').correct).toBe(true)
+    expect(gradeNumeric('0.001', '0').correct).toBe(false)
+  })
+
+  it('负数答案按绝对值计算允许的误差', () => {
+    expect(gradeNumeric('-9.85', '-9.8').correct).toBe(true)
+    expect(gradeNumeric('9.8', '-9.8').correct).toBe(false)
+  })
+
+  it('同一量纲的单位换算后比较', () => {
+    expect(gradeNumeric('5 km', '5000', undefined, 'm').correct).toBe(true)
+    expect(gradeNumeric('500 cm', '5 m').correct).toBe(true)
+    expect(gradeNumeric('5 千米', '5000 m').correct).toBe(true)
+    expect(gradeNumeric('72 km/h', '20 m/s').correct).toBe(true)
+  })
+
+  it('单位不同量级或不同量纲时判错', () => {
+    expect(gradeNumeric('5 km', '5', undefined, 'm').correct).toBe(false)
+    const result = gradeNumeric('5 kg', '5 m')
+    expect(result.correct).toBe(false)
+    expect(result.feedback).toContain('单位')
+  })
+
+  it('没写单位时按题目的单位比较', () => {
+    expect(gradeNumeric('5', '5', undefined, 'm').correct).toBe(true)
+  })
+
+  it('无法解析的答案给出提示', () => {
+    expect(gradeNumeric('不知道', '5').correct).toBe(false)
+    expect(gradeNumeric('5', 'abc').feedback).toContain('标准答案')
+  })
+})
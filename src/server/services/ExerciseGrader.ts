@@ -0,0 +1,507 @@
+import { EXERCISE_CONFIG } from '../../shared/constants'
+
+export interface RuleGrade {
+  correct: boolean
+  feedback: string
+}
+
+// ==================== 文本规范化 ====================
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-'
+}
+
+const SUBSCRIPTS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9'
+}
+
+/**
+ * 统一数学写法：全角符号转半角，上标转为 ^，下标转为 _，乘除号、根号、π 转为运算符和函数名
+ */
+export function normalizeMath(text: string): string {
+  return text
+    .replace(/[！-～]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, sup => `^${sup.length > 1 ? `(${[...sup].map(c => SUPERSCRIPTS[c]).join('')})` : SUPERSCRIPTS[sup]}`)
+    .replace(/[₀₁₂₃₄₅₆₇₈₉]+/g, sub => `_${[...sub].map(c => SUBSCRIPTS[c]).join('')}`)
+    .replace(/[×·∙⋅]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–—]/g, '-')
+    .replace(/√/g, 'sqrt')
+    .replace(/π/g, 'pi')
+    .replace(/\*\*/g, '^')
+    .replace(/\s+/g, '')
+}
+
+// ==================== 表达式求值 ====================
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string }
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+  abs: Math.abs
+}
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI }
+
+// 多字母名称中能整体识别的函数和常量，按长度降序匹配
+const KNOWN_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length)
+
+/**
+ * 词法分析：连续字母中除已知函数名外都拆成单字母变量（ma 视为 m*a），下标并入变量名（N_A）
+ */
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < expr.length) {
+    const ch = expr[i]
+
+    if (/[\d.]/.test(ch)) {
+      const match = /^\d*\.?\d+(?:e[+-]?\d+)?/i.exec(expr.slice(i))
+      if (!match) throw new Error(`无法解析的数字: ${expr.slice(i)}`)
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) })
+      i += match[0].length
+      continue
+    }
+
+    if (/\p{L}/u.test(ch)) {
+      const known = KNOWN_NAMES.find(name => expr.startsWith(name, i))
+      if (known) {
+        tokens.push({ kind: 'name', value: known })
+        i += known.length
+        continue
+      }
+      const match = /^\p{L}(?:_[\p{L}\d]+)?/u.exec(expr.slice(i))!
+      tokens.push({ kind: 'name', value: match[0] })
+      i += match[0].length
+      continue
+    }
+
+    if ('+-*/^()'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch })
+      i++
+      continue
+    }
+
+    throw new Error(`无法解析的字符: ${ch}`)
+  }
+
+  return tokens
+}
+
+type Evaluator = (variables: Record<string, number>) => number
+
+/**
+ * 递归下降解析，返回求值函数和表达式中出现的变量
+ * 优先级：加减 < 乘除（含省略乘号）< 负号 < 乘方
+ */
+function compile(expr: string): { evaluate: Evaluator; variables: Set<string> } {
+  const tokens = tokenize(expr)
+  const variables = new Set<string>()
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value
+
+  const parseExpression = (): Evaluator => {
+    let left = parseTerm()
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value
+      const right = parseTerm()
+      const l = left
+      left = op === '+' ? v => l(v) + right(v) : v => l(v) - right(v)
+    }
+    return left
+  }
+
+  const parseTerm = (): Evaluator => {
+    let left = parseUnary()
+    for (;;) {
+      const token = peek()
+      if (isOp('*') || isOp('/')) {
+        const op = tokens[pos++].value
+        const right = parseUnary()
+        const l = left
+        left = op === '*' ? v => l(v) * right(v) : v => l(v) / right(v)
+      } else if (token && (token.kind !== 'op' || token.value === '(')) {
+        // 省略乘号：2x、ab、2(x+1)
+        const right = parseUnary()
+        const l = left
+        left = v => l(v) * right(v)
+      } else {
+        return left
+      }
+    }
+  }
+
+  const parseUnary = (): Evaluator => {
+    if (isOp('-')) {
+      pos++
+      const operand = parseUnary()
+      return v => -operand(v)
+    }
+    if (isOp('+')) {
+      pos++
+      return parseUnary()
+    }
+    return parsePower()
+  }
+
+  const parsePower = (): Evaluator => {
+    const base = parsePrimary()
+    if (isOp('^')) {
+      pos++
+      const exponent = parseUnary()
+      return v => Math.pow(base(v), exponent(v))
+    }
+    return base
+  }
+
+  const parsePrimary = (): Evaluator => {
+    const token = tokens[pos++]
+    if (!token) throw new Error('表达式不完整')
+
+    if (token.kind === 'number') {
+      const value = token.value
+      return () => value
+    }
+
+    if (token.kind === 'name') {
+      const fn = FUNCTIONS[token.value]
+      if (fn) {
+        // 参数只取紧跟的一项，之后的乘方作用于函数值：sin(x)^2 是 sin(x) 的平方
+        const argument = parsePrimary()
+        return v => fn(argument(v))
+      }
+      if (token.value in CONSTANTS) {
+        const value = CONSTANTS[token.value]
+        return () => value
+      }
+      const name = token.value
+      variables.add(name)
+      return v => v[name]
+    }
+
+    if (token.value === '(') {
+      const inner = parseExpression()
+      if (!isOp(')')) throw new Error('括号不匹配')
+      pos++
+      return inner
+    }
+
+    throw new Error(`意外的符号: ${token.value}`)
+  }
+
+  const evaluate = parseExpression()
+  if (pos < tokens.length) {
+    throw new Error(`意外的符号: ${tokens[pos].value}`)
+  }
+  return { evaluate, variables }
+}
+
+/**
+ * 计算不含变量的表达式，无法计算时返回 undefined
+ */
+export function evaluateConstant(expr: string): number | undefined {
+  try {
+    const { evaluate, variables } = compile(normalizeMath(expr))
+    if (variables.size > 0) return undefined
+    const value = evaluate({})
+    return Number.isFinite(value) ? value : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ==================== 数值题 ====================
+
+// 数值题常见的单位，按长度降序匹配
+const UNIT_NAMES = [
+  'km', 'cm', 'mm', 'nm', 'm', 'kg', 'mg', 'g', 'ms', 'min', 's', 'h', 'mol', 'mL', 'L',
+  'kHz', 'MHz', 'Hz', 'kPa', 'Pa', 'kN', 'N', 'kJ', 'J', 'kW', 'W', 'kV', 'V', 'mA', 'A',
+  'Ω', 'eV', 'K', '℃', '°C', '°', 'rad', 'T', 'C'
+].sort((a, b) => b.length - a.length)
+
+const UNIT_ATOM = `(?:${UNIT_NAMES.join('|')})(?:\\^\\(?-?\\d+\\)?)?`
+const UNIT_PATTERN = new RegExp(`^${UNIT_ATOM}(?:[*/]\\(?${UNIT_ATOM}(?:[*/]${UNIT_ATOM})*\\)?)*$`)
+
+/**
+ * 答案末尾是否为单位：上面列出的单位及其组合（如 m/s^2、J/(kg*℃)），或中文单位（如 米、千克/立方米）
+ */
+function isUnit(text: string): boolean {
+  return UNIT_PATTERN.test(text) || /^[\p{Script=Han}/]+$/u.test(text)
+}
+
+// 带前缀或非基本单位换算到基本单位的倍数，未列出的单位本身就是基本单位
+const UNIT_SCALES: Record<string, { base: string; factor: number }> = {
+  km: { base: 'm', factor: 1e3 }, cm: { base: 'm', factor: 1e-2 }, mm: { base: 'm', factor: 1e-3 }, nm: { base: 'm', factor: 1e-9 },
+  kg: { base: 'g', factor: 1e3 }, mg: { base: 'g', factor: 1e-3 },
+  ms: { base: 's', factor: 1e-3 }, min: { base: 's', factor: 60 }, h: { base: 's', factor: 3600 },
+  mL: { base: 'L', factor: 1e-3 },
+  kHz: { base: 'Hz', factor: 1e3 }, MHz: { base: 'Hz', factor: 1e6 },
+  kPa: { base: 'Pa', factor: 1e3 }, kN: { base: 'N', factor: 1e3 }, kJ: { base: 'J', factor: 1e3 },
+  kW: { base: 'W', factor: 1e3 }, kV: { base: 'V', factor: 1e3 }, mA: { base: 'A', factor: 1e-3 },
+  '°C': { base: '℃', factor: 1 }
+}
+
+// 常见中文单位对应的符号，组合单位按 / 拆开后逐个替换
+const CHINESE_UNITS: Record<string, string> = {
+  米: 'm', 千米: 'km', 公里: 'km', 厘米: 'cm', 毫米: 'mm', 平方米: 'm^2', 立方米: 'm^3', 平方厘米: 'cm^2', 立方厘米: 'cm^3',
+  千克: 'kg', 公斤: 'kg', 克: 'g', 毫克: 'mg', 秒: 's', 分钟: 'min', 小时: 'h', 升: 'L', 毫升: 'mL',
+  牛: 'N', 牛顿: 'N', 千牛: 'kN', 焦: 'J', 焦耳: 'J', 千焦: 'kJ', 瓦: 'W', 瓦特: 'W', 千瓦: 'kW',
+  伏: 'V', 伏特: 'V', 安: 'A', 安培: 'A', 毫安: 'mA', 欧: 'Ω', 欧姆: 'Ω', 帕: 'Pa', 帕斯卡: 'Pa', 千帕: 'kPa',
+  赫兹: 'Hz', 摩尔: 'mol', 摄氏度: '℃', 开尔文: 'K', 度: '°', 弧度: 'rad'
+}
+
+const UNIT_TOKEN = new RegExp(`[()*/]|(${UNIT_NAMES.join('|')})(?:\\^\\(?(-?\\d+)\\)?)?`, 'g')
+
+/**
+ * 把单位化为基本单位的乘积：base 为排序后的 "单位^次数" 组合（m/s^2 与 m*s^-2 相同），factor 为换算倍数
+ * 无法识别的单位（如 "个"）原样作为 base，只能与完全相同的单位比较
+ */
+function canonicalUnit(unit: string): { base: string; factor: number } {
+  const text = /\p{Script=Han}/u.test(unit)
+    ? unit.split('/').map(part => CHINESE_UNITS[part] ?? part).join('/')
+    : unit
+  if (!UNIT_PATTERN.test(text)) return { base: unit, factor: 1 }
+
+  const powers = new Map<string, number>()
+  let factor = 1
+  // "/" 之后的单位或括号整体取倒数
+  const groupSigns = [1]
+  let sign = 1
+  for (const [token, name, exponent] of text.matchAll(UNIT_TOKEN)) {
+    const groupSign = groupSigns[groupSigns.length - 1]
+    if (token === '*') sign = groupSign
+    else if (token === '/') sign = -groupSign
+    else if (token === '(') groupSigns.push(sign)
+    else if (token === ')') {
+      groupSigns.pop()
+      sign = groupSigns[groupSigns.length - 1]
+    } else {
+      const power = sign * (exponent ? parseInt(exponent, 10) : 1)
+      const scale = UNIT_SCALES[name] ?? { base: name, factor: 1 }
+      factor *= Math.pow(scale.factor, power)
+      powers.set(scale.base, (powers.get(scale.base) ?? 0) + power)
+      sign = groupSign
+    }
+  }
+
+  const base = [...powers.entries()]
+    .filter(([, power]) => power !== 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, power]) => power === 1 ? name : `${name}^${power}`)
+    .join('*')
+  return { base, factor }
+}
+
+export interface NumericQuantity {
+  value: number
+  unit?: string
+}
+
+/**
+ * 从答案中解析数值和单位：支持 "c = 5"、"5 m/s²"、"3/4"、"50%"、"1.2e3"、"1.204×10²⁴"、"√25"
+ * 末尾的单位单独返回（只认常见单位和中文单位，"2x" 不会被当成 2）；等号后的部分优先
+ */
+export function parseNumericQuantity(answer: string): NumericQuantity | undefined {
+  let text = normalizeMath(answer).replace(/[。，；,;]+$/, '')
+  if (text.includes('=')) {
+    text = text.slice(text.lastIndexOf('=') + 1)
+  }
+
+  const percent = /^(-?\d*\.?\d+)%$/.exec(text)
+  if (percent) return { value: parseFloat(percent[1]) / 100 }
+
+  // 10 的幂写法
+  const scientific = /^(-?\d*\.?\d+)\*10\^\(?(-?\d+)\)?(.*)$/.exec(text)
+  if (scientific) {
+    const value = parseFloat(scientific[1]) * Math.pow(10, parseInt(scientific[2], 10))
+    return { value, unit: isUnit(scientific[3]) ? scientific[3] : undefined }
+  }
+
+  const whole = evaluateConstant(text)
+  if (whole !== undefined) return { value: whole }
+
+  // 去掉末尾单位后再试一次（只保留开头的算式部分）
+  const leading = /^([-+]?[\d.]+(?:[*/^][\d.()]+)*)(.+)$/.exec(text)
+  if (!leading || !isUnit(leading[2])) return undefined
+  const value = evaluateConstant(leading[1])
+  return value === undefined ? undefined : { value, unit: leading[2] }
+}
+
+/**
+ * 只取答案中的数值，单位被忽略
+ */
+export function parseNumericAnswer(answer: string): number | undefined {
+  return parseNumericQuantity(answer)?.value
+}
+
+/**
+ * 数值题判分：按相对误差 tolerance 比较，正确答案为 0 时只允许极小的绝对误差
+ * 学生写了单位时换算到正确答案的单位再比较，量纲不同（如 km 与 kg）直接判错；没写单位时按题目给定的单位比较
+ */
+export function gradeNumeric(
+  answer: string,
+  expected: string,
+  tolerance: number = EXERCISE_CONFIG.NUMERIC_TOLERANCE,
+  unit?: string
+): RuleGrade {
+  const actual = parseNumericQuantity(answer)
+  const target = parseNumericQuantity(expected)
+
+  if (target === undefined) {
+    return { correct: false, feedback: '标准答案无法解析为数值，请联系老师检查题目' }
+  }
+  if (actual === undefined) {
+    return { correct: false, feedback: '没有识别出数值答案，请直接写出结果（如 5 或 2.5）' }
+  }
+
+  let value = actual.value
+  const targetUnit = target.unit ?? (unit ? normalizeMath(unit) : undefined)
+  if (actual.unit && targetUnit) {
+    const from = canonicalUnit(actual.unit)
+    const to = canonicalUnit(targetUnit)
+    if (from.base !== to.base) {
+      return { correct: false, feedback: `单位 ${actual.unit} 与这道题的单位 ${targetUnit} 不一致，检查一下单位` }
+    }
+    value = value * from.factor / to.factor
+  }
+
+  const allowed = target.value === 0
+    ? EXERCISE_CONFIG.NUMERIC_ZERO_TOLERANCE
+    : tolerance * Math.abs(target.value)
+  const correct = Math.abs(value - target.value) <= allowed
+  return {
+    correct,
+    feedback: correct ? '数值正确！' : `你的结果是 ${actual.value}${actual.unit ? ` ${actual.unit}` : ''}，与正确答案不一致，检查一下计算过程`
+  }
+}
+
+// ==================== 表达式题 ====================
+
+// 变量取值的样本点，避开 0、1 等特殊值
+const SAMPLE_VALUES = [0.37, 1.29, 2.53, 0.81, 1.77, 3.11]
+
+function samplePoints(variables: string[]): Array<Record<string, number>> {
+  return SAMPLE_VALUES.map((_, index) =>
+    Object.fromEntries(variables.map((name, j) => [name, SAMPLE_VALUES[(index + j * 2) % SAMPLE_VALUES.length] + j * 0.13]))
+  )
+}
+
+function nearlyEqual(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-6 * Math.max(1, Math.abs(a), Math.abs(b))
+}
+
+/**
+ * 判断两个表达式是否等价：在多组样本点上取值比较
+ * 等式比较"左边 - 右边"，允许整体相差一个非零倍数（如两边互换、同乘常数）
+ */
+export function areEquivalent(answer: string, expected: string): boolean {
+  const left = normalizeMath(answer)
+  const right = normalizeMath(expected)
+  if (left === right) return true
+
+  const answerSides = left.split('=')
+  const expectedSides = right.split('=')
+  if (answerSides.length !== expectedSides.length || answerSides.length > 2) return false
+
+  const toFunction = (sides: string[]) => {
+    const compiled = sides.map(side => compile(side))
+    const variables = new Set(compiled.flatMap(c => Array.from(c.variables)))
+    const evaluate: Evaluator = compiled.length === 2
+      ? v => compiled[0].evaluate(v) - compiled[1].evaluate(v)
+      : compiled[0].evaluate
+    return { evaluate, variables }
+  }
+
+  let a: ReturnType<typeof toFunction>
+  let b: ReturnType<typeof toFunction>
+  try {
+    a = toFunction(answerSides)
+    b = toFunction(expectedSides)
+  } catch {
+    return false
+  }
+
+  const variables = Array.from(new Set([...a.variables, ...b.variables])).sort()
+  const isEquation = answerSides.length === 2
+  let ratio: number | undefined
+  let compared = 0
+
+  for (const point of samplePoints(variables)) {
+    const x = a.evaluate(point)
+    const y = b.evaluate(point)
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue
+    compared++
+
+    if (!isEquation) {
+      if (!nearlyEqual(x, y)) return false
+      continue
+    }
+
+    if (nearlyEqual(y, 0) || nearlyEqual(x, 0)) {
+      if (!(nearlyEqual(x, 0) && nearlyEqual(y, 0))) return false
+      continue
+    }
+    const current = x / y
+    if (ratio === undefined) {
+      ratio = current
+    } else if (!nearlyEqual(ratio, current)) {
+      return false
+    }
+  }
+
+  return compared >= 3
+}
+
+export function gradeSymbolic(answer: string, expected: string): RuleGrade {
+  if (!answer.trim()) {
+    return { correct: false, feedback: '请写出表达式' }
+  }
+  const correct = areEquivalent(answer, expected)
+  return {
+    correct,
+    feedback: correct ? '表达式正确！' : '表达式与正确答案不等价，检查一下符号和各项系数'
+  }
+}
+
+// ==================== 选择题 ====================
+
+// 答案前常见的说明文字，如 "答案：B"、"Answer: B"、"我选 C"
+const CHOICE_PREFIX = /^(?:正确答案|答案|answer|我选|选择|选)\s*(?:是|为|is)?\s*[:：]?\s*/i
+
+/**
+ * 从选择题答案中取出选项字母（去重、排序）：整个答案都是字母时逐个取出（如 "AC"），否则只取独立的大写字母
+ */
+export function parseChoiceLetters(text: string): string {
+  const body = text
+    .trim()
+    .replace(/[Ａ-Ｈａ-ｈ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xFEE0))
+    .replace(CHOICE_PREFIX, '')
+  const letters = /^[A-Ha-h]+$/.test(body)
+    ? [...body.toUpperCase()]
+    : body.match(/\b[A-H]\b/g) || []
+  return Array.from(new Set(letters)).sort().join('')
+}
+
+export function gradeChoice(answer: string, expected: string): RuleGrade {
+  const actual = parseChoiceLetters(answer)
+  if (!actual) {
+    return { correct: false, feedback: '请选择一个选项' }
+  }
+  const correct = actual === parseChoiceLetters(expected)
+  return {
+    correct,
+    feedback: correct ? '选择正确！' : `你选择了 ${actual}，再想想其他选项为什么不对`
+  }
+}
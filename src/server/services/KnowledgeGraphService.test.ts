@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Theorem, DifficultyLevel } from '../../shared/types'
+
+const knowledge = vi.hoisted(() => ({ theorems: [] as Theorem[] }))
+
+vi.mock('./RAGService.ts', () => ({
+  default: {
+    initialize: async () => {},
+    getAllTheorems: () => knowledge.theorems
+  }
+}))
+
+const { default: knowledgeGraphService } = await import('./KnowledgeGraphService.ts')
+
+function theorem(id: string, prerequisites: string[] = [], difficulty: DifficultyLevel = '初级', relatedTheorems: string[] = []): Theorem {
+  return {
+    id,
+    category: 'math',
+    subject: '数学',
+    topic: '测试',
+    theorem: `定理${id}`,
+    difficulty,
+    prerequisites,
+    prerequisiteConcepts: [],
+    relatedTheorems
+  } as unknown as Theorem
+}
+
+beforeEach(() => {
+  knowledge.theorems = []
+})
+
+describe('checkGraph', () => {
+  it('没有环时只统计条目和依赖边', async () => {
+    knowledge.theorems = [theorem('a'), theorem('b', ['a']), theorem('c', ['a', 'b'])]
+
+    const report = await knowledgeGraphService.checkGraph()
+    expect(report.nodeCount).toBe(3)
+    expect(report.edgeCount).toBe(3)
+    expect(report.cycles).toEqual([])
+    expect(report.danglingReferences).toEqual([])
+  })
+
+  it('找出多个条目组成的环和自环', async () => {
+    knowledge.theorems = [
+      theorem('a', ['c']),
+      theorem('b', ['a']),
+      theorem('c', ['b']),
+      theorem('d', ['d']),
+      theorem('e', ['a'])
+    ]
+
+    const { cycles } = await knowledgeGraphService.checkGraph()
+    expect(cycles).toHaveLength(2)
+    expect(cycles).toContainEqual(['a', 'b', 'c'])
+    expect(cycles).toContainEqual(['d'])
+  })
+
+  it('只按条目ID解析引用，名称和不存在的ID列为失效引用', async () => {
+    knowledge.theorems = [theorem('a'), theorem('b', ['定理a', 'missing'], '初级', ['a', 'gone'])]
+
+    const report = await knowledgeGraphService.checkGraph()
+    expect(report.edgeCount).toBe(0)
+    expect(report.danglingReferences).toEqual([
+      { theoremId: 'b', field: 'prerequisites', reference: '定理a' },
+      { theoremId: 'b', field: 'prerequisites', reference: 'missing' },
+      { theoremId: 'b', field: 'relatedTheorems', reference: 'gone' }
+    ])
+  })
+})
+
+describe('planPath', () => {
+  it('按前置关系拓扑排序，目标排在最后', async () => {
+    knowledge.theorems = [
+      theorem('target', ['mid', 'base']),
+      theorem('mid', ['base']),
+      theorem('base'),
+      theorem('unrelated')
+    ]
+
+    const path = await knowledgeGraphService.planPath('target')
+    expect(path.steps.map(step => step.id)).toEqual(['base', 'mid', 'target'])
+    expect(path.steps[1].prerequisites).toEqual(['base'])
+    expect(path.cycles).toEqual([])
+  })
+
+  it('同一层先学难度低的', async () => {
+    knowledge.theorems = [
+      theorem('target', ['hard', 'easy', 'medium']),
+      theorem('hard', [], '高级'),
+      theorem('easy', [], '初级'),
+      theorem('medium', [], '中级')
+    ]
+
+    const path = await knowledgeGraphService.planPath('target')
+    expect(path.steps.map(step => step.id)).toEqual(['easy', 'medium', 'hard', 'target'])
+  })
+
+  it('已掌握的条目不排进路径，也不再追溯它的前置知识', async () => {
+    knowledge.theorems = [theorem('target', ['mid']), theorem('mid', ['base']), theorem('base')]
+
+    const path = await knowledgeGraphService.planPath('target', ['mid'])
+    expect(path.steps.map(step => step.id)).toEqual(['target'])
+    expect(path.mastered).toEqual([{ id: 'mid', theorem: '定理mid' }])
+  })
+
+  it('路径内有环时仍给出全部条目并报告环', async () => {
+    knowledge.theorems = [theorem('target', ['a']), theorem('a', ['b']), theorem('b', ['a'])]
+
+    const path = await knowledgeGraphService.planPath('target')
+    expect(path.steps.map(step => step.id)).toEqual(['a', 'b', 'target'])
+    expect(path.cycles).toEqual([['a', 'b']])
+  })
+
+  it('列出找不到的前置知识', async () => {
+    knowledge.theorems = [theorem('target', ['missing'])]
+
+    const path = await knowledgeGraphService.planPath('target')
+    expect(path.missingPrerequisites).toEqual(['missing'])
+  })
+
+  it('目标不存在时返回 404', async () => {
+    await expect(knowledgeGraphService.planPath('nope')).rejects.toMatchObject({ statusCode: 404 })
+  })
+})
@@ -0,0 +1,276 @@
+import type {
+  Theorem,
+  DanglingReference,
+  KnowledgeGraph,
+  KnowledgeGraphEdge,
+  KnowledgeGraphReport,
+  LearningPath
+} from '../../shared/types'
+import { DIFFICULTY_CONFIG } from '../../shared/constants'
+import ragService from './RAGService.ts'
+import { isKnownReference } from './TheoremValidator.ts'
+import { createError } from '../middleware/errorHandler.ts'
+
+/**
+ * 前置关系图：prerequisites 中每个条目ID对应它已解析的前置条目ID
+ */
+interface PrerequisiteGraph {
+  theorems: Map<string, Theorem>
+  prerequisites: Map<string, string[]>
+  related: Map<string, string[]>
+  dangling: DanglingReference[]
+}
+
+export class KnowledgeGraphService {
+  /**
+   * 由当前知识库构建前置关系图
+   * 引用只按条目ID解析，与 TheoremValidator 的校验一致；早期写成名称的引用由 KnowledgeMigrator 升级为ID
+   */
+  private buildGraph(): PrerequisiteGraph {
+    const theorems = new Map(ragService.getAllTheorems().map(t => [t.id, t]))
+    const resolve = (reference: string): string | undefined =>
+      isKnownReference(reference, theorems) ? reference : undefined
+
+    const prerequisites = new Map<string, string[]>()
+    const related = new Map<string, string[]>()
+    const dangling: DanglingReference[] = []
+
+    for (const theorem of theorems.values()) {
+      const resolved: string[] = []
+      for (const reference of theorem.prerequisites || []) {
+        const id = resolve(reference)
+        if (id) {
+          if (!resolved.includes(id)) resolved.push(id)
+        } else {
+          dangling.push({ theoremId: theorem.id, field: 'prerequisites', reference })
+        }
+      }
+      prerequisites.set(theorem.id, resolved)
+
+      const resolvedRelated: string[] = []
+      for (const reference of theorem.relatedTheorems || []) {
+        const id = resolve(reference)
+        if (id) {
+          if (id !== theorem.id && !resolvedRelated.includes(id)) resolvedRelated.push(id)
+        } else {
+          dangling.push({ theoremId: theorem.id, field: 'relatedTheorems', reference })
+        }
+      }
+      related.set(theorem.id, resolvedRelated)
+    }
+
+    return { theorems, prerequisites, related, dangling }
+  }
+
+  /**
+   * 找出前置关系中的环（Tarjan 强连通分量，含自环）
+   */
+  private findCycles(prerequisites: Map<string, string[]>): string[][] {
+    const index = new Map<string, number>()
+    const lowLink = new Map<string, number>()
+    const onStack = new Set<string>()
+    const stack: string[] = []
+    const cycles: string[][] = []
+    let counter = 0
+
+    const visit = (id: string) => {
+      index.set(id, counter)
+      lowLink.set(id, counter)
+      counter++
+      stack.push(id)
+      onStack.add(id)
+
+      for (const next of prerequisites.get(id) || []) {
+        if (!index.has(next)) {
+          visit(next)
+          lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!))
+        } else if (onStack.has(next)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!))
+        }
+      }
+
+      if (lowLink.get(id) === index.get(id)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== id)
+
+        if (component.length > 1 || (prerequisites.get(id) || []).includes(id)) {
+          cycles.push(component.sort())
+        }
+      }
+    }
+
+    for (const id of prerequisites.keys()) {
+      if (!index.has(id)) visit(id)
+    }
+    return cycles
+  }
+
+  /**
+   * 导出知识地图：全部条目及已解析的前置、相关关系
+   * 相关关系无方向，同一对条目只保留一条边；已有前置关系的条目对不再重复连相关边
+   */
+  async getGraph(): Promise<KnowledgeGraph> {
+    await ragService.initialize()
+    const graph = this.buildGraph()
+
+    const edges: KnowledgeGraphEdge[] = []
+    const linked = new Set<string>()
+    const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`)
+
+    for (const [id, prerequisites] of graph.prerequisites) {
+      for (const prerequisite of prerequisites) {
+        edges.push({ source: prerequisite, target: id, kind: 'prerequisite' })
+        linked.add(pairKey(prerequisite, id))
+      }
+    }
+
+    for (const [id, related] of graph.related) {
+      for (const other of related) {
+        const key = pairKey(id, other)
+        if (linked.has(key)) continue
+        linked.add(key)
+        edges.push({ source: id, target: other, kind: 'related' })
+      }
+    }
+
+    return {
+      nodes: Array.from(graph.theorems.values(), theorem => ({
+        id: theorem.id,
+        theorem: theorem.theorem,
+        category: theorem.category,
+        topic: theorem.topic,
+        difficulty: theorem.difficulty
+      })),
+      edges
+    }
+  }
+
+  /**
+   * 检查知识库的前置关系：循环依赖和失效引用
+   */
+  async checkGraph(): Promise<KnowledgeGraphReport> {
+    await ragService.initialize()
+    const graph = this.buildGraph()
+
+    let edgeCount = 0
+    for (const edges of graph.prerequisites.values()) {
+      edgeCount += edges.length
+    }
+
+    return {
+      nodeCount: graph.theorems.size,
+      edgeCount,
+      cycles: this.findCycles(graph.prerequisites),
+      danglingReferences: graph.dangling
+    }
+  }
+
+  /**
+   * 规划学习路径：收集目标定理所有未掌握的前置条目（已掌握的条目不再向前追溯），
+   * 按前置关系拓扑排序，同一层先学难度低的
+   */
+  async planPath(targetId: string, masteredIds: string[] = []): Promise<LearningPath> {
+    await ragService.initialize()
+    const graph = this.buildGraph()
+
+    const target = graph.theorems.get(targetId)
+    if (!target) {
+      throw createError('未找到指定的定理', 404, 'NOT_FOUND')
+    }
+
+    const mastered = new Set(masteredIds)
+    const required = new Set<string>()
+    const skipped = new Set<string>()
+    const queue = [targetId]
+
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      if (required.has(id)) continue
+      required.add(id)
+
+      for (const prerequisite of graph.prerequisites.get(id) || []) {
+        if (mastered.has(prerequisite)) {
+          skipped.add(prerequisite)
+        } else {
+          queue.push(prerequisite)
+        }
+      }
+    }
+
+    // 只保留路径内部的前置关系
+    const edges = new Map<string, string[]>()
+    for (const id of required) {
+      edges.set(id, (graph.prerequisites.get(id) || []).filter(p => required.has(p)))
+    }
+
+    const order = this.topologicalOrder(edges, graph.theorems, targetId)
+    const missingPrerequisites = graph.dangling
+      .filter(ref => ref.field === 'prerequisites' && required.has(ref.theoremId))
+      .map(ref => ref.reference)
+
+    return {
+      targetId,
+      steps: order.map(id => {
+        const theorem = graph.theorems.get(id)!
+        return {
+          id,
+          theorem: theorem.theorem,
+          category: theorem.category,
+          topic: theorem.topic,
+          difficulty: theorem.difficulty,
+          prerequisites: edges.get(id) || []
+        }
+      }),
+      mastered: Array.from(skipped, id => ({ id, theorem: graph.theorems.get(id)!.theorem })),
+      missingPrerequisites: Array.from(new Set(missingPrerequisites)),
+      cycles: this.findCycles(edges)
+    }
+  }
+
+  /**
+   * Kahn 拓扑排序；环中无法排序的条目按难度追加在目标之前，目标始终排在最后
+   */
+  private topologicalOrder(edges: Map<string, string[]>, theorems: Map<string, Theorem>, targetId: string): string[] {
+    const rank = (id: string) => {
+      const theorem = theorems.get(id)!
+      return DIFFICULTY_CONFIG[theorem.difficulty]?.level || 0
+    }
+    const byDifficulty = (a: string, b: string) => rank(a) - rank(b) || a.localeCompare(b)
+
+    const remaining = new Map<string, number>()
+    const dependents = new Map<string, string[]>()
+    for (const [id, prerequisites] of edges) {
+      remaining.set(id, prerequisites.length)
+      for (const prerequisite of prerequisites) {
+        dependents.set(prerequisite, [...(dependents.get(prerequisite) || []), id])
+      }
+    }
+
+    const order: string[] = []
+    const ready = Array.from(remaining.keys()).filter(id => remaining.get(id) === 0 && id !== targetId)
+
+    while (ready.length > 0) {
+      ready.sort(byDifficulty)
+      const id = ready.shift()!
+      order.push(id)
+      for (const dependent of dependents.get(id) || []) {
+        const count = remaining.get(dependent)! - 1
+        remaining.set(dependent, count)
+        if (count === 0 && dependent !== targetId) ready.push(dependent)
+      }
+    }
+
+    const unordered = Array.from(edges.keys())
+      .filter(id => id !== targetId && !order.includes(id))
+      .sort(byDifficulty)
+
+    return [...order, ...unordered, targetId]
+  }
+}
+
+export default new KnowledgeGraphService()
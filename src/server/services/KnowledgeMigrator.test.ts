@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { KNOWLEDGE_SCHEMA_VERSION, getSchemaVersion, migrateTheorem, migrateKnowledgeItems } from './KnowledgeMigrator.ts'
+
+// 早期上传文档生成的条目：snake_case 字段、字符串形式的列表项、缺少 subject 等字段
+const legacyRecord = {
+  id: 'math_legacy_001',
+  category: 'math',
+  theorem: '旧定理',
+  difficulty: '超难',
+  formula_latex: 'a^2',
+  proof_steps: ['第一步', { title: '第二步', content: '推导' }],
+  common_mistakes: ['忘记平方'],
+  socratic_questions: ['为什么？', 42],
+  examples: ['求 a'],
+  related_theorems: ['math_pythagorean_001']
+}
+
+describe('migrateTheorem', () => {
+  it('没有 schemaVersion 的条目视为版本 1', () => {
+    expect(getSchemaVersion(legacyRecord)).toBe(1)
+  })
+
+  it('snake_case 字段改为 camelCase 并补齐缺失字段', () => {
+    const { theorem, changed } = migrateTheorem(legacyRecord)
+
+    expect(changed).toBe(true)
+    expect(theorem.schemaVersion).toBe(KNOWLEDGE_SCHEMA_VERSION)
+    expect(theorem.formulaLatex).toBe('a^2')
+    expect(theorem).not.toHaveProperty('formula_latex')
+    expect(theorem.subject).toBe('数学')
+    expect(theorem.topic).toBe('通用')
+    expect(theorem.difficulty).toBe('初级')
+    expect(theorem.visualization).toEqual({ type: '', description: '', widgets: [] })
+    expect(theorem.relatedTheorems).toEqual(['math_pythagorean_001'])
+  })
+
+  it('列表项统一为对象结构，非字符串的项被丢弃', () => {
+    const { theorem } = migrateTheorem(legacyRecord)
+
+    expect(theorem.proofSteps).toEqual([
+      { step: 1, title: '', content: '第一步' },
+      { step: 2, title: '第二步', content: '推导' }
+    ])
+    expect(theorem.commonMistakes).toEqual([{ mistake: '忘记平方', correction: '' }])
+    expect(theorem.examples).toEqual([{ problem: '求 a', solution: '' }])
+    expect(theorem.socraticQuestions).toEqual(['为什么？'])
+  })
+
+  it('同时存在两种写法时以 camelCase 为准', () => {
+    const { theorem } = migrateTheorem({ ...legacyRecord, formulaLatex: 'b^2' })
+    expect(theorem.formulaLatex).toBe('b^2')
+  })
+
+  it('已是当前版本的条目原样返回', () => {
+    const { theorem: migrated } = migrateTheorem(legacyRecord)
+    const again = migrateTheorem(migrated)
+
+    expect(again.changed).toBe(false)
+    expect(again.theorem).toBe(migrated)
+  })
+})
+
+describe('migrateKnowledgeItems', () => {
+  it('统计升级的条目数，跳过不是对象的元素', () => {
+    const { theorem: current } = migrateTheorem(legacyRecord)
+    const { items, migrated } = migrateKnowledgeItems([legacyRecord, current, null, 'text'])
+
+    expect(items).toHaveLength(2)
+    expect(migrated).toBe(1)
+  })
+
+  it('单个对象按一条处理', () => {
+    const { items, migrated } = migrateKnowledgeItems(legacyRecord)
+    expect(items).toHaveLength(1)
+    expect(migrated).toBe(1)
+  })
+})
+
+describe('前置知识升级为条目ID', () => {
+  const newton1 = { id: 'physics_newton1_001', theorem: '牛顿第一定律', schemaVersion: 2, prerequisites: [] }
+
+  it('名称换成对应条目的ID，知识库外的概念移到 prerequisiteConcepts', () => {
+    const newton2 = {
+      id: 'physics_newton2_001',
+      theorem: '牛顿第二定律',
+      schemaVersion: 2,
+      prerequisites: ['牛顿第一定律', '加速度', 'physics_newton1_001'],
+      keywords: ['F=ma']
+    }
+
+    const { items } = migrateKnowledgeItems([newton1, newton2])
+    expect(items[1].prerequisites).toEqual(['physics_newton1_001'])
+    expect(items[1].prerequisiteConcepts).toEqual(['加速度'])
+    // prerequisiteConcepts 紧跟在 prerequisites 之后
+    expect(Object.keys(items[1])).toEqual(['id', 'theorem', 'schemaVersion', 'prerequisites', 'prerequisiteConcepts', 'keywords'])
+  })
+
+  it('按其他文件中的条目解析跨学科的名称', () => {
+    const record = { id: 'math_x_001', theorem: 'X', schemaVersion: 2, prerequisites: ['牛顿第一定律'] }
+
+    const { items } = migrateKnowledgeItems([record], [newton1])
+    expect(items[0].prerequisites).toEqual(['physics_newton1_001'])
+    expect(items[0].prerequisiteConcepts).toEqual([])
+  })
+
+  it('已有的 prerequisiteConcepts 保留并去重', () => {
+    const record = { id: 'a', theorem: 'A', schemaVersion: 2, prerequisites: ['速度'], prerequisiteConcepts: ['速度', '位移'] }
+
+    const { theorem } = migrateTheorem(record)
+    expect(theorem.prerequisites).toEqual([])
+    expect(theorem.prerequisiteConcepts).toEqual(['速度', '位移'])
+  })
+})
@@ -0,0 +1,198 @@
+import type { Theorem } from '../../shared/types'
+import { SUBJECT_NAMES, DIFFICULTY_LEVELS } from '../../shared/constants'
+
+// 当前知识条目结构版本；没有 schemaVersion 的条目视为版本 1
+export const KNOWLEDGE_SCHEMA_VERSION = 3
+
+/**
+ * 升级时参照的全部知识条目：前置知识可能写的是其他学科文件中条目的名称
+ */
+export interface MigrationContext {
+  ids: Set<string>
+  idsByName: Map<string, string> // 定理名称 → 条目ID，重名时取第一个
+}
+
+interface Migration {
+  from: number
+  description: string
+  migrate: (record: Record<string, any>, context: MigrationContext) => Record<string, any>
+}
+
+// 上传文档和早期数据使用的 snake_case 字段 → 规范字段
+const LEGACY_FIELD_NAMES: Record<string, keyof Theorem> = {
+  formula_latex: 'formulaLatex',
+  proof_steps: 'proofSteps',
+  common_mistakes: 'commonMistakes',
+  socratic_questions: 'socraticQuestions',
+  teaching_tips: 'teachingTips',
+  related_theorems: 'relatedTheorems',
+  embedding_text: 'embeddingText',
+  source_file: 'sourceFile',
+  chunk_count: 'chunkCount'
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * 版本 1 → 2：字段统一为 camelCase，补齐缺失字段，列表项统一为对象结构
+ */
+function migrateV1(record: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(record)) {
+    const canonical = LEGACY_FIELD_NAMES[key]
+    // 同时存在两种写法时以 camelCase 为准
+    if (canonical && canonical in record) continue
+    result[canonical || key] = value
+  }
+
+  const category = toText(result.category)
+  result.subject = toText(result.subject) || SUBJECT_NAMES[category as keyof typeof SUBJECT_NAMES] || category
+  result.topic = toText(result.topic) || '通用'
+  result.theorem = toText(result.theorem)
+  result.difficulty = DIFFICULTY_LEVELS.includes(result.difficulty) ? result.difficulty : '初级'
+  result.description = toText(result.description)
+  result.formula = toText(result.formula)
+  result.formulaLatex = toText(result.formulaLatex)
+  result.embeddingText = toText(result.embeddingText)
+
+  const visualization = result.visualization
+  result.visualization = {
+    type: toText(visualization?.type),
+    description: toText(visualization?.description),
+    widgets: toStringList(visualization?.widgets)
+  }
+
+  result.proofSteps = (Array.isArray(result.proofSteps) ? result.proofSteps : []).map((step: any, index: number) =>
+    typeof step === 'string'
+      ? { step: index + 1, title: '', content: step }
+      : { ...step, step: index + 1, title: toText(step?.title), content: toText(step?.content) }
+  )
+  result.examples = (Array.isArray(result.examples) ? result.examples : []).map((example: any) =>
+    typeof example === 'string'
+      ? { problem: example, solution: '' }
+      : { ...example, problem: toText(example?.problem), solution: toText(example?.solution) }
+  )
+  result.commonMistakes = (Array.isArray(result.commonMistakes) ? result.commonMistakes : []).map((mistake: any) =>
+    typeof mistake === 'string'
+      ? { mistake, correction: '' }
+      : { mistake: toText(mistake?.mistake), correction: toText(mistake?.correction) }
+  )
+
+  for (const field of ['socraticQuestions', 'prerequisites', 'relatedTheorems', 'teachingTips', 'keywords']) {
+    result[field] = toStringList(result[field])
+  }
+
+  return result
+}
+
+/**
+ * 版本 2 → 3：prerequisites 只保存条目ID
+ * 写成定理名称的前置知识换成对应条目的ID，知识库中没有对应条目的（如"直角三角形"）移到 prerequisiteConcepts
+ */
+function migrateV2(record: Record<string, any>, context: MigrationContext): Record<string, any> {
+  const prerequisites: string[] = []
+  const concepts = toStringList(record.prerequisiteConcepts)
+
+  for (const reference of toStringList(record.prerequisites)) {
+    const id = context.ids.has(reference) ? reference : context.idsByName.get(reference)
+    if (id) {
+      if (!prerequisites.includes(id)) prerequisites.push(id)
+    } else if (!concepts.includes(reference)) {
+      concepts.push(reference)
+    }
+  }
+
+  // prerequisiteConcepts 紧跟在 prerequisites 之后，便于对照
+  const result: Record<string, any> = {}
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'prerequisiteConcepts') continue
+    result[key] = key === 'prerequisites' ? prerequisites : value
+    if (key === 'prerequisites') result.prerequisiteConcepts = concepts
+  }
+  if (!('prerequisiteConcepts' in result)) {
+    result.prerequisites = prerequisites
+    result.prerequisiteConcepts = concepts
+  }
+  return result
+}
+
+// 按版本顺序排列，新增结构变更时在末尾追加并提升 KNOWLEDGE_SCHEMA_VERSION
+const MIGRATIONS: Migration[] = [
+  { from: 1, description: 'snake_case 字段改为 camelCase，补齐缺失字段', migrate: migrateV1 },
+  { from: 2, description: '前置知识只保存条目ID，知识库外的概念移到 prerequisiteConcepts', migrate: migrateV2 }
+]
+
+export function getSchemaVersion(record: Record<string, any>): number {
+  return typeof record.schemaVersion === 'number' ? record.schemaVersion : 1
+}
+
+/**
+ * 由知识条目（可以是尚未升级的原始数据）建立升级时参照的ID和名称索引
+ */
+export function createMigrationContext(records: Array<Record<string, any>>): MigrationContext {
+  const ids = new Set<string>()
+  const idsByName = new Map<string, string>()
+  for (const record of records) {
+    if (typeof record.id !== 'string') continue
+    ids.add(record.id)
+    if (typeof record.theorem === 'string' && record.theorem && !idsByName.has(record.theorem)) {
+      idsByName.set(record.theorem, record.id)
+    }
+  }
+  return { ids, idsByName }
+}
+
+/**
+ * 把单个知识条目升级到当前结构版本；已是当前版本时原样返回
+ */
+export function migrateTheorem(
+  record: Record<string, any>,
+  context: MigrationContext = createMigrationContext([record])
+): { theorem: Theorem; changed: boolean } {
+  let version = getSchemaVersion(record)
+  if (version >= KNOWLEDGE_SCHEMA_VERSION) {
+    return { theorem: record as Theorem, changed: false }
+  }
+
+  let current = record
+  for (const migration of MIGRATIONS) {
+    if (migration.from === version) {
+      current = migration.migrate(current, context)
+      version = migration.from + 1
+    }
+  }
+
+  return {
+    theorem: { ...current, schemaVersion: KNOWLEDGE_SCHEMA_VERSION } as Theorem,
+    changed: true
+  }
+}
+
+/**
+ * 升级知识库文件中的全部条目（文件内容为条目数组，单个对象也按一条处理）
+ * knownTheorems 为其他文件中的条目，用于解析跨文件的前置知识
+ */
+export function migrateKnowledgeItems(
+  data: unknown,
+  knownTheorems: Array<Record<string, any>> = []
+): { items: Theorem[]; migrated: number } {
+  const records = (Array.isArray(data) ? data : [data])
+    .filter((record): record is Record<string, any> => typeof record === 'object' && record !== null)
+  const context = createMigrationContext([...records, ...knownTheorems])
+
+  let migrated = 0
+  const items = records.map(record => {
+    const { theorem, changed } = migrateTheorem(record, context)
+    if (changed) migrated++
+    return theorem
+  })
+
+  return { items, migrated }
+}
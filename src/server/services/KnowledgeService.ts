@@ -1,8 +1,33 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
 import type { Theorem, KnowledgeQuery, SearchResult, SubjectCategory } from '../../shared/types'
 import ragService from './RAGService.ts'
+import { validateTheorem } from './TheoremValidator.ts'
+import { migrateKnowledgeItems } from './KnowledgeMigrator.ts'
+import { createError } from '../middleware/errorHandler.ts'
+import { writeFileAtomic, createWriteQueue } from '../utils/fileWrite.ts'
 import { SUBJECT_NAMES } from '../../shared/constants'
 
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+// 未指定学科的上传文档条目保存在单独的文件中
+const UPLOADED_DOCUMENTS_FILE = 'uploaded_documents' as const
+type KnowledgeFile = SubjectCategory | typeof UPLOADED_DOCUMENTS_FILE
+
+/**
+ * 判断是否为知识库中的学科分类
+ */
+export function isSubjectCategory(value: unknown): value is SubjectCategory {
+  return typeof value === 'string' && Object.keys(SUBJECT_NAMES).includes(value)
+}
+
 export class KnowledgeService {
+  private knowledgeDir = path.join(__dirname, '../../../data/knowledge')
+  // 知识库文件的写操作串行执行，避免并发请求互相覆盖
+  private serialize = createWriteQueue()
+
   /**
    * 查询知识库
    */
@@ -64,7 +89,7 @@ export class KnowledgeService {
       id: t.id,
       theorem: t.theorem,
       description: t.description,
-      relevanceScore: (t as any).relevanceScore || 0,
+      relevanceScore: t.relevanceScore,
       category: t.category,
       difficulty: t.difficulty
     }))
@@ -78,6 +103,165 @@ export class KnowledgeService {
     return ragService.getTheoremById(id)
   }
 
+  /**
+   * 新增定理，写入对应学科的知识库文件并更新检索索引
+   */
+  async createTheorem(input: unknown): Promise<Theorem> {
+    return this.serialize(async () => {
+      await ragService.initialize()
+
+      const knownIds = new Set(ragService.getAllTheorems().map(t => t.id))
+      const { theorem, errors } = validateTheorem(input, { knownIds })
+      if (!theorem) {
+        throw createError('知识条目校验失败', 400, 'VALIDATION_ERROR', errors)
+      }
+      if (knownIds.has(theorem.id)) {
+        throw createError(`条目ID已存在: ${theorem.id}`, 409, 'CONFLICT')
+      }
+
+      const items = this.readCategoryFile(theorem.category)
+      items.push(theorem)
+      await this.writeCategoryFile(theorem.category, items)
+
+      await ragService.upsertTheorem(theorem)
+      console.log('[Knowledge] Created theorem:', theorem.id)
+      return theorem
+    })
+  }
+
+  /**
+   * 整体替换定理；修改学科时从原文件移到新学科文件
+   */
+  async updateTheorem(id: string, input: unknown): Promise<Theorem> {
+    return this.serialize(async () => {
+      await ragService.initialize()
+
+      const previous = this.getEditableTheorem(id)
+      const body = typeof input === 'object' && input !== null ? { ...input, id } : input
+      const knownIds = new Set(ragService.getAllTheorems().map(t => t.id))
+      const { theorem, errors } = validateTheorem(body, { knownIds, previous })
+      if (!theorem) {
+        throw createError('知识条目校验失败', 400, 'VALIDATION_ERROR', errors)
+      }
+
+      if (theorem.category === previous.category) {
+        const items = this.readCategoryFile(theorem.category)
+        await this.writeCategoryFile(
+          theorem.category,
+          items.map(item => (item.id === id ? theorem : item))
+        )
+      } else {
+        // 先写新文件再删旧条目，中途失败时最多出现重复而不会丢数据
+        const targetItems = this.readCategoryFile(theorem.category)
+        targetItems.push(theorem)
+        await this.writeCategoryFile(theorem.category, targetItems)
+
+        const sourceItems = this.readCategoryFile(previous.category)
+        await this.writeCategoryFile(previous.category, sourceItems.filter(item => item.id !== id))
+      }
+
+      await ragService.upsertTheorem(theorem)
+      console.log('[Knowledge] Updated theorem:', id)
+      return theorem
+    })
+  }
+
+  /**
+   * 删除定理；仍被其他条目引用时拒绝删除，避免留下失效的引用
+   */
+  async deleteTheorem(id: string): Promise<void> {
+    return this.serialize(async () => {
+      await ragService.initialize()
+
+      const theorem = this.getEditableTheorem(id)
+      const referrers = ragService.getAllTheorems()
+        .filter(t => t.id !== id && (t.prerequisites?.includes(id) || t.relatedTheorems?.includes(id)))
+        .map(t => t.id)
+      if (referrers.length > 0) {
+        throw createError('该条目仍被其他条目引用，请先移除引用', 409, 'CONFLICT', referrers)
+      }
+
+      const items = this.readCategoryFile(theorem.category)
+      await this.writeCategoryFile(theorem.category, items.filter(item => item.id !== id))
+
+      await ragService.removeTheorem(id)
+      console.log('[Knowledge] Deleted theorem:', id)
+    })
+  }
+
+  /**
+   * 获取可通过接口编辑的定理；上传文档生成的条目由文档接口管理
+   */
+  private getEditableTheorem(id: string): Theorem {
+    const theorem = ragService.getTheoremById(id)
+    if (!theorem) {
+      throw createError('未找到指定的定理', 404, 'NOT_FOUND')
+    }
+    if (theorem.source === 'uploaded_document') {
+      throw createError('上传文档生成的条目请通过文档管理接口修改或删除', 409, 'CONFLICT')
+    }
+    return theorem
+  }
+
+  /**
+   * 把上传文档生成的条目追加到学科知识库文件；未指定学科时写入 uploaded_documents.json
+   */
+  async addUploadedItem(item: Theorem, category?: SubjectCategory): Promise<void> {
+    return this.serialize(async () => {
+      const file = category ?? UPLOADED_DOCUMENTS_FILE
+      const items = this.readCategoryFile(file)
+      items.push(item)
+      await this.writeCategoryFile(file, items)
+    })
+  }
+
+  /**
+   * 从知识库文件中移除上传文档生成的条目
+   * 未指定学科的上传保存在 uploaded_documents.json，两处都要检查
+   */
+  async removeUploadedItem(id: string, category?: SubjectCategory): Promise<boolean> {
+    return this.serialize(async () => {
+      const files: KnowledgeFile[] = category ? [category, UPLOADED_DOCUMENTS_FILE] : [UPLOADED_DOCUMENTS_FILE]
+      let removed = false
+      for (const file of files) {
+        const items = this.readCategoryFile(file)
+        const remaining = items.filter(item => item.id !== id)
+        if (remaining.length !== items.length) {
+          await this.writeCategoryFile(file, remaining)
+          removed = true
+        }
+      }
+      return removed
+    })
+  }
+
+  private categoryFilePath(category: KnowledgeFile): string {
+    return path.join(this.knowledgeDir, `${category}.json`)
+  }
+
+  /**
+   * 读取学科知识库文件（文件不存在时视为空），旧结构的条目升级后随本次写入一起保存
+   */
+  private readCategoryFile(category: KnowledgeFile): Theorem[] {
+    const filePath = this.categoryFilePath(category)
+    if (!fs.existsSync(filePath)) {
+      return []
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    if (!Array.isArray(data)) {
+      throw new Error(`知识库文件格式错误: ${category}.json`)
+    }
+    return migrateKnowledgeItems(data, ragService.getAllTheorems()).items
+  }
+
+  /**
+   * 写入学科知识库文件
+   */
+  private async writeCategoryFile(category: KnowledgeFile, items: Theorem[]): Promise<void> {
+    await writeFileAtomic(this.categoryFilePath(category), JSON.stringify(items, null, 2) + '\n')
+  }
+
   /**
    * 获取所有学科分类
    */
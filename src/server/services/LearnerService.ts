@@ -0,0 +1,299 @@
+import type {
+  LearnerProfile,
+  LearningRecord,
+  SubjectCategory,
+  DifficultyLevel,
+  DueReview,
+  RecallGrade
+} from '../../shared/types'
+import { GRADE_LEVELS, LEARNER_CONFIG, REVIEW_CONFIG, SUBJECT_NAMES, DIFFICULTY_LEVELS } from '../../shared/constants'
+import { getLearnerStore } from './LearnerStore.ts'
+import ragService from './RAGService.ts'
+import classService from './ClassService.ts'
+import { applyReview, ensureScheduled, getNextReviewAt, isDue, isRecallGrade } from './ReviewScheduler.ts'
+import { createError } from '../middleware/errorHandler.ts'
+
+const REVIEW_FIELDS = ['repetitions', 'easeFactor', 'intervalDays', 'nextReviewAt', 'lastReviewedAt'] as const
+
+// 档案中允许通过 PUT 修改的字段
+export type LearnerProfileInput = Partial<Omit<LearnerProfile, 'id' | 'createdAt' | 'updatedAt'>>
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function clampLevel(level: number): number {
+  return Math.min(5, Math.max(1, Math.round(level)))
+}
+
+/**
+ * 校验 PUT 请求体，只检查出现的字段
+ */
+function validateProfileInput(input: unknown): { profile?: LearnerProfileInput; errors: string[] } {
+  if (!isObject(input)) {
+    return { errors: ['请求体必须是学习者档案对象'] }
+  }
+
+  const errors: string[] = []
+  const profile: LearnerProfileInput = {}
+
+  if (input.gradeLevel !== undefined) {
+    if ((GRADE_LEVELS as readonly string[]).includes(input.gradeLevel)) {
+      profile.gradeLevel = input.gradeLevel
+    } else {
+      errors.push(`gradeLevel 必须是 ${GRADE_LEVELS.join('、')} 之一`)
+    }
+  }
+
+  if (input.subjects !== undefined) {
+    const categories = Object.keys(SUBJECT_NAMES)
+    if (isStringList(input.subjects) && input.subjects.every(subject => categories.includes(subject))) {
+      profile.subjects = Array.from(new Set(input.subjects)) as SubjectCategory[]
+    } else {
+      errors.push(`subjects 只能包含 ${categories.join('、')}`)
+    }
+  }
+
+  // classId 为 null 时退出班级
+  if (input.classId !== undefined) {
+    if (input.classId === null) {
+      profile.classId = undefined
+    } else if (typeof input.classId === 'string' && /^[\w-]{1,64}$/.test(input.classId)) {
+      profile.classId = input.classId
+    } else {
+      errors.push('classId 只能包含字母、数字、下划线和连字符，或为 null 表示退出班级')
+    }
+  }
+
+  if (input.difficulty !== undefined) {
+    if (DIFFICULTY_LEVELS.includes(input.difficulty)) {
+      profile.difficulty = input.difficulty as DifficultyLevel
+    } else {
+      errors.push(`difficulty 必须是 ${DIFFICULTY_LEVELS.join('、')} 之一`)
+    }
+  }
+
+  for (const field of ['learningGoals', 'weakTopics'] as const) {
+    if (input[field] === undefined) continue
+    if (isStringList(input[field])) {
+      profile[field] = input[field].map((item: string) => item.trim()).filter(Boolean)
+    } else {
+      errors.push(`${field} 必须是字符串数组`)
+    }
+  }
+
+  if (input.learningHistory !== undefined) {
+    if (!Array.isArray(input.learningHistory)) {
+      errors.push('learningHistory 必须是数组')
+    } else {
+      const records: LearningRecord[] = []
+      input.learningHistory.forEach((record: unknown, index: number) => {
+        if (
+          !isObject(record) ||
+          typeof record.theoremId !== 'string' || !record.theoremId ||
+          typeof record.studiedAt !== 'number' ||
+          typeof record.understandingLevel !== 'number' ||
+          typeof record.practiceCount !== 'number' ||
+          typeof record.correctRate !== 'number'
+        ) {
+          errors.push(`learningHistory[${index}] 必须包含 theoremId、studiedAt、understandingLevel、practiceCount、correctRate`)
+          return
+        }
+        const normalized: LearningRecord = {
+          theoremId: record.theoremId,
+          studiedAt: record.studiedAt,
+          understandingLevel: clampLevel(record.understandingLevel),
+          practiceCount: Math.max(0, Math.floor(record.practiceCount)),
+          correctRate: Math.min(1, Math.max(0, record.correctRate))
+        }
+        // 复习排期字段可选，只保留数值
+        for (const field of REVIEW_FIELDS) {
+          if (typeof record[field] === 'number') normalized[field] = record[field]
+        }
+        records.push(normalized)
+      })
+      profile.learningHistory = records
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { profile, errors }
+}
+
+export class LearnerService {
+  // 同一学习者的读改写串行执行，避免对话和练习同时更新时互相覆盖
+  private queues = new Map<string, Promise<unknown>>()
+
+  private serialize<T>(learnerId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(learnerId) || Promise.resolve()).then(task)
+    const tail = result.catch(() => undefined)
+    this.queues.set(learnerId, tail)
+    tail.then(() => {
+      if (this.queues.get(learnerId) === tail) this.queues.delete(learnerId)
+    })
+    return result
+  }
+
+  private assertValidId(learnerId: string): void {
+    if (!/^[\w-]{1,64}$/.test(learnerId)) {
+      throw createError('学习者ID只能包含字母、数字、下划线和连字符', 400, 'INVALID_LEARNER_ID')
+    }
+  }
+
+  private createProfile(learnerId: string): LearnerProfile {
+    const now = Date.now()
+    return {
+      id: learnerId,
+      gradeLevel: '高中',
+      subjects: [],
+      difficulty: '初级',
+      learningGoals: [],
+      weakTopics: [],
+      learningHistory: [],
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private async load(learnerId: string): Promise<LearnerProfile> {
+    return (await getLearnerStore().get(learnerId)) || this.createProfile(learnerId)
+  }
+
+  /**
+   * 修改单条学习记录并保存；没有记录时新建，超出上限时丢弃最久未学习的记录
+   */
+  private updateRecord(
+    learnerId: string,
+    theoremId: string,
+    update: (record: LearningRecord) => void
+  ): Promise<LearningRecord> {
+    this.assertValidId(learnerId)
+
+    return this.serialize(learnerId, async () => {
+      const profile = await this.load(learnerId)
+      let record = profile.learningHistory.find(r => r.theoremId === theoremId)
+      if (!record) {
+        record = { theoremId, studiedAt: Date.now(), understandingLevel: 1, practiceCount: 0, correctRate: 0 }
+        profile.learningHistory.push(record)
+      }
+
+      update(record)
+      record.studiedAt = Date.now()
+      ensureScheduled(record)
+
+      if (profile.learningHistory.length > LEARNER_CONFIG.MAX_HISTORY_RECORDS) {
+        profile.learningHistory = profile.learningHistory
+          .sort((a, b) => b.studiedAt - a.studiedAt)
+          .slice(0, LEARNER_CONFIG.MAX_HISTORY_RECORDS)
+      }
+
+      profile.updatedAt = Date.now()
+      await getLearnerStore().save(profile)
+      return record
+    })
+  }
+
+  /**
+   * 获取学习者档案，尚未保存过的学习者返回默认档案
+   */
+  async getProfile(learnerId: string): Promise<LearnerProfile> {
+    this.assertValidId(learnerId)
+    return this.load(learnerId)
+  }
+
+  /**
+   * 更新学习者档案，只修改请求中出现的字段
+   * 所在班级锁定了辅导模式时，退出或更换班级需要老师的管理口令（classAdmin）
+   */
+  async updateProfile(learnerId: string, input: unknown, options: { classAdmin?: boolean } = {}): Promise<LearnerProfile> {
+    this.assertValidId(learnerId)
+
+    const { profile: changes, errors } = validateProfileInput(input)
+    if (!changes) {
+      throw createError('学习者档案校验失败', 400, 'VALIDATION_ERROR', errors)
+    }
+
+    return this.serialize(learnerId, async () => {
+      const existing = await this.load(learnerId)
+      const leavingClass = 'classId' in changes && changes.classId !== existing.classId
+      if (leavingClass && !options.classAdmin && classService.getLockedMode(existing.classId)) {
+        throw createError('班级锁定了辅导模式，退出或更换班级需要老师的管理口令', 403, 'CLASS_LOCKED')
+      }
+
+      const profile = { ...existing, ...changes, updatedAt: Date.now() }
+      await getLearnerStore().save(profile)
+      console.log(`[Learner] Profile updated: ${learnerId}`)
+      return profile
+    })
+  }
+
+  /**
+   * 记录一轮对话：更新学习时间；understandingScore（0-5）存在时与原有理解程度取平均
+   */
+  recordChatTurn(learnerId: string, theoremId: string, understandingScore?: number): Promise<LearningRecord> {
+    return this.updateRecord(learnerId, theoremId, record => {
+      if (understandingScore !== undefined) {
+        record.understandingLevel = clampLevel((record.understandingLevel + understandingScore) / 2)
+      }
+    })
+  }
+
+  /**
+   * 今天（服务器时间当天结束前）到期的复习，最早到期的排在前面；已删除的定理跳过
+   */
+  async getDueReviews(learnerId: string): Promise<DueReview[]> {
+    this.assertValidId(learnerId)
+    await ragService.initialize()
+
+    const dayEnd = new Date()
+    dayEnd.setHours(23, 59, 59, 999)
+
+    const profile = await this.load(learnerId)
+    const reviews: DueReview[] = []
+    for (const record of profile.learningHistory) {
+      if (!isDue(record, dayEnd.getTime())) continue
+      const theorem = ragService.getTheoremById(record.theoremId)
+      if (theorem) reviews.push({ record, theorem })
+    }
+
+    return reviews
+      .sort((a, b) => getNextReviewAt(a.record) - getNextReviewAt(b.record))
+      .slice(0, REVIEW_CONFIG.MAX_DAILY_REVIEWS)
+  }
+
+  /**
+   * 记录一次复习的回忆评分（0-5），按 SM-2 安排下次复习并调整理解程度
+   */
+  async recordReview(learnerId: string, theoremId: string, grade: unknown): Promise<LearningRecord> {
+    if (!isRecallGrade(grade)) {
+      throw createError('grade 必须是 0-5 的整数', 400, 'VALIDATION_ERROR')
+    }
+
+    await ragService.initialize()
+    if (!ragService.getTheoremById(theoremId)) {
+      throw createError('未找到指定的定理', 404, 'NOT_FOUND')
+    }
+
+    return this.updateRecord(learnerId, theoremId, record => {
+      applyReview(record, grade as RecallGrade)
+      record.understandingLevel = clampLevel((record.understandingLevel + Math.max(1, grade)) / 2)
+    })
+  }
+
+  /**
+   * 记录一次练习：score 为本次得分（0-1），累计正确率并据此调整理解程度
+   */
+  recordExercise(learnerId: string, theoremId: string, score: number): Promise<LearningRecord> {
+    const normalized = Math.min(1, Math.max(0, score))
+    return this.updateRecord(learnerId, theoremId, record => {
+      record.practiceCount += 1
+      record.correctRate = (record.correctRate * (record.practiceCount - 1) + normalized) / record.practiceCount
+      record.understandingLevel = clampLevel((record.understandingLevel + 1 + record.correctRate * 4) / 2)
+    })
+  }
+}
+
+export default new LearnerService()
@@ -0,0 +1,115 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { LearnerProfile } from '../../shared/types'
+import { writeFileAtomic } from '../utils/fileWrite.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+/**
+ * 学习者档案存储接口
+ * 与会话存储一样全部为异步方法，便于接入数据库
+ */
+export interface LearnerStore {
+  get(learnerId: string): Promise<LearnerProfile | undefined>
+  save(profile: LearnerProfile): Promise<void>
+  delete(learnerId: string): Promise<void>
+}
+
+/**
+ * 内存学习者存储
+ * 进程重启后档案丢失，适合测试和离线开发
+ */
+export class MemoryLearnerStore implements LearnerStore {
+  private profiles = new Map<string, LearnerProfile>()
+
+  async get(learnerId: string): Promise<LearnerProfile | undefined> {
+    return this.profiles.get(learnerId)
+  }
+
+  async save(profile: LearnerProfile): Promise<void> {
+    this.profiles.set(profile.id, profile)
+  }
+
+  async delete(learnerId: string): Promise<void> {
+    this.profiles.delete(learnerId)
+  }
+}
+
+/**
+ * 文件学习者存储（默认）
+ * 每个学习者保存为一个 JSON 文件
+ */
+export class FileLearnerStore implements LearnerStore {
+  private dir: string
+
+  constructor(dir: string) {
+    this.dir = dir
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  /**
+   * 学习者ID来自客户端，只保留安全字符作为文件名
+   */
+  private filePath(learnerId: string): string {
+    const safeId = encodeURIComponent(learnerId).replace(/%/g, '_')
+    return path.join(this.dir, `${safeId}.json`)
+  }
+
+  async get(learnerId: string): Promise<LearnerProfile | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.filePath(learnerId), 'utf-8')
+      return JSON.parse(content)
+    } catch (e) {
+      return undefined
+    }
+  }
+
+  async save(profile: LearnerProfile): Promise<void> {
+    await writeFileAtomic(this.filePath(profile.id), JSON.stringify(profile))
+  }
+
+  async delete(learnerId: string): Promise<void> {
+    await fs.promises.rm(this.filePath(learnerId), { force: true })
+  }
+}
+
+/**
+ * 根据环境变量创建学习者存储
+ * LEARNER_STORE=file|memory，LEARNER_DIR 指定文件存储目录
+ */
+export function createLearnerStore(): LearnerStore {
+  const type = (process.env.LEARNER_STORE || 'file').toLowerCase()
+
+  if (type === 'memory') {
+    console.log('[Learner] Using memory store')
+    return new MemoryLearnerStore()
+  }
+
+  const dir = process.env.LEARNER_DIR || path.join(__dirname, '../../../data/learners')
+  console.log('[Learner] Using file store:', dir)
+  return new FileLearnerStore(dir)
+}
+
+let store: LearnerStore | null = null
+
+/**
+ * 获取学习者存储单例
+ * 延迟创建，确保 dotenv 已加载环境变量
+ */
+export function getLearnerStore(): LearnerStore {
+  if (!store) {
+    store = createLearnerStore()
+  }
+  return store
+}
+
+/**
+ * 替换学习者存储（用于自定义后端）
+ */
+export function setLearnerStore(custom: LearnerStore): void {
+  store = custom
+}
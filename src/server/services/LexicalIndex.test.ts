@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { RAG_CONFIG } from '../../shared/constants'
+import { LexicalIndex, fuseRankings, tokenize } from './LexicalIndex.ts'
+
+describe('tokenize', () => {
+  it('中文按单字和相邻两字，英文和数字按单词', () => {
+    expect(tokenize('勾股定理')).toEqual(['勾', '勾股', '股', '股定', '定', '定理', '理'])
+    expect(tokenize('F=ma, x2')).toEqual(['f', 'ma', 'x2'])
+  })
+
+  it('去掉提问中的虚词', () => {
+    expect(tokenize('什么是惯性')).toEqual(['是惯', '惯', '惯性', '性'])
+  })
+})
+
+function createIndex(): LexicalIndex {
+  const index = new LexicalIndex()
+  index.add('pythagorean', '勾股定理 直角三角形 两直角边的平方和等于斜边的平方')
+  index.add('newton1', '牛顿第一定律 惯性定律 物体保持静止或匀速直线运动')
+  index.add('newton2', '牛顿第二定律 加速度与合外力成正比 F=ma')
+  return index
+}
+
+describe('LexicalIndex', () => {
+  it('按 BM25 分数排序，分数归一化到 0-1', () => {
+    const results = createIndex().search('牛顿第二定律', 10)
+
+    // 勾股定理只命中单字"定"，排在最后
+    expect(results.map(r => r.id)).toEqual(['newton2', 'newton1', 'pythagorean'])
+    for (const r of results) {
+      expect(r.score).toBeGreaterThan(0)
+      expect(r.score).toBeLessThanOrEqual(1)
+    }
+    expect(results[0].score).toBeGreaterThan(results[1].score)
+    expect(results[2].score).toBeLessThan(RAG_CONFIG.LEXICAL_THRESHOLD)
+  })
+
+  it('少见的词权重更高', () => {
+    // "惯性" 只出现在一个文档中，"定律" 出现在两个文档中
+    const results = createIndex().search('惯性 定律', 10)
+    expect(results[0].id).toBe('newton1')
+  })
+
+  it('按 topK 截取并应用过滤条件', () => {
+    const index = createIndex()
+    expect(index.search('定理 定律', 1)).toHaveLength(1)
+    expect(index.search('牛顿', 10, id => id !== 'newton2').map(r => r.id)).toEqual(['newton1'])
+  })
+
+  it('替换和删除文档后更新索引', () => {
+    const index = createIndex()
+    index.add('newton2', '欧姆定律 电流 电压')
+
+    expect(index.size).toBe(3)
+    expect(index.search('合外力', 10)).toEqual([])
+    expect(index.search('电压', 10).map(r => r.id)).toEqual(['newton2'])
+
+    expect(index.remove('newton2')).toBe(true)
+    expect(index.remove('newton2')).toBe(false)
+    expect(index.size).toBe(2)
+    expect(index.search('电压', 10)).toEqual([])
+  })
+
+  it('空索引或查询只有虚词时没有结果', () => {
+    expect(new LexicalIndex().search('勾股定理', 10)).toEqual([])
+    expect(createIndex().search('什么', 10)).toEqual([])
+  })
+})
+
+describe('fuseRankings', () => {
+  const k = RAG_CONFIG.RRF_K
+
+  it('两路都排第一的条目得满分，只在一路出现的分数减半', () => {
+    const results = fuseRankings([
+      { ranking: [{ id: 'a' }, { id: 'b' }], weight: 1 },
+      { ranking: [{ id: 'a' }, { id: 'c' }], weight: 1 }
+    ], 10)
+
+    expect(results[0]).toEqual({ id: 'a', score: 1 })
+    expect(results.find(r => r.id === 'b')?.score).toBeCloseTo((k + 1) / (k + 2) / 2)
+    expect(results.find(r => r.id === 'c')?.score).toBeCloseTo((k + 1) / (k + 2) / 2)
+  })
+
+  it('在两路中都靠前的条目排在只在一路排第一的条目之前', () => {
+    const results = fuseRankings([
+      { ranking: [{ id: 'only' }, { id: 'both' }], weight: 1 },
+      { ranking: [{ id: 'other' }, { id: 'both' }], weight: 1 }
+    ], 10)
+
+    expect(results[0].id).toBe('both')
+  })
+
+  it('空的一路不参与归一化', () => {
+    const results = fuseRankings([
+      { ranking: [], weight: 1 },
+      { ranking: [{ id: 'a' }], weight: 1 }
+    ], 10)
+
+    expect(results).toEqual([{ id: 'a', score: 1 }])
+    expect(fuseRankings([{ ranking: [], weight: 1 }], 10)).toEqual([])
+  })
+
+  it('权重高的一路影响更大', () => {
+    const results = fuseRankings([
+      { ranking: [{ id: 'vector' }], weight: 2 },
+      { ranking: [{ id: 'lexical' }], weight: 1 }
+    ], 10)
+
+    expect(results.map(r => r.id)).toEqual(['vector', 'lexical'])
+    expect(results[0].score).toBeCloseTo(2 / 3)
+  })
+
+  it('加成在截取 topK 之前应用，分数不超过 1', () => {
+    const results = fuseRankings([
+      { ranking: [{ id: 'a' }, { id: 'b' }], weight: 1 }
+    ], 1, id => (id === 'b' ? 2 : 1))
+
+    expect(results).toEqual([{ id: 'b', score: 1 }])
+  })
+})
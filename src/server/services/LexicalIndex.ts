@@ -0,0 +1,170 @@
+import { RAG_CONFIG } from '../../shared/constants'
+
+// 提问中常见的虚词，不参与匹配
+const STOP_TERMS = new Set([
+  '的', '了', '是', '吗', '呢', '吧', '啊', '么', '什', '怎', '样', '如', '何', '请', '这', '那', '个', '我', '你',
+  '什么', '怎么', '怎样', '么样', '如何', '为什', '请问', '一下', '这个', '那个', '我们', '你们', '是什', '么是'
+])
+
+/**
+ * 分词：英文和数字按单词，中文按单字和相邻两字
+ * 中文不做词典分词，单字保证召回，两字组合保证定理名、术语的精确匹配排在前面
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  const lower = text.toLowerCase()
+
+  for (const word of lower.match(/[a-z0-9]+/g) || []) {
+    tokens.push(word)
+  }
+
+  for (const run of lower.match(/[一-鿿]+/g) || []) {
+    const chars = Array.from(run)
+    for (let i = 0; i < chars.length; i++) {
+      tokens.push(chars[i])
+      if (i + 1 < chars.length) {
+        tokens.push(chars[i] + chars[i + 1])
+      }
+    }
+  }
+
+  return tokens.filter(token => !STOP_TERMS.has(token))
+}
+
+export interface LexicalMatch {
+  id: string
+  score: number // 归一化到 0-1
+}
+
+interface IndexedDocument {
+  termFreqs: Map<string, number>
+  length: number
+}
+
+const K1 = 1.2
+const B = 0.75
+
+/**
+ * BM25 关键词索引
+ */
+export class LexicalIndex {
+  private documents = new Map<string, IndexedDocument>()
+  private docFreqs = new Map<string, number>()
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  /**
+   * 添加或替换文档
+   */
+  add(id: string, text: string): void {
+    this.remove(id)
+
+    const tokens = tokenize(text)
+    const termFreqs = new Map<string, number>()
+    for (const token of tokens) {
+      termFreqs.set(token, (termFreqs.get(token) || 0) + 1)
+    }
+
+    for (const term of termFreqs.keys()) {
+      this.docFreqs.set(term, (this.docFreqs.get(term) || 0) + 1)
+    }
+
+    this.documents.set(id, { termFreqs, length: tokens.length })
+    this.totalLength += tokens.length
+  }
+
+  remove(id: string): boolean {
+    const doc = this.documents.get(id)
+    if (!doc) return false
+
+    for (const term of doc.termFreqs.keys()) {
+      const df = (this.docFreqs.get(term) || 1) - 1
+      if (df > 0) {
+        this.docFreqs.set(term, df)
+      } else {
+        this.docFreqs.delete(term)
+      }
+    }
+
+    this.documents.delete(id)
+    this.totalLength -= doc.length
+    return true
+  }
+
+  private idf(term: string): number {
+    const n = this.documents.size
+    const df = this.docFreqs.get(term) || 0
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5))
+  }
+
+  /**
+   * 检索
+   * 分数除以查询词全部命中时的理论上限，不同查询之间的分数可以用同一个阈值比较
+   */
+  search(query: string, topK: number, filter?: (id: string) => boolean): LexicalMatch[] {
+    if (this.documents.size === 0) return []
+
+    const queryTerms = Array.from(new Set(tokenize(query)))
+    if (queryTerms.length === 0) return []
+
+    const idfs = new Map(queryTerms.map(term => [term, this.idf(term)]))
+    const maxScore = queryTerms.reduce((sum, term) => sum + idfs.get(term)! * (K1 + 1), 0)
+    if (maxScore <= 0) return []
+
+    const avgLength = this.totalLength / this.documents.size
+    const results: LexicalMatch[] = []
+
+    for (const [id, doc] of this.documents) {
+      if (filter && !filter(id)) continue
+
+      let score = 0
+      for (const term of queryTerms) {
+        const tf = doc.termFreqs.get(term)
+        if (!tf) continue
+        const norm = tf + K1 * (1 - B + B * (doc.length / avgLength))
+        score += idfs.get(term)! * (tf * (K1 + 1)) / norm
+      }
+
+      if (score > 0) {
+        results.push({ id, score: score / maxScore })
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score)
+    return results.slice(0, topK)
+  }
+}
+
+export interface WeightedRanking {
+  ranking: Array<{ id: string }> // 按分数从高到低排列
+  weight: number
+}
+
+/**
+ * 倒数排名融合：score = Σ weight / (k + rank)
+ * 分数除以参与融合的各路都排第一时的分数，归一化到 0-1；加成在截取 topK 之前应用，归一化后不超过 1
+ */
+export function fuseRankings(
+  rankings: WeightedRanking[],
+  topK: number,
+  boost?: (id: string) => number
+): LexicalMatch[] {
+  const fused = new Map<string, number>()
+  let activeWeight = 0
+  for (const { ranking, weight } of rankings) {
+    if (ranking.length > 0) activeWeight += weight
+    ranking.forEach((r, index) => {
+      fused.set(r.id, (fused.get(r.id) || 0) + weight / (RAG_CONFIG.RRF_K + index + 1))
+    })
+  }
+  const maxFused = activeWeight / (RAG_CONFIG.RRF_K + 1)
+
+  return Array.from(fused.entries())
+    .map(([id, score]) => [id, boost ? score * boost(id) : score] as const)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([id, score]) => ({ id, score: maxFused > 0 ? Math.min(1, score / maxFused) : 0 }))
+}
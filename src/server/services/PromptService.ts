@@ -0,0 +1,355 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type {
+  PromptPreviewRequest,
+  PromptPreviewResult,
+  PromptTemplate,
+  PromptTemplateSummary,
+  PromptVariableName,
+  PromptVariables,
+  TutoringMode
+} from '../../shared/types'
+import { GRADE_ADAPTATION, PROMPT_CONFIG, PROMPT_VARIABLES, TUTORING_MODES } from '../../shared/constants'
+import type { GradeLevel } from '../../shared/constants'
+import { isTutoringMode, TUTORING_MODE_IDS } from './TutoringModes.ts'
+import { createError } from '../middleware/errorHandler.ts'
+import { writeFileAtomic, createWriteQueue } from '../utils/fileWrite.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const SYSTEM_TEMPLATE_ID = 'system'
+const TEMPLATE_IDS = [
+  SYSTEM_TEMPLATE_ID,
+  ...TUTORING_MODE_IDS.map(mode => `mode-${mode}`),
+  ...Object.values(GRADE_ADAPTATION).map(grade => grade.promptId)
+]
+
+// 只能在基础提示词中使用的变量（其他模板渲染后填入这些变量）
+const SYSTEM_ONLY_VARIABLES: PromptVariableName[] = ['modeInstructions', 'gradeInstructions']
+
+/**
+ * 年级对应的讲解要求模板；年级为空或未知时返回 undefined
+ */
+function getGradeTemplateId(gradeLevel?: string): string | undefined {
+  return GRADE_ADAPTATION[gradeLevel as GradeLevel]?.promptId
+}
+
+const VARIABLE_NAMES = Object.keys(PROMPT_VARIABLES) as PromptVariableName[]
+
+// {{变量}}、{{#变量}}、{{/变量}}
+const TAG_PATTERN = /\{\{([#/]?)([^{}]*)\}\}/g
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g
+
+// 预览时使用的示例变量，只填入对应模式实际会用到的内容
+const SAMPLE_VARIABLES: PromptVariables = {
+  subject: '数学',
+  gradeLevel: '初中',
+  reviewContext: '今天到期需要复习的内容：勾股定理、一元二次方程求根公式',
+  ragContext: '以下是相关知识库内容，请参考这些内容进行回答：\n\n[1] 勾股定理\n描述：直角三角形两直角边的平方和等于斜边的平方\n公式：a² + b² = c²\n',
+  guidingQuestions: '1. 直角三角形三条边之间有什么关系？\n2. 你能用拼图的方法验证这个关系吗？',
+  dialogueProgress: '## 引导进度\n当前阶段：摸底提问\n本轮要求：先了解学生已有的认识。提出一个开放性问题，请学生说说自己的想法，暂时不要完整讲解。'
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * 提示词模板服务 - 老师人设、各模式的教学要求和各年级的讲解要求保存为带版本的模板文件
+ * 每个模板一个 JSON 文件，新版本追加到 versions 中，切换 activeVersion 即可发布或回滚
+ * 内置模板随代码发布（PROMPTS_DIR，默认 data/prompts），在管理面板中修改后的模板保存到运行时目录
+ * （PROMPT_VERSIONS_DIR，默认 data/prompt-versions），加载时优先使用运行时目录中的文件
+ */
+export class PromptService {
+  private templates: Map<string, PromptTemplate> | null = null
+  private serialize = createWriteQueue()
+
+  private get defaultsDirPath(): string {
+    return process.env.PROMPTS_DIR || path.join(__dirname, '../../../data/prompts')
+  }
+
+  private get versionsDirPath(): string {
+    return process.env.PROMPT_VERSIONS_DIR || path.join(__dirname, '../../../data/prompt-versions')
+  }
+
+  private load(): Map<string, PromptTemplate> {
+    if (!this.templates) {
+      this.templates = new Map()
+      for (const id of TEMPLATE_IDS) {
+        const savedPath = path.join(this.versionsDirPath, `${id}.json`)
+        const filePath = fs.existsSync(savedPath) ? savedPath : path.join(this.defaultsDirPath, `${id}.json`)
+        if (fs.existsSync(filePath)) {
+          this.templates.set(id, JSON.parse(fs.readFileSync(filePath, 'utf-8')))
+        } else {
+          console.error(`[Prompt] Template file missing: ${filePath}`)
+        }
+      }
+    }
+    return this.templates
+  }
+
+  private async persist(template: PromptTemplate): Promise<void> {
+    await writeFileAtomic(path.join(this.versionsDirPath, `${template.id}.json`), JSON.stringify(template, null, 2) + '\n')
+  }
+
+  private findTemplate(templateId: string): PromptTemplate {
+    const template = this.load().get(templateId)
+    if (!template) {
+      throw createError('提示词模板不存在', 404, 'PROMPT_NOT_FOUND')
+    }
+    return template
+  }
+
+  private getActiveContent(templateId: string): string {
+    const template = this.findTemplate(templateId)
+    const active = template.versions.find(v => v.version === template.activeVersion)
+    if (!active) {
+      throw createError(`提示词模板 ${templateId} 的启用版本不存在`, 500, 'PROMPT_VERSION_NOT_FOUND')
+    }
+    return active.content
+  }
+
+  /**
+   * 检查模板语法：只能使用已定义的变量，区块标记必须成对出现
+   */
+  validateContent(templateId: string, content: string): string[] {
+    const errors: string[] = []
+    const open: string[] = []
+
+    for (const match of content.matchAll(TAG_PATTERN)) {
+      const [tag, kind, name] = match
+      if (!(VARIABLE_NAMES as string[]).includes(name)) {
+        errors.push(`未知变量 ${tag}，可用变量：${VARIABLE_NAMES.join('、')}`)
+        continue
+      }
+      if ((SYSTEM_ONLY_VARIABLES as string[]).includes(name) && templateId !== SYSTEM_TEMPLATE_ID) {
+        errors.push(`{{${name}}} 只能在基础提示词（system）中使用`)
+      }
+      if (kind === '#') {
+        open.push(name)
+      } else if (kind === '/') {
+        if (open[open.length - 1] !== name) {
+          errors.push(`${tag} 没有对应的 {{#${name}}}`)
+        } else {
+          open.pop()
+        }
+      }
+    }
+    for (const name of open) {
+      errors.push(`{{#${name}}} 缺少结束标记 {{/${name}}}`)
+    }
+    return errors
+  }
+
+  /**
+   * 渲染模板：先处理区块（变量为空时整段省略，支持嵌套），再替换变量，最后合并多余的空行
+   * 变量值只替换一次，其中的花括号（如 LaTeX）不会被当作模板标记
+   */
+  render(content: string, variables: PromptVariables): string {
+    let result = content
+    let previous: string
+    do {
+      previous = result
+      result = result.replace(SECTION_PATTERN, (_match, name: PromptVariableName, body: string) =>
+        variables[name]?.trim() ? body : ''
+      )
+    } while (result !== previous)
+
+    return result
+      .replace(VARIABLE_PATTERN, (_match, name: PromptVariableName) => variables[name] ?? '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  /**
+   * 生成发送给模型的系统提示词：当前模式和学习者年级的模板渲染后分别填入基础提示词的
+   * {{modeInstructions}} 和 {{gradeInstructions}}
+   */
+  buildSystemPrompt(mode: TutoringMode, variables: PromptVariables): string {
+    const gradeTemplateId = getGradeTemplateId(variables.gradeLevel)
+    return this.renderSystem({
+      system: this.getActiveContent(SYSTEM_TEMPLATE_ID),
+      mode: this.getActiveContent(`mode-${mode}`),
+      grade: gradeTemplateId ? this.getActiveContent(gradeTemplateId) : ''
+    }, { ...variables, mode: TUTORING_MODES[mode].name }).rendered
+  }
+
+  private renderSystem(
+    contents: { system: string; mode: string; grade: string },
+    variables: PromptVariables
+  ): PromptPreviewResult {
+    const vars: PromptVariables = { ...variables, modeInstructions: '', gradeInstructions: '' }
+    vars.modeInstructions = this.render(contents.mode, vars)
+    vars.gradeInstructions = contents.grade ? this.render(contents.grade, vars) : ''
+    return { rendered: this.render(contents.system, vars), variables: vars }
+  }
+
+  /**
+   * 模板列表
+   */
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    return TEMPLATE_IDS
+      .map(id => this.load().get(id))
+      .filter((template): template is PromptTemplate => !!template)
+      .map(template => ({
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        activeVersion: template.activeVersion,
+        latestVersion: Math.max(...template.versions.map(v => v.version)),
+        updatedAt: template.updatedAt
+      }))
+  }
+
+  /**
+   * 获取模板及全部历史版本
+   */
+  async getTemplate(templateId: string): Promise<PromptTemplate> {
+    return this.findTemplate(templateId)
+  }
+
+  /**
+   * 保存新版本；activate 为 true 时立即用于对话
+   */
+  async createVersion(templateId: string, input: unknown): Promise<PromptTemplate> {
+    this.findTemplate(templateId)
+
+    const errors: string[] = []
+    if (!isObject(input)) {
+      errors.push('请求体必须是 { content, note?, activate? } 对象')
+    } else {
+      if (typeof input.content !== 'string' || !input.content.trim()) {
+        errors.push('content 不能为空')
+      } else if (input.content.length > PROMPT_CONFIG.MAX_CONTENT_LENGTH) {
+        errors.push(`content 不能超过 ${PROMPT_CONFIG.MAX_CONTENT_LENGTH} 个字符`)
+      } else {
+        errors.push(...this.validateContent(templateId, input.content))
+      }
+      if (input.note !== undefined && (typeof input.note !== 'string' || input.note.length > PROMPT_CONFIG.MAX_NOTE_LENGTH)) {
+        errors.push(`note 必须是不超过 ${PROMPT_CONFIG.MAX_NOTE_LENGTH} 个字符的字符串`)
+      }
+      if (input.activate !== undefined && typeof input.activate !== 'boolean') {
+        errors.push('activate 必须是布尔值')
+      }
+    }
+    if (errors.length > 0 || !isObject(input)) {
+      throw createError('提示词模板校验失败', 400, 'VALIDATION_ERROR', errors)
+    }
+
+    return this.serialize(async () => {
+      const template = this.findTemplate(templateId)
+      const now = Date.now()
+      const version = Math.max(0, ...template.versions.map(v => v.version)) + 1
+
+      let versions = [
+        ...template.versions,
+        { version, content: input.content, note: input.note?.trim() || undefined, createdAt: now }
+      ]
+      const activeVersion = input.activate ? version : template.activeVersion
+      // 超出上限时丢弃最早的版本，启用中的版本始终保留
+      while (versions.length > PROMPT_CONFIG.MAX_VERSIONS) {
+        const index = versions.findIndex(v => v.version !== activeVersion)
+        versions = versions.filter((_, i) => i !== index)
+      }
+
+      const updated: PromptTemplate = { ...template, activeVersion, versions, updatedAt: now }
+      await this.persist(updated)
+      this.load().set(templateId, updated)
+      console.log(`[Prompt] ${templateId} saved version ${version}${input.activate ? ' (active)' : ''}`)
+      return updated
+    })
+  }
+
+  /**
+   * 切换对话使用的版本，用于发布草稿或回滚
+   */
+  async activateVersion(templateId: string, version: unknown): Promise<PromptTemplate> {
+    this.findTemplate(templateId)
+    if (typeof version !== 'number' || !Number.isInteger(version)) {
+      throw createError('提示词模板校验失败', 400, 'VALIDATION_ERROR', ['version 必须是整数'])
+    }
+
+    return this.serialize(async () => {
+      const template = this.findTemplate(templateId)
+      if (!template.versions.some(v => v.version === version)) {
+        throw createError(`版本 ${version} 不存在`, 404, 'PROMPT_VERSION_NOT_FOUND')
+      }
+
+      const updated: PromptTemplate = { ...template, activeVersion: version, updatedAt: Date.now() }
+      await this.persist(updated)
+      this.load().set(templateId, updated)
+      console.log(`[Prompt] ${templateId} activated version ${version}`)
+      return updated
+    })
+  }
+
+  /**
+   * 用示例变量预览完整的系统提示词；content 为未保存的草稿，不传时预览当前启用的版本
+   * 预览模式模板时使用该模式，预览年级模板时使用该年级，其余默认使用引导模式和示例年级
+   */
+  async preview(templateId: string, input: unknown): Promise<PromptPreviewResult> {
+    this.findTemplate(templateId)
+    const request: PromptPreviewRequest = isObject(input) ? input : {}
+
+    const errors: string[] = []
+    if (request.content !== undefined) {
+      if (typeof request.content !== 'string') {
+        errors.push('content 必须是字符串')
+      } else {
+        errors.push(...this.validateContent(templateId, request.content))
+      }
+    }
+    if (request.mode !== undefined && !isTutoringMode(request.mode)) {
+      errors.push(`mode 必须是 ${TUTORING_MODE_IDS.join('、')} 之一`)
+    }
+    if (request.variables !== undefined) {
+      if (!isObject(request.variables)) {
+        errors.push('variables 必须是对象')
+      } else {
+        for (const [name, value] of Object.entries(request.variables)) {
+          if (!(VARIABLE_NAMES as string[]).includes(name) || typeof value !== 'string') {
+            errors.push(`variables.${name} 不是可用的字符串变量`)
+          }
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw createError('提示词模板校验失败', 400, 'VALIDATION_ERROR', errors)
+    }
+
+    const mode: TutoringMode = templateId.startsWith('mode-')
+      ? templateId.slice('mode-'.length) as TutoringMode
+      : request.mode || 'socratic'
+    const gradeLevel = (Object.keys(GRADE_ADAPTATION) as GradeLevel[])
+      .find(grade => GRADE_ADAPTATION[grade].promptId === templateId)
+      || request.variables?.gradeLevel
+      || SAMPLE_VARIABLES.gradeLevel
+    const variables: PromptVariables = {
+      subject: SAMPLE_VARIABLES.subject,
+      ragContext: SAMPLE_VARIABLES.ragContext,
+      ...(mode === 'review' ? { reviewContext: SAMPLE_VARIABLES.reviewContext } : {}),
+      ...(mode === 'socratic'
+        ? { guidingQuestions: SAMPLE_VARIABLES.guidingQuestions, dialogueProgress: SAMPLE_VARIABLES.dialogueProgress }
+        : {}),
+      ...request.variables,
+      gradeLevel,
+      mode: TUTORING_MODES[mode].name
+    }
+
+    // 正在编辑的模板使用草稿，其余使用当前启用的版本
+    const contentOf = (id: string | undefined) => {
+      if (!id) return ''
+      return id === templateId && request.content !== undefined ? request.content : this.getActiveContent(id)
+    }
+    return this.renderSystem({
+      system: contentOf(SYSTEM_TEMPLATE_ID),
+      mode: contentOf(`mode-${mode}`),
+      grade: contentOf(getGradeTemplateId(gradeLevel))
+    }, variables)
+  }
+}
+
+export default new PromptService()
@@ -1,8 +1,13 @@
 import fs from 'fs'
 import path from 'path'
 import { fileURLToPath } from 'url'
-import type { Theorem, Document, EmbeddingVector } from '../../shared/types'
-import modelscopeService from './ModelScopeService.ts'
+import type { Theorem, Document, EmbeddingVector, DocumentChunk, Citation, DifficultyLevel } from '../../shared/types'
+import { getEmbeddingProvider, resolveApiKey } from './llm/index.ts'
+import { EmbeddingCache } from './EmbeddingCache.ts'
+import { LexicalIndex, fuseRankings } from './LexicalIndex.ts'
+import { migrateKnowledgeItems, KNOWLEDGE_SCHEMA_VERSION } from './KnowledgeMigrator.ts'
+import type { LexicalMatch } from './LexicalIndex.ts'
+import { RAG_CONFIG, CHUNK_CONFIG, SUBJECT_NAMES } from '../../shared/constants'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -10,11 +15,35 @@ const __dirname = path.dirname(__filename)
 // 项目根目录
 const PROJECT_ROOT = path.resolve(__dirname, '../../../')
 
+// 检索到的定理
+export type ScoredTheorem = Theorem & { relevanceScore: number }
+
+// 检索到的文档片段
+export type ScoredChunk = DocumentChunk & { relevanceScore: number }
+
+// 按学习者年级调整定理检索：只保留 difficulties 中难度的定理，preferred 难度的定理排序加成
+export interface DifficultyPreference {
+  difficulties: DifficultyLevel[]
+  preferred?: DifficultyLevel
+}
+
+/**
+ * 上传的长文档按片段检索，不再把整篇文档当作一个定理
+ */
+function isChunkedDocument(theorem: Theorem): boolean {
+  return (theorem.chunkCount || 0) > 0
+}
+
 export class RAGService {
   private theorems: Map<string, Theorem> = new Map()
   private embeddings: Map<string, number[]> = new Map()
   private isInitialized = false
   private apiKey: string = ''
+  private embeddingCache: EmbeddingCache | null = null
+  private lexicalIndex = new LexicalIndex()
+  private chunks: Map<string, DocumentChunk> = new Map()
+  private chunkEmbeddings: Map<string, number[]> = new Map()
+  private chunkIndex = new LexicalIndex()
 
   /**
    * 设置API密钥
@@ -35,21 +64,29 @@ export class RAGService {
     console.log('[RAG] Initializing knowledge base...')
 
     try {
-      // 加载数学知识库
-      await this.loadKnowledgeFile('math.json')
-      // 加载物理知识库
-      await this.loadKnowledgeFile('physics.json')
-      // 加载化学知识库
-      await this.loadKnowledgeFile('chemistry.json')
-      // 加载逻辑知识库
-      await this.loadKnowledgeFile('logic.json')
+      // 加载各学科知识库和未指定学科的上传文档；先读取全部文件，升级旧结构时可以解析跨文件的引用
+      const files = [...Object.keys(SUBJECT_NAMES).map(category => `${category}.json`), 'uploaded_documents.json']
+      const rawFiles = new Map<string, unknown>()
+      for (const filename of files) {
+        const data = this.readKnowledgeFile(filename)
+        if (data !== undefined) rawFiles.set(filename, data)
+      }
+      const allRecords = [...rawFiles.values()]
+        .flatMap(data => (Array.isArray(data) ? data : [data]))
+        .filter((record): record is Record<string, any> => typeof record === 'object' && record !== null)
+      for (const [filename, data] of rawFiles) {
+        this.loadKnowledgeItems(filename, data, allRecords)
+      }
 
       console.log(`[RAG] Loaded ${this.theorems.size} theorems`)
 
+      // 加载上传文档的片段
+      this.loadChunkFiles()
+
       // 生成向量嵌入
       await this.generateEmbeddings()
 
-      console.log(`[RAG] Generated ${this.embeddings.size} embeddings`)
+      console.log(`[RAG] Generated ${this.embeddings.size} theorem embeddings, ${this.chunkEmbeddings.size} chunk embeddings`)
       console.log('[RAG] Initialization complete!')
 
       this.isInitialized = true
@@ -60,122 +97,490 @@ export class RAGService {
   }
 
   /**
-   * 加载知识库文件
+   * 读取知识库文件，文件不存在或无法解析时返回 undefined
    */
-  private async loadKnowledgeFile(filename: string): Promise<void> {
+  private readKnowledgeFile(filename: string): unknown {
     const filePath = path.join(PROJECT_ROOT, 'data/knowledge', filename)
 
+    // 没有条目的学科和第一次上传前的 uploaded_documents.json 不存在
     if (!fs.existsSync(filePath)) {
-      console.warn(`[RAG] Knowledge file not found: ${filename}`)
-      return
+      return undefined
     }
 
     try {
-      const content = fs.readFileSync(filePath, 'utf-8')
-      const data: Theorem[] = JSON.parse(content)
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    } catch (error) {
+      console.error(`[RAG] Error loading ${filename}:`, error)
+      return undefined
+    }
+  }
 
-      for (const theorem of data) {
-        this.theorems.set(theorem.id, theorem)
+  /**
+   * 加载知识库文件中的条目，allRecords 为全部文件的原始条目
+   */
+  private loadKnowledgeItems(filename: string, content: unknown, allRecords: Array<Record<string, any>>): void {
+    // 旧结构（如上传文档的 snake_case 字段、写成名称的前置知识）在加载时统一升级
+    const { items: data, migrated } = migrateKnowledgeItems(content, allRecords)
+    if (migrated > 0) {
+      console.log(`[RAG] Upgraded ${migrated} items in ${filename} to schema v${KNOWLEDGE_SCHEMA_VERSION} (run npm run migrate:knowledge to rewrite the file)`)
+    }
+
+    for (const theorem of data) {
+      this.theorems.set(theorem.id, theorem)
+      if (!isChunkedDocument(theorem)) {
+        this.lexicalIndex.add(theorem.id, this.buildLexicalText(theorem))
       }
+    }
 
-      console.log(`[RAG] Loaded ${data.length} theorems from ${filename}`)
-    } catch (error) {
-      console.error(`[RAG] Error loading ${filename}:`, error)
+    console.log(`[RAG] Loaded ${data.length} theorems from ${filename}`)
+  }
+
+  /**
+   * 加载文档片段（data/knowledge/chunks 下每个文档一个文件）
+   */
+  private loadChunkFiles(): void {
+    const chunksDir = path.join(PROJECT_ROOT, 'data/knowledge/chunks')
+    if (!fs.existsSync(chunksDir)) return
+
+    for (const file of fs.readdirSync(chunksDir)) {
+      if (!file.endsWith('.json')) continue
+
+      try {
+        const data: DocumentChunk[] = JSON.parse(fs.readFileSync(path.join(chunksDir, file), 'utf-8'))
+        for (const chunk of data) {
+          this.addChunk(chunk)
+        }
+      } catch (error) {
+        console.error(`[RAG] Error loading chunks from ${file}:`, error)
+      }
     }
+
+    console.log(`[RAG] Loaded ${this.chunks.size} document chunks`)
+  }
+
+  private addChunk(chunk: DocumentChunk): void {
+    this.chunks.set(chunk.id, chunk)
+    this.chunkIndex.add(chunk.id, this.buildChunkText(chunk))
   }
 
   /**
-   * 生成所有定理的向量嵌入
+   * 片段文本带上文档标题和章节标题，便于按标题检索
    */
-  private async generateEmbeddings(): Promise<void> {
-    const texts: Array<{ id: string; text: string }> = []
+  private buildChunkText(chunk: DocumentChunk): string {
+    return [chunk.title, chunk.heading || '', chunk.content].join('\n')
+  }
 
-    for (const [id, theorem] of this.theorems) {
-      // 组合文本用于嵌入
-      const combinedText = `
+  /**
+   * 客户端填写的密钥只在嵌入提供方为 ModelScope 时使用
+   */
+  private getEmbeddingApiKey(): string | undefined {
+    return resolveApiKey(getEmbeddingProvider(), { modelScopeApiKey: this.apiKey })
+  }
+
+  /**
+   * 获取向量缓存（EMBEDDING_CACHE_PATH 指定文件位置）
+   */
+  private getEmbeddingCache(): EmbeddingCache {
+    if (!this.embeddingCache) {
+      const cachePath = process.env.EMBEDDING_CACHE_PATH
+        || path.join(PROJECT_ROOT, 'data/cache/embeddings.json')
+      this.embeddingCache = new EmbeddingCache(cachePath)
+    }
+    return this.embeddingCache
+  }
+
+  /**
+   * 组合定理文本用于嵌入
+   */
+  private buildEmbeddingText(theorem: Theorem): string {
+    return `
 ${theorem.theorem}
 ${theorem.description}
 ${theorem.embeddingText}
 ${theorem.keywords.join(' ')}
-      `.trim()
+    `.trim()
+  }
+
+  /**
+   * 组合定理文本用于关键词索引，定理名重复一次以提高权重
+   */
+  private buildLexicalText(theorem: Theorem): string {
+    return [
+      theorem.theorem,
+      theorem.theorem,
+      theorem.description || '',
+      (theorem.keywords || []).join(' '),
+      theorem.embeddingText || ''
+    ].join('\n')
+  }
+
+  /**
+   * 检索参数，可用环境变量覆盖默认值
+   */
+  private getRetrievalConfig() {
+    const readNumber = (name: string, fallback: number): number => {
+      const value = parseFloat(process.env[name] || '')
+      return Number.isFinite(value) ? value : fallback
+    }
+
+    return {
+      vectorWeight: readNumber('RAG_VECTOR_WEIGHT', RAG_CONFIG.VECTOR_WEIGHT),
+      lexicalWeight: readNumber('RAG_LEXICAL_WEIGHT', RAG_CONFIG.LEXICAL_WEIGHT),
+      vectorThreshold: readNumber('RAG_VECTOR_THRESHOLD', RAG_CONFIG.VECTOR_THRESHOLD),
+      lexicalThreshold: readNumber('RAG_LEXICAL_THRESHOLD', RAG_CONFIG.LEXICAL_THRESHOLD)
+    }
+  }
 
-      texts.push({ id, text: combinedText })
+  /**
+   * 生成向量并写入 target，命中磁盘缓存的条目不再请求嵌入服务
+   * 返回是否成功（嵌入服务不可用时返回 false）
+   */
+  private async embedItems(
+    items: Array<{ id: string; text: string }>,
+    target: Map<string, number[]>
+  ): Promise<boolean> {
+    const provider = getEmbeddingProvider()
+    const apiKey = this.getEmbeddingApiKey()
+    if (!provider.isAvailable(apiKey)) {
+      return false
     }
 
+    const model = `${provider.name}:${provider.embeddingModel}`
+    const cache = this.getEmbeddingCache()
+    const missing: Array<{ id: string; text: string }> = []
+
+    for (const item of items) {
+      const cached = cache.get(item.id, item.text, model)
+      if (cached) {
+        target.set(item.id, cached)
+      } else {
+        missing.push(item)
+      }
+    }
+
+    console.log(`[RAG] Embedding cache hits: ${items.length - missing.length}, to generate: ${missing.length}`)
+
     // 批量生成嵌入（每次最多10个）
     const batchSize = 10
-    for (let i = 0; i < texts.length; i += batchSize) {
-      const batch = texts.slice(i, i + batchSize)
+    for (let i = 0; i < missing.length; i += batchSize) {
+      const batch = missing.slice(i, i + batchSize)
       const batchTexts = batch.map(t => t.text)
 
       try {
-        const embeddings = await modelscopeService.generateEmbeddingsBatch(batchTexts, this.apiKey)
+        const embeddings = await provider.embed(batchTexts, apiKey)
 
         for (let j = 0; j < batch.length; j++) {
-          this.embeddings.set(batch[j].id, embeddings[j])
+          target.set(batch[j].id, embeddings[j])
+          cache.set(batch[j].id, batch[j].text, model, embeddings[j])
         }
       } catch (error) {
         console.error('[RAG] Error generating embeddings for batch:', error)
       }
     }
+
+    return true
+  }
+
+  private async saveEmbeddingCache(): Promise<void> {
+    try {
+      await this.getEmbeddingCache().save()
+    } catch (error) {
+      console.error('[RAG] Failed to save embedding cache:', error)
+    }
+  }
+
+  /**
+   * 生成所有定理和文档片段的向量嵌入
+   * 内容和模型都未变化的条目直接使用磁盘缓存
+   */
+  private async generateEmbeddings(): Promise<void> {
+    const theoremItems = Array.from(this.theorems.values())
+      .filter(theorem => !isChunkedDocument(theorem))
+      .map(theorem => ({ id: theorem.id, text: this.buildEmbeddingText(theorem) }))
+    const chunkItems = Array.from(this.chunks.values())
+      .map(chunk => ({ id: chunk.id, text: this.buildChunkText(chunk) }))
+
+    const available = await this.embedItems(theoremItems, this.embeddings)
+    if (!available) {
+      console.warn('[RAG] Embedding provider unavailable, using lexical retrieval only')
+      return
+    }
+    await this.embedItems(chunkItems, this.chunkEmbeddings)
+
+    this.getEmbeddingCache().prune(new Set([...this.theorems.keys(), ...this.chunks.keys()]))
+    await this.saveEmbeddingCache()
+  }
+
+  /**
+   * 新增或更新单个定理并立即生成向量，上传文档后无需重启即可检索
+   * 尚未初始化时跳过，初始化会从知识库文件中读取
+   */
+  async upsertTheorem(theorem: Theorem): Promise<void> {
+    if (!this.isInitialized) return
+
+    this.theorems.set(theorem.id, theorem)
+    this.lexicalIndex.remove(theorem.id)
+    this.embeddings.delete(theorem.id)
+
+    if (isChunkedDocument(theorem)) return
+
+    this.lexicalIndex.add(theorem.id, this.buildLexicalText(theorem))
+
+    const text = this.buildEmbeddingText(theorem)
+    const available = await this.embedItems([{ id: theorem.id, text }], this.embeddings)
+    if (!available) {
+      console.warn('[RAG] Embedding provider unavailable, theorem indexed without vector:', theorem.id)
+      return
+    }
+
+    await this.saveEmbeddingCache()
+    console.log('[RAG] Upserted theorem:', theorem.id)
+  }
+
+  /**
+   * 从索引中移除定理及其向量
+   */
+  async removeTheorem(id: string): Promise<boolean> {
+    const existed = this.theorems.delete(id)
+    this.lexicalIndex.remove(id)
+    this.embeddings.delete(id)
+
+    this.getEmbeddingCache().delete(id)
+    await this.saveEmbeddingCache()
+
+    if (existed) {
+      console.log('[RAG] Removed theorem:', id)
+    }
+    return existed
+  }
+
+  /**
+   * 替换某个文档的全部片段并生成向量
+   */
+  async upsertChunks(documentId: string, chunks: DocumentChunk[]): Promise<void> {
+    if (!this.isInitialized) return
+
+    this.removeChunksFromIndex(documentId)
+    for (const chunk of chunks) {
+      this.addChunk(chunk)
+    }
+
+    const items = chunks.map(chunk => ({ id: chunk.id, text: this.buildChunkText(chunk) }))
+    const available = await this.embedItems(items, this.chunkEmbeddings)
+    if (!available) {
+      console.warn('[RAG] Embedding provider unavailable, chunks indexed without vectors:', documentId)
+      return
+    }
+
+    await this.saveEmbeddingCache()
+    console.log(`[RAG] Upserted ${chunks.length} chunks for document:`, documentId)
+  }
+
+  /**
+   * 移除某个文档的全部片段
+   */
+  async removeDocumentChunks(documentId: string): Promise<number> {
+    const removed = this.removeChunksFromIndex(documentId)
+    if (removed > 0) {
+      await this.saveEmbeddingCache()
+      console.log(`[RAG] Removed ${removed} chunks for document:`, documentId)
+    }
+    return removed
+  }
+
+  private removeChunksFromIndex(documentId: string): number {
+    let count = 0
+    for (const [id, chunk] of this.chunks) {
+      if (chunk.documentId !== documentId) continue
+
+      this.chunks.delete(id)
+      this.chunkIndex.remove(id)
+      this.chunkEmbeddings.delete(id)
+      this.getEmbeddingCache().delete(id)
+      count++
+    }
+    return count
+  }
+
+  /**
+   * 生成查询向量，嵌入服务不可用或出错时返回 null（只用关键词检索）
+   */
+  private async embedQuery(query: string): Promise<number[] | null> {
+    const provider = getEmbeddingProvider()
+    const apiKey = this.getEmbeddingApiKey()
+    if (!provider.isAvailable(apiKey)) return null
+
+    try {
+      const [queryEmbedding] = await provider.embed([query], apiKey)
+      return queryEmbedding
+    } catch (error) {
+      console.error('[RAG] Vector retrieval error, falling back to lexical only:', error)
+      return null
+    }
+  }
+
+  /**
+   * 关键词（BM25）和向量两路检索，按倒数排名融合
+   * 返回的分数归一化到 0-1
+   */
+  private rankHybrid(
+    query: string,
+    queryEmbedding: number[] | null,
+    lexicalIndex: LexicalIndex,
+    embeddings: Map<string, number[]>,
+    topK: number,
+    filter?: (id: string) => boolean,
+    boost?: (id: string) => number
+  ): Array<{ id: string; score: number }> {
+    const config = this.getRetrievalConfig()
+
+    // 关键词检索
+    const lexicalRanking: LexicalMatch[] = lexicalIndex
+      .search(query, RAG_CONFIG.CANDIDATES, filter)
+      .filter(r => r.score >= config.lexicalThreshold)
+
+    // 向量检索
+    let vectorRanking: Array<{ id: string; score: number }> = []
+    if (queryEmbedding) {
+      for (const [id, embedding] of embeddings) {
+        if (filter && !filter(id)) continue
+
+        const score = this.cosineSimilarity(queryEmbedding, embedding)
+        if (score > config.vectorThreshold) {
+          vectorRanking.push({ id, score })
+        }
+      }
+
+      vectorRanking.sort((a, b) => b.score - a.score)
+      vectorRanking = vectorRanking.slice(0, RAG_CONFIG.CANDIDATES)
+    }
+
+    return fuseRankings([
+      { ranking: vectorRanking, weight: config.vectorWeight },
+      { ranking: lexicalRanking, weight: config.lexicalWeight }
+    ], topK, boost)
+  }
+
+  private rankTheorems(
+    query: string,
+    queryEmbedding: number[] | null,
+    topK: number,
+    category?: string,
+    preference?: DifficultyPreference
+  ): ScoredTheorem[] {
+    // 没有标注难度的条目（如上传文档）不按难度过滤
+    const filter = category || preference
+      ? (id: string) => {
+        const theorem = this.theorems.get(id)
+        if (!theorem) return false
+        if (category && theorem.category !== category) return false
+        return !preference || !theorem.difficulty || preference.difficulties.includes(theorem.difficulty)
+      }
+      : undefined
+    const boost = preference?.preferred
+      ? (id: string) => this.theorems.get(id)?.difficulty === preference.preferred
+        ? 1 + RAG_CONFIG.PREFERRED_DIFFICULTY_BOOST
+        : 1
+      : undefined
+
+    return this.rankHybrid(query, queryEmbedding, this.lexicalIndex, this.embeddings, topK, filter, boost)
+      .map(r => ({
+        ...this.theorems.get(r.id)!,
+        relevanceScore: r.score
+      }))
+  }
+
+  private rankChunks(query: string, queryEmbedding: number[] | null, topK: number, category?: string): ScoredChunk[] {
+    const filter = category
+      ? (id: string) => this.chunks.get(id)?.category === category
+      : undefined
+
+    return this.rankHybrid(query, queryEmbedding, this.chunkIndex, this.chunkEmbeddings, topK, filter)
+      .map(r => ({
+        ...this.chunks.get(r.id)!,
+        relevanceScore: r.score
+      }))
   }
 
   /**
    * 检索相关定理
+   * 关键词（BM25）和向量两路检索，按倒数排名融合；没有可用的嵌入服务时只用关键词检索
    */
-  async retrieveDocuments(query: string, topK: number = 5, category?: string): Promise<Theorem[]> {
-    // 检查API密钥
-    if (!this.apiKey) {
-      console.warn('[RAG] No API key provided, skipping RAG retrieval')
-      return []
+  async retrieveDocuments(query: string, topK: number = 5, category?: string): Promise<ScoredTheorem[]> {
+    if (!this.isInitialized) {
+      await this.initialize()
     }
 
+    const queryEmbedding = this.embeddings.size > 0 ? await this.embedQuery(query) : null
+    return this.rankTheorems(query, queryEmbedding, topK, category)
+  }
+
+  /**
+   * 检索上传文档的片段
+   */
+  async retrieveChunks(query: string, topK: number = CHUNK_CONFIG.CONTEXT_CHUNKS, category?: string): Promise<ScoredChunk[]> {
     if (!this.isInitialized) {
       await this.initialize()
     }
 
-    try {
-      // 生成查询向量
-      const queryEmbedding = await modelscopeService.generateEmbedding(query, this.apiKey)
+    const queryEmbedding = this.chunkEmbeddings.size > 0 ? await this.embedQuery(query) : null
+    return this.rankChunks(query, queryEmbedding, topK, category)
+  }
 
-      // 计算相似度
-      const similarities: Array<{ id: string; score: number }> = []
+  /**
+   * 同时检索定理和文档片段，查询向量只生成一次；preference 按学习者年级调整定理检索
+   */
+  async retrieveContext(query: string, category?: string, preference?: DifficultyPreference): Promise<{
+    theorems: ScoredTheorem[]
+    chunks: ScoredChunk[]
+  }> {
+    if (!this.isInitialized) {
+      await this.initialize()
+    }
 
-      for (const [id, embedding] of this.embeddings) {
-        // 按类别过滤
-        if (category) {
-          const theorem = this.theorems.get(id)
-          if (theorem?.category !== category) continue
-        }
+    const hasVectors = this.embeddings.size > 0 || this.chunkEmbeddings.size > 0
+    const queryEmbedding = hasVectors ? await this.embedQuery(query) : null
 
-        const score = modelscopeService.cosineSimilarity(queryEmbedding, embedding)
-        similarities.push({ id, score })
-      }
+    return {
+      theorems: this.rankTheorems(query, queryEmbedding, 3, category, preference),
+      chunks: this.rankChunks(query, queryEmbedding, CHUNK_CONFIG.CONTEXT_CHUNKS, category)
+    }
+  }
 
-      // 排序并取前K个
-      similarities.sort((a, b) => b.score - a.score)
-      const topKResults = similarities.slice(0, topK)
-
-      // 返回定理详情
-      return topKResults
-        .filter(r => r.score > 0.3) // 相似度阈值
-        .map(r => ({
-          ...this.theorems.get(r.id)!,
-          relevanceScore: r.score
-        } as any))
-    } catch (error) {
-      console.error('[RAG] Retrieval error:', error)
-      return []
+  /**
+   * 计算余弦相似度
+   */
+  private cosineSimilarity(vec1: number[], vec2: number[]): number {
+    if (vec1.length !== vec2.length) {
+      throw new Error('向量长度不一致')
+    }
+
+    let dotProduct = 0
+    let norm1 = 0
+    let norm2 = 0
+
+    for (let i = 0; i < vec1.length; i++) {
+      dotProduct += vec1[i] * vec2[i]
+      norm1 += vec1[i] * vec1[i]
+      norm2 += vec2[i] * vec2[i]
     }
+
+    return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2))
   }
 
   /**
    * 构建RAG上下文
    */
   async buildRAGContext(query: string, category?: string): Promise<string> {
-    const theorems = await this.retrieveDocuments(query, 3, category)
+    const { theorems, chunks } = await this.retrieveContext(query, category)
+    return this.formatRAGContext(theorems, chunks)
+  }
 
-    if (theorems.length === 0) {
+  /**
+   * 将检索到的定理格式化为RAG上下文
+   */
+  formatRAGContext(theorems: Theorem[], chunks: DocumentChunk[] = []): string {
+    if (theorems.length === 0 && chunks.length === 0) {
       return ''
     }
 
@@ -189,9 +594,44 @@ ${theorem.keywords.join(' ')}
       context += `常见错误：${theorem.commonMistakes.map(m => m.mistake).join('；')}\n\n`
     }
 
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i]
+      const heading = chunk.heading ? ` - ${chunk.heading}` : ''
+      const page = chunk.page ? `（第${chunk.page}页）` : ''
+      context += `[${theorems.length + i + 1}] 《${chunk.title}》${heading}${page}\n`
+      context += `${chunk.content}\n\n`
+    }
+
     return context
   }
 
+  /**
+   * 生成与 formatRAGContext 编号一致的引用来源列表，用于把回复中的 [n] 解析回定理或文档片段
+   */
+  buildCitationSources(theorems: Theorem[], chunks: DocumentChunk[] = []): Citation[] {
+    const sources: Citation[] = theorems.map((theorem, i) => ({
+      index: i + 1,
+      kind: 'theorem',
+      theoremId: theorem.id,
+      title: theorem.theorem
+    }))
+
+    chunks.forEach((chunk, i) => {
+      sources.push({
+        index: theorems.length + i + 1,
+        kind: 'chunk',
+        theoremId: chunk.documentId,
+        title: chunk.title,
+        chunkId: chunk.id,
+        heading: chunk.heading,
+        page: chunk.page,
+        excerpt: chunk.content.length > 200 ? `${chunk.content.substring(0, 200)}...` : chunk.content
+      })
+    })
+
+    return sources
+  }
+
   /**
    * 获取定理详情
    */
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { LearningRecord } from '../../shared/types'
+import { REVIEW_CONFIG } from '../../shared/constants'
+import { applyReview, ensureScheduled, getNextReviewAt, isDue, isRecallGrade } from './ReviewScheduler.ts'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 1)
+
+function record(overrides: Partial<LearningRecord> = {}): LearningRecord {
+  return {
+    theoremId: 'math_pythagorean_001',
+    studiedAt: NOW,
+    understandingLevel: 3,
+    practiceCount: 0,
+    correctRate: 0,
+    ...overrides
+  }
+}
+
+describe('isRecallGrade', () => {
+  it('只接受 0 到 5 的整数', () => {
+    expect([0, 3, 5].every(isRecallGrade)).toBe(true)
+    expect([-1, 6, 2.5, '3', undefined].some(isRecallGrade)).toBe(false)
+  })
+})
+
+describe('ensureScheduled', () => {
+  it('首次学习后隔 FIRST_INTERVAL_DAYS 天复习', () => {
+    const item = record()
+    ensureScheduled(item, NOW)
+
+    expect(item.repetitions).toBe(0)
+    expect(item.easeFactor).toBe(REVIEW_CONFIG.INITIAL_EASE)
+    expect(item.nextReviewAt).toBe(NOW + REVIEW_CONFIG.FIRST_INTERVAL_DAYS * DAY)
+  })
+
+  it('已排期的记录不变', () => {
+    const item = record({ nextReviewAt: NOW + 10 * DAY, repetitions: 4 })
+    ensureScheduled(item, NOW)
+
+    expect(item.nextReviewAt).toBe(NOW + 10 * DAY)
+    expect(item.repetitions).toBe(4)
+  })
+})
+
+describe('applyReview', () => {
+  it('连续回忆成功时间隔依次为 1 天、6 天，之后乘以增长系数', () => {
+    const item = record()
+    const intervals: number[] = []
+    for (let i = 0; i < 4; i++) {
+      applyReview(item, 4, NOW)
+      intervals.push(item.intervalDays!)
+    }
+
+    // 评分 4 时增长系数保持 2.5
+    expect(intervals).toEqual([1, 6, 15, 38])
+    expect(item.repetitions).toBe(4)
+    expect(item.easeFactor).toBeCloseTo(2.5)
+    expect(item.lastReviewedAt).toBe(NOW)
+    expect(item.nextReviewAt).toBe(NOW + 38 * DAY)
+  })
+
+  it('按评分调整增长系数', () => {
+    const easy = record()
+    applyReview(easy, 5, NOW)
+    expect(easy.easeFactor).toBeCloseTo(2.6)
+
+    const hard = record()
+    applyReview(hard, 3, NOW)
+    expect(hard.easeFactor).toBeCloseTo(2.36)
+  })
+
+  it('评分不及格时从头排期', () => {
+    const item = record({ repetitions: 5, intervalDays: 40, easeFactor: 2.5 })
+    applyReview(item, 2, NOW)
+
+    expect(item.repetitions).toBe(0)
+    expect(item.intervalDays).toBe(REVIEW_CONFIG.FIRST_INTERVAL_DAYS)
+    expect(item.nextReviewAt).toBe(NOW + REVIEW_CONFIG.FIRST_INTERVAL_DAYS * DAY)
+  })
+
+  it('增长系数不低于 MIN_EASE', () => {
+    const item = record()
+    for (let i = 0; i < 5; i++) applyReview(item, 0, NOW)
+    expect(item.easeFactor).toBe(REVIEW_CONFIG.MIN_EASE)
+  })
+})
+
+describe('isDue', () => {
+  it('排期功能上线前的记录按首次学习时间计算', () => {
+    const item = record()
+    expect(getNextReviewAt(item)).toBe(NOW + REVIEW_CONFIG.FIRST_INTERVAL_DAYS * DAY)
+    expect(isDue(item, NOW + DAY - 1)).toBe(false)
+    expect(isDue(item, NOW + DAY)).toBe(true)
+  })
+})
@@ -0,0 +1,64 @@
+import type { LearningRecord, RecallGrade } from '../../shared/types'
+import { REVIEW_CONFIG } from '../../shared/constants'
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function isRecallGrade(value: unknown): value is RecallGrade {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 5
+}
+
+/**
+ * 为尚未排期的记录安排第一次复习（首次学习后隔 FIRST_INTERVAL_DAYS 天）
+ */
+export function ensureScheduled(record: LearningRecord, now: number = Date.now()): void {
+  if (record.nextReviewAt !== undefined) return
+  record.repetitions = 0
+  record.easeFactor = REVIEW_CONFIG.INITIAL_EASE
+  record.intervalDays = REVIEW_CONFIG.FIRST_INTERVAL_DAYS
+  record.nextReviewAt = now + REVIEW_CONFIG.FIRST_INTERVAL_DAYS * DAY
+}
+
+/**
+ * 按 SM-2 根据本次回忆评分更新复习间隔：
+ * 评分不及格时从头排期；及格时间隔依次为 1 天、6 天，之后乘以增长系数
+ */
+export function applyReview(record: LearningRecord, grade: RecallGrade, now: number = Date.now()): void {
+  const ease = record.easeFactor ?? REVIEW_CONFIG.INITIAL_EASE
+  let repetitions = record.repetitions ?? 0
+  let interval: number
+
+  if (grade < REVIEW_CONFIG.PASSING_GRADE) {
+    repetitions = 0
+    interval = REVIEW_CONFIG.FIRST_INTERVAL_DAYS
+  } else {
+    if (repetitions === 0) {
+      interval = REVIEW_CONFIG.FIRST_INTERVAL_DAYS
+    } else if (repetitions === 1) {
+      interval = REVIEW_CONFIG.SECOND_INTERVAL_DAYS
+    } else {
+      interval = Math.round((record.intervalDays ?? REVIEW_CONFIG.SECOND_INTERVAL_DAYS) * ease)
+    }
+    repetitions += 1
+  }
+
+  const penalty = 5 - grade
+  record.easeFactor = Math.max(REVIEW_CONFIG.MIN_EASE, ease + 0.1 - penalty * (0.08 + penalty * 0.02))
+  record.repetitions = repetitions
+  record.intervalDays = interval
+  record.lastReviewedAt = now
+  record.nextReviewAt = now + interval * DAY
+}
+
+/**
+ * 下次复习时间；排期功能上线前的记录按首次学习后 FIRST_INTERVAL_DAYS 天计算
+ */
+export function getNextReviewAt(record: LearningRecord): number {
+  return record.nextReviewAt ?? record.studiedAt + REVIEW_CONFIG.FIRST_INTERVAL_DAYS * DAY
+}
+
+/**
+ * 是否应在今天（截至 dayEnd）复习
+ */
+export function isDue(record: LearningRecord, dayEnd: number): boolean {
+  return getNextReviewAt(record) <= dayEnd
+}
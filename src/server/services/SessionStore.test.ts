@@ -0,0 +1,119 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { ChatSession } from '../../shared/types'
+import { FileSessionStore, MemorySessionStore, isValidSessionId } from './SessionStore.ts'
+import type { SessionStore, SessionStoreOptions } from './SessionStore.ts'
+
+const HOUR = 60 * 60 * 1000
+
+function session(id: string, updatedAt: number = Date.now()): ChatSession {
+  return {
+    id,
+    messages: [{ id: `${id}-1`, role: 'user', content: '你好', timestamp: updatedAt }],
+    createdAt: updatedAt,
+    updatedAt
+  } as ChatSession
+}
+
+describe('isValidSessionId', () => {
+  it('只允许字母、数字、下划线和连字符', () => {
+    expect(isValidSessionId('session_123-abc')).toBe(true)
+    expect(isValidSessionId('../etc/passwd')).toBe(false)
+    expect(isValidSessionId('')).toBe(false)
+    expect(isValidSessionId('a'.repeat(65))).toBe(false)
+    expect(isValidSessionId(42)).toBe(false)
+  })
+})
+
+let dir: string
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'))
+})
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true })
+})
+
+const stores: Array<[string, (options?: SessionStoreOptions) => SessionStore]> = [
+  ['MemorySessionStore', options => new MemorySessionStore(options)],
+  ['FileSessionStore', options => new FileSessionStore(dir, options)]
+]
+
+describe.each(stores)('%s', (_name, createStore) => {
+  it('保存、读取和删除会话', async () => {
+    const store = createStore({ ttl: 0 })
+    await store.save(session('a'))
+
+    expect((await store.get('a'))?.messages[0].content).toBe('你好')
+    expect(await store.get('missing')).toBeUndefined()
+
+    await store.delete('a')
+    expect(await store.get('a')).toBeUndefined()
+  })
+
+  it('列出全部会话ID', async () => {
+    const store = createStore({ ttl: 0 })
+    await store.save(session('a'))
+    await store.save(session('b'))
+
+    expect((await store.listIds()).sort()).toEqual(['a', 'b'])
+  })
+
+  it('闲置超过 TTL 的会话读取时视为不存在并被清理', async () => {
+    const store = createStore({ ttl: HOUR })
+    await store.save(session('old', Date.now() - 2 * HOUR))
+    await store.save(session('fresh'))
+
+    expect(await store.get('old')).toBeUndefined()
+    expect(await store.listIds()).toEqual(['fresh'])
+  })
+
+  it('TTL 为 0 时永不过期', async () => {
+    const store = createStore({ ttl: 0 })
+    await store.save(session('old', 0))
+
+    expect(await store.purgeExpired()).toBe(0)
+    expect(await store.get('old')).toBeDefined()
+  })
+})
+
+describe('FileSessionStore', () => {
+  it('每个会话保存为一个 JSON 文件，其他实例可以读到', async () => {
+    await new FileSessionStore(dir, { ttl: 0 }).save(session('shared'))
+
+    expect(fs.existsSync(path.join(dir, 'shared.json'))).toBe(true)
+    expect(await new FileSessionStore(dir, { ttl: 0 }).get('shared')).toMatchObject({ id: 'shared' })
+  })
+
+  it('拒绝不能用作文件名的会话ID', async () => {
+    const store = new FileSessionStore(dir)
+    await expect(store.get('../outside')).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_SESSION_ID' })
+  })
+
+  it('忽略损坏的文件和文件名与会话ID不一致的文件', async () => {
+    const store = new FileSessionStore(dir, { ttl: 0 })
+    await store.save(session('good'))
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{')
+    fs.writeFileSync(path.join(dir, 'copy.json'), JSON.stringify(session('good')))
+
+    expect(await store.listIds()).toEqual(['good'])
+    expect(await store.get('broken')).toBeUndefined()
+    expect(await store.get('copy')).toBeUndefined()
+  })
+
+  it('按文件修改时间粗筛后清理过期会话', async () => {
+    const store = new FileSessionStore(dir, { ttl: HOUR })
+    await store.save(session('old', Date.now() - 2 * HOUR))
+    await store.save(session('touched', Date.now() - 2 * HOUR))
+    const past = (Date.now() - 2 * HOUR) / 1000
+    fs.utimesSync(path.join(dir, 'old.json'), past, past)
+
+    // touched.json 刚写入，修改时间未超过 TTL，不在这次清理范围内
+    expect(await store.purgeExpired()).toBe(1)
+    expect(fs.existsSync(path.join(dir, 'old.json'))).toBe(false)
+    expect(fs.existsSync(path.join(dir, 'touched.json'))).toBe(true)
+  })
+})
@@ -0,0 +1,231 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { ChatSession } from '../../shared/types'
+import { SESSION_CONFIG } from '../../shared/constants'
+import { createError } from '../middleware/errorHandler.ts'
+import { writeFileAtomic } from '../utils/fileWrite.ts'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+/**
+ * 会话存储接口
+ * 所有方法均为异步，便于接入文件、数据库等不同后端
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<ChatSession | undefined>
+  save(session: ChatSession): Promise<void>
+  delete(sessionId: string): Promise<void>
+  listIds(): Promise<string[]>
+  /** 清理闲置超过 TTL 的会话，返回清理数量 */
+  purgeExpired(): Promise<number>
+}
+
+export interface SessionStoreOptions {
+  ttl?: number // 毫秒，0 表示永不过期
+}
+
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/
+
+/**
+ * 会话ID来自客户端，只允许字母、数字、下划线和连字符（文件存储直接用作文件名）
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId)
+}
+
+function isExpired(session: ChatSession, ttl: number): boolean {
+  return ttl > 0 && Date.now() - session.updatedAt > ttl
+}
+
+/**
+ * 内存会话存储（默认）
+ * 进程重启后会话丢失
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ChatSession>()
+  private ttl: number
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.ttl = options.ttl ?? SESSION_CONFIG.TTL
+  }
+
+  async get(sessionId: string): Promise<ChatSession | undefined> {
+    const session = this.sessions.get(sessionId)
+    if (session && isExpired(session, this.ttl)) {
+      this.sessions.delete(sessionId)
+      return undefined
+    }
+    return session
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    this.sessions.set(session.id, session)
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId)
+  }
+
+  async listIds(): Promise<string[]> {
+    await this.purgeExpired()
+    return Array.from(this.sessions.keys())
+  }
+
+  async purgeExpired(): Promise<number> {
+    let count = 0
+    for (const [id, session] of this.sessions) {
+      if (isExpired(session, this.ttl)) {
+        this.sessions.delete(id)
+        count++
+      }
+    }
+    return count
+  }
+}
+
+/**
+ * 文件会话存储
+ * 每个会话保存为一个 JSON 文件，多个进程可共享同一目录
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string
+  private ttl: number
+
+  constructor(dir: string, options: SessionStoreOptions = {}) {
+    this.dir = dir
+    this.ttl = options.ttl ?? SESSION_CONFIG.TTL
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true })
+    }
+  }
+
+  private filePath(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) {
+      throw createError('会话ID只能包含字母、数字、下划线和连字符', 400, 'INVALID_SESSION_ID')
+    }
+    return path.join(this.dir, `${sessionId}.json`)
+  }
+
+  private readFile(filePath: string): ChatSession | undefined {
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8')
+      return JSON.parse(content)
+    } catch (e) {
+      return undefined
+    }
+  }
+
+  async get(sessionId: string): Promise<ChatSession | undefined> {
+    const filePath = this.filePath(sessionId)
+    if (!fs.existsSync(filePath)) {
+      return undefined
+    }
+
+    const session = this.readFile(filePath)
+    if (!session || session.id !== sessionId) {
+      return undefined
+    }
+    if (isExpired(session, this.ttl)) {
+      await this.delete(sessionId)
+      return undefined
+    }
+    return session
+  }
+
+  async save(session: ChatSession): Promise<void> {
+    await writeFileAtomic(this.filePath(session.id), JSON.stringify(session))
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.promises.rm(this.filePath(sessionId), { force: true })
+  }
+
+  async listIds(): Promise<string[]> {
+    await this.purgeExpired()
+    const ids: string[] = []
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue
+      const session = this.readFile(path.join(this.dir, file))
+      // 文件名与会话ID不一致的文件（如手动复制的）不列出
+      if (session && file === `${session.id}.json`) ids.push(session.id)
+    }
+    return ids
+  }
+
+  async purgeExpired(): Promise<number> {
+    if (this.ttl <= 0) return 0
+
+    let count = 0
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue
+      const filePath = path.join(this.dir, file)
+      // 用文件修改时间做粗筛，避免每次都解析全部会话
+      const stats = fs.statSync(filePath)
+      if (Date.now() - stats.mtimeMs <= this.ttl) continue
+
+      const session = this.readFile(filePath)
+      if (!session || isExpired(session, this.ttl)) {
+        await fs.promises.rm(filePath, { force: true })
+        count++
+      }
+    }
+    return count
+  }
+}
+
+/**
+ * 根据环境变量创建会话存储
+ * SESSION_STORE=memory|file，SESSION_DIR 指定文件存储目录，SESSION_TTL_HOURS 指定过期时间
+ */
+export function createSessionStore(): SessionStore {
+  const type = (process.env.SESSION_STORE || 'memory').toLowerCase()
+  const ttlHours = process.env.SESSION_TTL_HOURS
+  const ttl = ttlHours !== undefined && ttlHours !== ''
+    ? Number(ttlHours) * 60 * 60 * 1000
+    : SESSION_CONFIG.TTL
+
+  if (type === 'file') {
+    const dir = process.env.SESSION_DIR || path.join(__dirname, '../../../data/sessions')
+    console.log('[Session] Using file store:', dir)
+    return new FileSessionStore(dir, { ttl })
+  }
+
+  console.log('[Session] Using memory store')
+  return new MemorySessionStore({ ttl })
+}
+
+let store: SessionStore | null = null
+let cleanupTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * 获取会话存储单例
+ * 延迟创建，确保 dotenv 已加载环境变量
+ */
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    const created = createSessionStore()
+    store = created
+    cleanupTimer = setInterval(() => {
+      created.purgeExpired()
+        .then(count => {
+          if (count > 0) console.log(`[Session] Purged ${count} expired sessions`)
+        })
+        .catch(error => console.error('[Session] Purge error:', error))
+    }, SESSION_CONFIG.CLEANUP_INTERVAL)
+    cleanupTimer.unref?.()
+  }
+  return store
+}
+
+/**
+ * 替换会话存储（用于自定义后端）
+ */
+export function setSessionStore(custom: SessionStore): void {
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer)
+    cleanupTimer = null
+  }
+  store = custom
+}
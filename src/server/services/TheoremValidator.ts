@@ -0,0 +1,194 @@
+import type { Theorem, DifficultyLevel, SubjectCategory } from '../../shared/types'
+import { SUBJECT_NAMES, DIFFICULTY_LEVELS } from '../../shared/constants'
+import { KNOWLEDGE_SCHEMA_VERSION } from './KnowledgeMigrator.ts'
+
+export interface TheoremValidationOptions {
+  knownIds: Set<string> // 知识库中已有的条目ID
+  previous?: Theorem // 更新时的原条目，原有的引用不再重复检查
+}
+
+export interface TheoremValidationResult {
+  theorem?: Theorem
+  errors: string[]
+}
+
+// 允许编辑的引用字段，取值必须是已有条目的ID
+const REFERENCE_FIELDS = ['prerequisites', 'relatedTheorems'] as const
+
+const STRING_LIST_FIELDS = [
+  'socraticQuestions',
+  'prerequisites',
+  'prerequisiteConcepts',
+  'relatedTheorems',
+  'teachingTips',
+  'keywords'
+] as const
+
+/**
+ * 引用（prerequisites / relatedTheorems）是否指向已有条目；引用只能写条目ID，不按名称解析
+ */
+export function isKnownReference(reference: string, knownIds: { has(id: string): boolean }): boolean {
+  return knownIds.has(reference)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+/**
+ * 按 Theorem 类型校验单个知识条目，通过后返回补齐默认值的条目
+ * prerequisites / relatedTheorems 中新增的ID必须指向已有条目
+ */
+export function validateTheorem(input: unknown, options: TheoremValidationOptions): TheoremValidationResult {
+  if (!isObject(input)) {
+    return { errors: ['请求体必须是知识条目对象'] }
+  }
+
+  const errors: string[] = []
+
+  // 必填文本字段
+  if (!isNonEmptyString(input.id)) {
+    errors.push('id 不能为空')
+  } else if (!/^[\w-]+$/.test(input.id)) {
+    errors.push('id 只能包含字母、数字、下划线和连字符')
+  }
+  for (const field of ['theorem', 'topic', 'description'] as const) {
+    if (!isNonEmptyString(input[field])) {
+      errors.push(`${field} 不能为空`)
+    }
+  }
+
+  // 枚举字段
+  if (!Object.keys(SUBJECT_NAMES).includes(input.category)) {
+    errors.push(`category 必须是 ${Object.keys(SUBJECT_NAMES).join('、')} 之一`)
+  }
+  if (!DIFFICULTY_LEVELS.includes(input.difficulty)) {
+    errors.push(`difficulty 必须是 ${DIFFICULTY_LEVELS.join('、')} 之一`)
+  }
+
+  // 可选文本字段
+  for (const field of ['subject', 'formula', 'formulaLatex', 'embeddingText'] as const) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      errors.push(`${field} 必须是字符串`)
+    }
+  }
+
+  if (input.visualization !== undefined) {
+    const visualization = input.visualization
+    if (
+      !isObject(visualization) ||
+      typeof visualization.type !== 'string' ||
+      typeof visualization.description !== 'string' ||
+      !isStringList(visualization.widgets)
+    ) {
+      errors.push('visualization 必须包含 type、description 和 widgets 字符串数组')
+    }
+  }
+
+  // 结构化列表
+  if (input.proofSteps !== undefined) {
+    if (!Array.isArray(input.proofSteps)) {
+      errors.push('proofSteps 必须是数组')
+    } else {
+      input.proofSteps.forEach((step: unknown, i: number) => {
+        if (
+          !isObject(step) ||
+          typeof step.step !== 'number' ||
+          !isNonEmptyString(step.title) ||
+          !isNonEmptyString(step.content) ||
+          (step.visual !== undefined && typeof step.visual !== 'string')
+        ) {
+          errors.push(`proofSteps[${i}] 必须包含数字 step 以及非空的 title、content`)
+        }
+      })
+    }
+  }
+
+  if (input.examples !== undefined) {
+    if (!Array.isArray(input.examples)) {
+      errors.push('examples 必须是数组')
+    } else {
+      input.examples.forEach((example: unknown, i: number) => {
+        if (
+          !isObject(example) ||
+          !isNonEmptyString(example.problem) ||
+          !isNonEmptyString(example.solution) ||
+          (example.steps !== undefined && !isStringList(example.steps))
+        ) {
+          errors.push(`examples[${i}] 必须包含非空的 problem、solution，steps 为字符串数组`)
+        }
+      })
+    }
+  }
+
+  if (input.commonMistakes !== undefined) {
+    if (!Array.isArray(input.commonMistakes)) {
+      errors.push('commonMistakes 必须是数组')
+    } else {
+      input.commonMistakes.forEach((mistake: unknown, i: number) => {
+        if (!isObject(mistake) || !isNonEmptyString(mistake.mistake) || !isNonEmptyString(mistake.correction)) {
+          errors.push(`commonMistakes[${i}] 必须包含非空的 mistake、correction`)
+        }
+      })
+    }
+  }
+
+  for (const field of STRING_LIST_FIELDS) {
+    if (input[field] !== undefined && !isStringList(input[field])) {
+      errors.push(`${field} 必须是字符串数组`)
+    }
+  }
+
+  // 引用检查：原条目里已有的引用保持原样，新增的必须指向已有条目
+  for (const field of REFERENCE_FIELDS) {
+    if (!isStringList(input[field])) continue
+
+    const existing = new Set(options.previous?.[field] || [])
+    for (const ref of input[field]) {
+      if (ref === input.id) {
+        errors.push(`${field} 不能引用自身`)
+      } else if (!existing.has(ref) && !isKnownReference(ref, options.knownIds)) {
+        errors.push(`${field} 引用了不存在的条目: ${ref}`)
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  const category = input.category as SubjectCategory
+  const theorem: Theorem = {
+    id: input.id,
+    category,
+    subject: input.subject || SUBJECT_NAMES[category],
+    topic: input.topic,
+    theorem: input.theorem,
+    difficulty: input.difficulty as DifficultyLevel,
+    description: input.description,
+    formula: input.formula || '',
+    formulaLatex: input.formulaLatex || '',
+    visualization: input.visualization || { type: '', description: '', widgets: [] },
+    proofSteps: input.proofSteps || [],
+    examples: input.examples || [],
+    commonMistakes: input.commonMistakes || [],
+    socraticQuestions: input.socraticQuestions || [],
+    prerequisites: input.prerequisites || [],
+    prerequisiteConcepts: input.prerequisiteConcepts || [],
+    relatedTheorems: input.relatedTheorems || [],
+    teachingTips: input.teachingTips || [],
+    keywords: input.keywords || [],
+    embeddingText: input.embeddingText || '',
+    schemaVersion: KNOWLEDGE_SCHEMA_VERSION
+  }
+
+  return { theorem, errors: [] }
+}
@@ -35,9 +35,45 @@ export class ThinkingService {
       result.suggestedSteps = this.generateGenericSteps(message)
     }
 
+    // 如果当前定理有公式和例题，生成可视化组件
+    if (currentTheorem) {
+      result.visualAids = this.buildVisualAids(currentTheorem)
+    }
+
     return result
   }
 
+  /**
+   * 根据定理生成可视化组件（公式、例题）
+   */
+  private buildVisualAids(theorem: Theorem): Widget[] {
+    const widgets: Widget[] = []
+
+    if (theorem.formulaLatex) {
+      widgets.push({
+        type: 'formula',
+        data: {
+          latex: theorem.formulaLatex,
+          description: theorem.theorem
+        }
+      })
+    }
+
+    const example = theorem.examples?.[0]
+    if (example) {
+      widgets.push({
+        type: 'example',
+        data: {
+          problem: example.problem,
+          solution: example.solution,
+          steps: example.steps
+        }
+      })
+    }
+
+    return widgets
+  }
+
   /**
    * 生成通用思考问题
    */
@@ -0,0 +1,15 @@
+import type { TutoringMode } from '../../shared/types'
+import { TUTORING_MODES } from '../../shared/constants'
+
+export const TUTORING_MODE_IDS = Object.keys(TUTORING_MODES) as TutoringMode[]
+
+export function isTutoringMode(value: unknown): value is TutoringMode {
+  return typeof value === 'string' && (TUTORING_MODE_IDS as string[]).includes(value)
+}
+
+/**
+ * 请求没有指定模式时：上传题目图片直接解题，其余使用苏格拉底式引导
+ */
+export function getDefaultMode(hasImages: boolean): TutoringMode {
+  return hasImages ? 'solve' : 'socratic'
+}
@@ -0,0 +1,112 @@
+import type { ApiKeys, LLMSelection, Theorem, UnderstandingAssessment, UnderstandingLabel } from '../../shared/types'
+import { UNDERSTANDING_SCORES } from '../../shared/constants'
+import { getRequestLLMProvider, resolveApiKey, resolveRequestModel, extractJsonObject } from './llm/index.ts'
+import thinkingService from './ThinkingService.ts'
+
+const LABELS: UnderstandingLabel[] = ['correct', 'partial', 'misconception', 'off_topic']
+
+// 老师上一轮的回复可能很长，只取结尾部分（通常是提问）
+const MAX_QUESTION_CHARS = 800
+
+export interface ClassifyInput {
+  answer: string // 学生本轮的消息
+  question?: string // 老师上一轮的回复
+  theorem?: Theorem // 正在讨论的定理，提供常见误区
+  apiKeys?: ApiKeys
+  llm?: LLMSelection
+}
+
+/**
+ * 理解判断服务 - 判断学生回答正确、部分正确、存在误解还是偏离话题
+ */
+export class UnderstandingClassifier {
+  /**
+   * 判断学生本轮回答的理解情况
+   * 没有上一轮老师的回复时学生是在提问而不是作答，直接使用关键词估计；模型不可用时同样回退
+   */
+  async classify(input: ClassifyInput): Promise<UnderstandingAssessment> {
+    if (input.question && input.answer.trim()) {
+      try {
+        const assessment = await this.classifyWithLLM(input)
+        if (assessment) {
+          return assessment
+        }
+        console.warn('[Understanding] LLM reply is not a valid assessment, using keyword heuristic')
+      } catch (error) {
+        console.warn('[Understanding] LLM classification failed, using keyword heuristic:', error)
+      }
+    }
+
+    return this.classifyByKeywords(input.answer)
+  }
+
+  /**
+   * 按“懂了”“不理解”等关键词估计，只能看出是否表达了理解或困惑
+   */
+  classifyByKeywords(answer: string): UnderstandingAssessment {
+    const score = thinkingService.detectUnderstanding(answer)
+    return {
+      label: score >= 4 ? 'correct' : 'partial',
+      confidence: score === 3 ? 0.2 : 0.5,
+      score,
+      classifiedBy: 'heuristic'
+    }
+  }
+
+  private async classifyWithLLM(input: ClassifyInput): Promise<UnderstandingAssessment | undefined> {
+    const { theorem } = input
+    const mistakes = theorem?.commonMistakes || []
+    const question = input.question!.slice(-MAX_QUESTION_CHARS)
+
+    const sections = [
+      `判断学生对老师上一轮提问的回答属于哪一类：
+- correct：回答正确，或清楚表达了正确的理解
+- partial：方向对但不完整，或只理解了一部分、仍有困惑
+- misconception：包含错误的认识（优先对照下面的常见误区）
+- off_topic：没有回应老师的问题，转到了其他话题`
+    ]
+    if (theorem) {
+      sections.push(`## 正在讨论的定理\n${theorem.theorem}：${theorem.description}${theorem.formula ? `\n公式：${theorem.formula}` : ''}`)
+    }
+    if (mistakes.length > 0) {
+      sections.push(`## 常见误区\n${mistakes.map((m, i) => `${i + 1}. ${m.mistake}（正确理解：${m.correction}）`).join('\n')}`)
+    }
+    sections.push(`## 老师上一轮的话\n${question}`)
+    sections.push(`## 学生的回答\n${input.answer}`)
+    sections.push('只输出一个 JSON 对象：{"label": "correct|partial|misconception|off_topic", "confidence": 0 到 1 之间的把握程度, "mistakeIndex": 命中的常见误区编号（没有命中填 null）, "reason": "一句话理由"}')
+
+    const provider = getRequestLLMProvider(input.llm?.provider)
+    const reply = await provider.chat({
+      messages: [
+        { role: 'system', content: '你是一位细心的教学评估助手，只按要求输出 JSON。' },
+        { role: 'user', content: sections.join('\n\n') }
+      ],
+      temperature: 0,
+      maxTokens: 300,
+      enableThinking: false,
+      model: resolveRequestModel(provider, input.llm?.model),
+      apiKey: resolveApiKey(provider, input.apiKeys)
+    })
+
+    const data = extractJsonObject(reply)
+    if (!data || !LABELS.includes(data.label)) {
+      return undefined
+    }
+
+    const label = data.label as UnderstandingLabel
+    const confidence = Number(data.confidence)
+    const mistakeIndex = Number(data.mistakeIndex)
+    const matchedMistake = Number.isInteger(mistakeIndex) ? mistakes[mistakeIndex - 1] : undefined
+
+    return {
+      label,
+      confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+      score: UNDERSTANDING_SCORES[label],
+      matchedMistake,
+      reason: typeof data.reason === 'string' && data.reason.trim() ? data.reason.trim() : undefined,
+      classifiedBy: 'llm'
+    }
+  }
+}
+
+export default new UnderstandingClassifier()
@@ -0,0 +1,163 @@
+import fs from 'fs'
+import { tokenize } from '../LexicalIndex.ts'
+import type { ChatOptions, LLMProvider, ModelMessage } from './types.ts'
+
+/**
+ * 脚本回复规则：match 为正则表达式（不区分大小写），命中最后一条用户消息时返回 reply
+ * reply 中的 {message} 会替换为用户消息
+ */
+export interface MockReplyRule {
+  match: string
+  reply: string
+}
+
+export interface MockConfig {
+  script?: MockReplyRule[]
+  embeddingDim?: number
+  chunkDelayMs?: number // 流式输出每个分片的间隔
+}
+
+const DEFAULT_REPLY = `（模拟回复）你问的是「{message}」。
+我们先别急着看答案：这个问题里已知什么、要求什么？试着说说你的第一步想法。`
+
+const STREAM_CHUNK_SIZE = 4
+
+/**
+ * 离线模拟提供方
+ * 回复由脚本或模板生成，向量为哈希词袋，结果完全确定，不访问网络
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const
+  readonly chatModel = 'mock-chat'
+  readonly embeddingModel: string
+  private script: MockReplyRule[]
+  private embeddingDim: number
+  private chunkDelayMs: number
+
+  constructor(config: MockConfig = {}) {
+    this.script = config.script || []
+    this.embeddingDim = config.embeddingDim || 256
+    this.chunkDelayMs = config.chunkDelayMs || 0
+    this.embeddingModel = `mock-bow-${this.embeddingDim}`
+
+    console.log('[Mock] Initialized')
+    console.log('[Mock] Script rules:', this.script.length)
+    console.log('[Mock] Embedding dimension:', this.embeddingDim)
+  }
+
+  /**
+   * 从 JSON 文件加载脚本回复规则
+   */
+  static loadScript(filePath: string): MockReplyRule[] {
+    try {
+      const rules = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      if (!Array.isArray(rules)) {
+        throw new Error('脚本文件必须是数组')
+      }
+      return rules.filter(rule => typeof rule?.match === 'string' && typeof rule?.reply === 'string')
+    } catch (error: any) {
+      console.error('[Mock] Failed to load script:', filePath, error.message)
+      return []
+    }
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  private getMessageText(msg: ModelMessage): string {
+    if (typeof msg.content === 'string') {
+      return msg.content
+    }
+    return msg.content
+      .filter(item => item.type === 'text')
+      .map(item => (item as { text: string }).text)
+      .join('\n')
+  }
+
+  /**
+   * 生成回复：命中第一条脚本规则，否则使用默认模板
+   */
+  private buildReply(messages: ModelMessage[]): string {
+    const lastUser = [...messages].reverse().find(msg => msg.role === 'user')
+    const message = lastUser ? this.getMessageText(lastUser).trim() : ''
+
+    const rule = this.script.find(r => {
+      try {
+        return new RegExp(r.match, 'i').test(message)
+      } catch {
+        return message.includes(r.match)
+      }
+    })
+
+    return (rule ? rule.reply : DEFAULT_REPLY).replace(/\{message\}/g, message)
+  }
+
+  private reportUsage(options: ChatOptions, reply: string): void {
+    if (!options.onUsage) return
+
+    const promptTokens = options.messages.reduce(
+      (sum, msg) => sum + tokenize(this.getMessageText(msg)).length,
+      0
+    )
+    const completionTokens = tokenize(reply).length
+    options.onUsage({
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    })
+  }
+
+  /**
+   * 普通对话
+   */
+  async chat(options: ChatOptions): Promise<string> {
+    const reply = this.buildReply(options.messages)
+    this.reportUsage(options, reply)
+    return reply
+  }
+
+  /**
+   * 流式对话（按固定长度切分回复）
+   */
+  async *chatStream(options: ChatOptions): AsyncGenerator<string, void, unknown> {
+    const reply = this.buildReply(options.messages)
+    const chars = Array.from(reply)
+
+    for (let i = 0; i < chars.length; i += STREAM_CHUNK_SIZE) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs))
+      }
+      yield chars.slice(i, i + STREAM_CHUNK_SIZE).join('')
+    }
+
+    this.reportUsage(options, reply)
+  }
+
+  /**
+   * 哈希词袋向量（L2 归一化），相同文本总是得到相同向量
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array<number>(this.embeddingDim).fill(0)
+      for (const token of tokenize(text)) {
+        vector[fnv1a(token) % this.embeddingDim] += 1
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+      return norm > 0 ? vector.map(v => v / norm) : vector
+    })
+  }
+}
+
+/**
+ * FNV-1a 32 位哈希
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,186 @@
+import axios from 'axios'
+import type { ChatOptions, LLMProvider, ModelMessage } from './types.ts'
+
+export interface OllamaConfig {
+  baseURL: string
+  chatModel: string
+  embeddingModel: string
+}
+
+/**
+ * 本地部署模型（Ollama 原生 HTTP 接口 /api/chat、/api/embed）
+ * 不需要API密钥，适合校内离线部署
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const
+  readonly chatModel: string
+  readonly embeddingModel: string
+  private baseURL: string
+
+  constructor(config: OllamaConfig) {
+    this.baseURL = config.baseURL.replace(/\/+$/, '')
+    this.chatModel = config.chatModel
+    this.embeddingModel = config.embeddingModel
+
+    console.log('[Ollama] Initialized')
+    console.log('[Ollama] Base URL:', this.baseURL)
+    console.log('[Ollama] Chat Model:', this.chatModel)
+    console.log('[Ollama] Embedding Model:', this.embeddingModel)
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  /**
+   * 转换为 Ollama 消息格式：文本合并到 content，图片去掉 data URL 前缀放入 images
+   */
+  private toOllamaMessages(messages: ModelMessage[]): any[] {
+    return messages.map(msg => {
+      if (typeof msg.content === 'string') {
+        return { role: msg.role, content: msg.content }
+      }
+
+      const texts: string[] = []
+      const images: string[] = []
+      for (const item of msg.content) {
+        if (item.type === 'text') {
+          texts.push(item.text)
+        } else {
+          images.push(item.image_url.url.replace(/^data:[^;]+;base64,/, ''))
+        }
+      }
+
+      return images.length > 0
+        ? { role: msg.role, content: texts.join('\n'), images }
+        : { role: msg.role, content: texts.join('\n') }
+    })
+  }
+
+  private buildRequestBody(options: ChatOptions, stream: boolean): any {
+    return {
+      model: options.model || this.chatModel,
+      messages: this.toOllamaMessages(options.messages),
+      stream,
+      options: {
+        temperature: options.temperature || 0.7,
+        num_predict: options.maxTokens || 2000
+      }
+    }
+  }
+
+  private reportUsage(data: any, options: ChatOptions): void {
+    if (options.onUsage && (data.prompt_eval_count || data.eval_count)) {
+      options.onUsage({
+        promptTokens: data.prompt_eval_count,
+        completionTokens: data.eval_count,
+        totalTokens: (data.prompt_eval_count || 0) + (data.eval_count || 0)
+      })
+    }
+  }
+
+  private toError(error: any): Error {
+    const errorMessage = String(error.message || 'Unknown error')
+    console.error('[Ollama] Error message:', errorMessage)
+    if (error.code === 'ECONNREFUSED') {
+      return new Error(`无法连接本地模型服务 ${this.baseURL}，请确认 Ollama 已启动`)
+    }
+    return new Error(errorMessage)
+  }
+
+  /**
+   * 普通对话
+   */
+  async chat(options: ChatOptions): Promise<string> {
+    const startTime = Date.now()
+    console.log('[Ollama] Chat request, model:', options.model || this.chatModel)
+
+    try {
+      const response = await axios.post(
+        `${this.baseURL}/api/chat`,
+        this.buildRequestBody(options, false),
+        { timeout: 120000 }
+      )
+
+      this.reportUsage(response.data, options)
+      console.log('[Ollama] Chat completed in', Date.now() - startTime, 'ms')
+      return response.data.message?.content || ''
+    } catch (error: any) {
+      throw this.toError(error)
+    }
+  }
+
+  /**
+   * 流式对话（每行一个 JSON 对象）
+   */
+  async *chatStream(options: ChatOptions): AsyncGenerator<string, void, unknown> {
+    const startTime = Date.now()
+    console.log('[Ollama] Stream request, model:', options.model || this.chatModel)
+
+    try {
+      const response = await axios.post(
+        `${this.baseURL}/api/chat`,
+        this.buildRequestBody(options, true),
+        { responseType: 'stream', timeout: 120000 }
+      )
+
+      let buffer = ''
+
+      for await (const chunk of response.data) {
+        buffer += chunk.toString()
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const line of lines) {
+          if (!line.trim()) continue
+
+          try {
+            const parsed = JSON.parse(line)
+            if (parsed.error) {
+              throw new Error(parsed.error)
+            }
+
+            const content = parsed.message?.content
+            if (content) {
+              yield content
+            }
+
+            if (parsed.done) {
+              this.reportUsage(parsed, options)
+            }
+          } catch (e: any) {
+            if (e instanceof SyntaxError) {
+              console.warn('[Ollama] Failed to parse stream chunk:', e.message)
+            } else {
+              throw e
+            }
+          }
+        }
+      }
+
+      console.log('[Ollama] Stream completed in', Date.now() - startTime, 'ms')
+    } catch (error: any) {
+      throw this.toError(error)
+    }
+  }
+
+  /**
+   * 批量生成向量嵌入
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post(
+        `${this.baseURL}/api/embed`,
+        {
+          model: this.embeddingModel,
+          input: texts
+        },
+        { timeout: 120000 }
+      )
+
+      return response.data.embeddings
+    } catch (error: any) {
+      throw this.toError(error)
+    }
+  }
+}
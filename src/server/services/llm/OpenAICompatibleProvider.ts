@@ -0,0 +1,271 @@
+import axios from 'axios'
+import type { LLMProviderName } from '../../../shared/types'
+import type { ChatOptions, LLMProvider } from './types.ts'
+
+export interface OpenAICompatibleConfig {
+  name: LLMProviderName
+  label: string // 日志前缀
+  baseURL: string
+  apiKey: string
+  chatModel: string
+  embeddingModel: string
+  requiresApiKey: boolean
+}
+
+/**
+ * OpenAI 兼容接口（/chat/completions、/embeddings）
+ * 适用于 ModelScope、vLLM、LocalAI、各类云厂商兼容网关
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: LLMProviderName
+  readonly chatModel: string
+  readonly embeddingModel: string
+  protected label: string
+  protected baseURL: string
+  protected defaultApiKey: string
+  protected requiresApiKey: boolean
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name
+    this.label = config.label
+    this.baseURL = config.baseURL.replace(/\/+$/, '')
+    this.defaultApiKey = config.apiKey
+    this.chatModel = config.chatModel
+    this.embeddingModel = config.embeddingModel
+    this.requiresApiKey = config.requiresApiKey
+
+    console.log(`[${this.label}] Initialized`)
+    console.log(`[${this.label}] Base URL:`, this.baseURL)
+    console.log(`[${this.label}] Chat Model:`, this.chatModel)
+    console.log(`[${this.label}] Embedding Model:`, this.embeddingModel)
+    console.log(`[${this.label}] Default API Key:`, !!this.defaultApiKey)
+  }
+
+  /**
+   * 获取API密钥（优先使用传入的密钥）
+   */
+  protected getApiKey(providedKey?: string): string {
+    const key = providedKey || this.defaultApiKey
+    if (!key && this.requiresApiKey) {
+      console.error(`[${this.label}] Error: API密钥未配置`)
+      throw new Error(`${this.label} API密钥未配置`)
+    }
+    return key
+  }
+
+  protected getHeaders(apiKey: string): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+    return headers
+  }
+
+  isAvailable(apiKey?: string): boolean {
+    return !this.requiresApiKey || !!(apiKey || this.defaultApiKey)
+  }
+
+  protected buildRequestBody(options: ChatOptions, stream: boolean): any {
+    const requestBody: any = {
+      model: options.model || this.chatModel,
+      messages: options.messages,
+      temperature: options.temperature || 0.7,
+      max_tokens: options.maxTokens || 2000
+    }
+
+    if (stream) {
+      requestBody.stream = true
+      requestBody.stream_options = { include_usage: true }
+    }
+
+    // 启用思考模式（直接放在请求体顶层）
+    if (options.enableThinking === true) {
+      requestBody.enable_thinking = true
+    }
+
+    return requestBody
+  }
+
+  protected logError(kind: string, requestId: string, error: any, startTime: number): string {
+    const errorMessage = String(error.message || 'Unknown error')
+    console.error(`[${this.label}] ========== ${kind} Error (${requestId}) ==========`)
+    console.error(`[${this.label}] Error message:`, errorMessage)
+    console.error(`[${this.label}] Error code:`, String(error.code || 'UNKNOWN'))
+    console.error(`[${this.label}] Elapsed time before error:`, Date.now() - startTime, 'ms')
+    if (error.response) {
+      console.error(`[${this.label}] Response status:`, error.response.status)
+      try {
+        if (typeof error.response.data === 'string') {
+          console.error(`[${this.label}] Response data (string):`, error.response.data)
+        } else if (error.response.data && typeof error.response.data.pipe !== 'function') {
+          console.error(`[${this.label}] Response data:`, JSON.stringify(error.response.data))
+        }
+      } catch (e) {
+        console.error(`[${this.label}] Response data (raw):`, String(error.response.data))
+      }
+    }
+    console.error(`[${this.label}] ========== End Error (${requestId}) ==========\n`)
+    return errorMessage
+  }
+
+  /**
+   * 普通对话
+   */
+  async chat(options: ChatOptions): Promise<string> {
+    const requestId = `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const startTime = Date.now()
+    const requestBody = this.buildRequestBody(options, false)
+
+    console.log(`\n[${this.label}] ========== Chat Request (${requestId}) ==========`)
+    console.log(`[${this.label}] Model:`, requestBody.model)
+    console.log(`[${this.label}] Messages count:`, options.messages?.length)
+    console.log(`[${this.label}] Using custom API key:`, !!options.apiKey)
+
+    try {
+      const apiKey = this.getApiKey(options.apiKey)
+
+      const response = await axios.post(
+        `${this.baseURL}/chat/completions`,
+        requestBody,
+        {
+          headers: this.getHeaders(apiKey),
+          timeout: 60000
+        }
+      )
+
+      const content = response.data.choices[0]?.message?.content
+      const usage = response.data.usage
+      if (usage && options.onUsage) {
+        options.onUsage({
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens
+        })
+      }
+
+      console.log(`[${this.label}] Extracted content length:`, content?.length || 0)
+      console.log(`[${this.label}] Request completed in`, Date.now() - startTime, 'ms')
+      console.log(`[${this.label}] ========== Chat Request Complete (${requestId}) ==========\n`)
+
+      return content
+    } catch (error: any) {
+      throw new Error(this.logError('Chat', requestId, error, startTime))
+    }
+  }
+
+  /**
+   * 流式对话（支持思考模式）
+   */
+  async *chatStream(options: ChatOptions): AsyncGenerator<string, void, unknown> {
+    const requestId = `stream_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const startTime = Date.now()
+    const requestBody = this.buildRequestBody(options, true)
+
+    console.log(`\n[${this.label}] ========== Stream Request (${requestId}) ==========`)
+    console.log(`[${this.label}] Model:`, requestBody.model)
+    console.log(`[${this.label}] Messages count:`, options.messages?.length)
+    console.log(`[${this.label}] Using custom API key:`, !!options.apiKey)
+
+    let chunkCount = 0
+    let totalChars = 0
+
+    try {
+      const apiKey = this.getApiKey(options.apiKey)
+
+      const response = await axios.post(
+        `${this.baseURL}/chat/completions`,
+        requestBody,
+        {
+          headers: this.getHeaders(apiKey),
+          responseType: 'stream',
+          timeout: 60000
+        }
+      )
+
+      let buffer = ''
+
+      for await (const chunk of response.data) {
+        // 一个网络分片可能包含半行数据，保留未完整的部分
+        buffer += chunk.toString()
+        const lines = buffer.split('\n')
+        buffer = lines.pop() || ''
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim()
+          if (!line.startsWith('data: ')) continue
+
+          const data = line.slice(6)
+          if (data === '[DONE]') {
+            console.log(`[${this.label}] Stream received [DONE] signal`)
+            continue
+          }
+
+          try {
+            const parsed = JSON.parse(data)
+            chunkCount++
+
+            // 最后一个数据块携带 token 用量
+            if (parsed.usage && options.onUsage) {
+              options.onUsage({
+                promptTokens: parsed.usage.prompt_tokens,
+                completionTokens: parsed.usage.completion_tokens,
+                totalTokens: parsed.usage.total_tokens
+              })
+            }
+
+            const content = parsed.choices?.[0]?.delta?.content
+            if (content) {
+              totalChars += content.length
+              yield content
+            }
+          } catch (e: any) {
+            console.warn(`[${this.label}] Failed to parse stream chunk:`, e.message)
+          }
+        }
+      }
+
+      console.log(`[${this.label}] Stream complete:`, chunkCount, 'chunks,', totalChars, 'chars in', Date.now() - startTime, 'ms')
+      console.log(`[${this.label}] ========== Stream Request Complete (${requestId}) ==========\n`)
+    } catch (error: any) {
+      console.error(`[${this.label}] Progress before error:`, chunkCount, 'chunks,', totalChars, 'chars')
+      throw new Error(this.logError('Stream', requestId, error, startTime))
+    }
+  }
+
+  /**
+   * 批量生成向量嵌入
+   */
+  async embed(texts: string[], apiKey?: string): Promise<number[][]> {
+    const requestId = `embed_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    const startTime = Date.now()
+
+    console.log(`\n[${this.label}] ========== Embedding Request (${requestId}) ==========`)
+    console.log(`[${this.label}] Model:`, this.embeddingModel)
+    console.log(`[${this.label}] Batch size:`, texts.length)
+
+    try {
+      const key = this.getApiKey(apiKey)
+
+      const response = await axios.post(
+        `${this.baseURL}/embeddings`,
+        {
+          model: this.embeddingModel,
+          input: texts,
+          encoding_format: 'float'
+        },
+        {
+          headers: this.getHeaders(key),
+          timeout: 60000
+        }
+      )
+
+      console.log(`[${this.label}] Embedding dimension:`, response.data.data[0]?.embedding.length)
+      console.log(`[${this.label}] Request completed in`, Date.now() - startTime, 'ms')
+      console.log(`[${this.label}] ========== Embedding Request Complete (${requestId}) ==========\n`)
+
+      return response.data.data.map((item: any) => item.embedding)
+    } catch (error: any) {
+      throw new Error(this.logError('Embedding', requestId, error, startTime))
+    }
+  }
+}
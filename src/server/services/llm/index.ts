@@ -0,0 +1,176 @@
+import type { ApiKeys, LLMProviderName } from '../../../shared/types'
+import { AI_CONFIG } from '../../../shared/constants'
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.ts'
+import { OllamaProvider } from './OllamaProvider.ts'
+import { MockProvider } from './MockProvider.ts'
+import type { LLMProvider } from './types.ts'
+import { createError } from '../../middleware/errorHandler.ts'
+
+export type { LLMProvider, ChatOptions, ModelMessage, TokenUsage } from './types.ts'
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['modelscope', 'openai', 'ollama', 'mock']
+
+const providers = new Map<LLMProviderName, LLMProvider>()
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDER_NAMES as string[]).includes(value)
+}
+
+/**
+ * 根据环境变量创建提供方
+ */
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'modelscope':
+      return new OpenAICompatibleProvider({
+        name,
+        label: 'ModelScope',
+        baseURL: process.env.MODELSCOPE_BASE_URL || 'https://api-inference.modelscope.cn/v1',
+        apiKey: process.env.MODELSCOPE_API_KEY || '',
+        chatModel: process.env.MODELSCOPE_MODEL || AI_CONFIG.CHAT_MODEL,
+        embeddingModel: process.env.EMBEDDING_MODEL || AI_CONFIG.EMBEDDING_MODEL,
+        requiresApiKey: true
+      })
+    case 'openai':
+      if (!process.env.OPENAI_BASE_URL) {
+        throw new Error('未配置 OPENAI_BASE_URL，无法使用 OpenAI 兼容接口')
+      }
+      return new OpenAICompatibleProvider({
+        name,
+        label: 'OpenAI',
+        baseURL: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY || '',
+        chatModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+        // 自建的兼容服务（vLLM 等）通常不需要密钥
+        requiresApiKey: false
+      })
+    case 'ollama':
+      return new OllamaProvider({
+        baseURL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+        chatModel: process.env.OLLAMA_MODEL || 'qwen2.5:7b',
+        embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || 'bge-m3'
+      })
+    case 'mock':
+      return new MockProvider({
+        script: process.env.MOCK_LLM_SCRIPT ? MockProvider.loadScript(process.env.MOCK_LLM_SCRIPT) : [],
+        embeddingDim: parseInt(process.env.MOCK_EMBEDDING_DIM || '', 10) || undefined,
+        chunkDelayMs: parseInt(process.env.MOCK_LLM_DELAY_MS || '', 10) || undefined
+      })
+    default:
+      throw new Error(`不支持的模型提供方: ${name}`)
+  }
+}
+
+/**
+ * 获取对话模型提供方
+ * 优先使用指定的提供方，其次是环境变量 LLM_PROVIDER，默认 modelscope；请求中的提供方需经 getRequestLLMProvider 校验
+ * 延迟创建，确保 dotenv 已加载环境变量
+ */
+export function getLLMProvider(name?: LLMProviderName): LLMProvider {
+  const resolved = name || getDefaultProviderName()
+
+  if (!isLLMProviderName(resolved)) {
+    throw new Error(`不支持的模型提供方: ${resolved}`)
+  }
+
+  let provider = providers.get(resolved)
+  if (!provider) {
+    provider = createProvider(resolved)
+    providers.set(resolved, provider)
+  }
+  return provider
+}
+
+function getDefaultProviderName(): string {
+  return process.env.LLM_PROVIDER || 'modelscope'
+}
+
+/**
+ * 请求中可以指定的提供方：服务端默认的提供方，加上 LLM_ALLOWED_PROVIDERS（逗号分隔）中列出的提供方
+ * mock 只在 LLM_PROVIDER=mock 时可用，避免线上请求切换到模拟回复
+ */
+export function getAllowedRequestProviders(): LLMProviderName[] {
+  const defaultName = getDefaultProviderName()
+  const listed = (process.env.LLM_ALLOWED_PROVIDERS || '').split(',').map(name => name.trim())
+  return LLM_PROVIDER_NAMES.filter(name =>
+    name === defaultName || (listed.includes(name) && (name !== 'mock' || defaultName === 'mock'))
+  )
+}
+
+export function isAllowedRequestProvider(value: unknown): value is LLMProviderName {
+  return isLLMProviderName(value) && getAllowedRequestProviders().includes(value)
+}
+
+/**
+ * 获取请求指定的对话模型提供方；不在允许列表中时返回 400，不填时使用服务端默认的提供方
+ */
+export function getRequestLLMProvider(name?: unknown): LLMProvider {
+  if (name === undefined || name === null || name === '') {
+    return getLLMProvider()
+  }
+  if (!isAllowedRequestProvider(name)) {
+    throw createError(
+      `不支持的模型提供方，可选值: ${getAllowedRequestProviders().join(', ')}`,
+      400,
+      'VALIDATION_ERROR'
+    )
+  }
+  return getLLMProvider(name)
+}
+
+/**
+ * 请求中可以指定的模型：提供方的默认对话模型，加上 LLM_ALLOWED_MODELS（逗号分隔）中列出的模型
+ * 模型名会原样转发给提供方，不加限制时客户端可以把请求切到更贵或未经评估的模型上
+ */
+export function getAllowedRequestModels(provider: LLMProvider): string[] {
+  const listed = (process.env.LLM_ALLOWED_MODELS || '').split(',').map(model => model.trim()).filter(Boolean)
+  return Array.from(new Set([provider.chatModel, ...listed]))
+}
+
+/**
+ * 校验请求指定的模型；不在允许列表中时返回 400，不填时返回 undefined（使用提供方的默认模型）
+ */
+export function resolveRequestModel(provider: LLMProvider, model?: unknown): string | undefined {
+  if (model === undefined || model === null || model === '') {
+    return undefined
+  }
+  const allowed = getAllowedRequestModels(provider)
+  if (typeof model !== 'string' || !allowed.includes(model)) {
+    throw createError(`不支持的模型，可选值: ${allowed.join(', ')}`, 400, 'VALIDATION_ERROR')
+  }
+  return model
+}
+
+/**
+ * 获取向量嵌入提供方
+ * 知识库向量必须由同一个模型生成，因此只由环境变量 EMBEDDING_PROVIDER 决定，不随请求切换
+ */
+export function getEmbeddingProvider(): LLMProvider {
+  return getLLMProvider((process.env.EMBEDDING_PROVIDER as LLMProviderName) || undefined)
+}
+
+/**
+ * 客户端填写的密钥只属于 ModelScope，不能转发给其他提供方
+ */
+export function resolveApiKey(provider: LLMProvider, apiKeys?: ApiKeys): string | undefined {
+  return provider.name === 'modelscope' ? apiKeys?.modelScopeApiKey : undefined
+}
+
+/**
+ * 从模型回复中取出 JSON 对象（兼容 ```json 代码块和前后多余的说明文字），解析失败返回 undefined
+ */
+export function extractJsonObject(reply: string): Record<string, any> | undefined {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(reply)
+  const text = fenced ? fenced[1] : reply
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) return undefined
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1))
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,37 @@
+import type { ChatMessage, LLMProviderName } from '../../../shared/types'
+
+// 发送给模型的消息（不需要 id、timestamp）
+export type ModelMessage = Pick<ChatMessage, 'role' | 'content'>
+
+export interface TokenUsage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+}
+
+export interface ChatOptions {
+  messages: ModelMessage[]
+  temperature?: number
+  maxTokens?: number
+  enableThinking?: boolean
+  apiKey?: string // 可选的动态API密钥
+  model?: string // 覆盖默认对话模型
+  onUsage?: (usage: TokenUsage) => void // 结束时回调 token 用量
+}
+
+/**
+ * 大模型服务提供方
+ * 对话、流式对话和向量嵌入三种能力
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly chatModel: string
+  readonly embeddingModel: string
+
+  /** 是否可用（需要密钥的提供方在没有密钥时不可用） */
+  isAvailable(apiKey?: string): boolean
+
+  chat(options: ChatOptions): Promise<string>
+  chatStream(options: ChatOptions): AsyncGenerator<string, void, unknown>
+  embed(texts: string[], apiKey?: string): Promise<number[][]>
+}
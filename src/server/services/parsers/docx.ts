@@ -0,0 +1,205 @@
+import { strFromU8 } from 'fflate'
+import { parseXml, childElements, child, localName, attr, findAll, findFirst, textContent } from './dom.ts'
+import type { Element } from './dom.ts'
+import { ommlToLatex } from './omml.ts'
+import { unzipEntries } from './zip.ts'
+
+interface NumberingLevel {
+  ordered: boolean
+}
+
+interface DocxContext {
+  headingStyles: Map<string, number> // 样式ID → 标题级别
+  numbering: Map<string, Map<string, NumberingLevel>> // numId → 级别 → 编号格式
+  counters: Map<string, number> // 有序列表计数
+}
+
+/**
+ * 读取 styles.xml，找出标题样式（Heading 1、标题 1、Title）
+ */
+function readHeadingStyles(xml: string | undefined): Map<string, number> {
+  const styles = new Map<string, number>()
+  if (!xml) return styles
+
+  for (const style of findAll(parseXml(xml), 'style')) {
+    const id = attr(style, 'styleId')
+    const name = attr(child(style, 'name'), 'val') || ''
+    if (!id) continue
+
+    const match = name.match(/^(?:heading|标题)\s*(\d)$/i)
+    if (match) {
+      styles.set(id, Number(match[1]))
+    } else if (/^title$/i.test(name) || name === '标题') {
+      styles.set(id, 1)
+    }
+  }
+  return styles
+}
+
+/**
+ * 读取 numbering.xml，区分项目符号列表和编号列表
+ */
+function readNumbering(xml: string | undefined): Map<string, Map<string, NumberingLevel>> {
+  const result = new Map<string, Map<string, NumberingLevel>>()
+  if (!xml) return result
+
+  const doc = parseXml(xml)
+  const abstracts = new Map<string, Map<string, NumberingLevel>>()
+  for (const abstractNum of findAll(doc, 'abstractNum')) {
+    const levels = new Map<string, NumberingLevel>()
+    for (const lvl of childElements(abstractNum).filter(el => localName(el) === 'lvl')) {
+      const format = attr(child(lvl, 'numFmt'), 'val') || 'bullet'
+      levels.set(attr(lvl, 'ilvl') || '0', { ordered: format !== 'bullet' && format !== 'none' })
+    }
+    abstracts.set(attr(abstractNum, 'abstractNumId') || '', levels)
+  }
+
+  for (const num of findAll(doc, 'num')) {
+    const abstractId = attr(child(num, 'abstractNumId'), 'val') || ''
+    result.set(attr(num, 'numId') || '', abstracts.get(abstractId) || new Map())
+  }
+  return result
+}
+
+/**
+ * 段落内的文字，行内公式转为 $...$
+ */
+function runText(el: Element): string {
+  let text = ''
+  for (const node of childElements(el)) {
+    const name = localName(node)
+    switch (name) {
+      case 't':
+        text += textContent(node)
+        break
+      case 'tab':
+        text += '\t'
+        break
+      case 'br':
+      case 'cr':
+        text += '\n'
+        break
+      case 'omath':
+        text += `$${ommlToLatex(node)}$`
+        break
+      case 'omathpara':
+        text += `\n$$${findAll(node, 'oMath').map(ommlToLatex).join(' \\\\ ')}$$\n`
+        break
+      case 'del':
+      case 'ppr':
+      case 'rpr':
+      case 'instrtext':
+        break
+      default:
+        // r、hyperlink、ins、smartTag、fldSimple 等容器
+        text += runText(node)
+    }
+  }
+  return text
+}
+
+function renderParagraph(p: Element, ctx: DocxContext): string {
+  const text = runText(p).replace(/[ \t]+/g, ' ').trim()
+  if (!text) return ''
+
+  const pPr = child(p, 'pPr')
+  const styleId = pPr ? attr(child(pPr, 'pStyle'), 'val') : undefined
+  const outline = pPr ? attr(child(pPr, 'outlineLvl'), 'val') : undefined
+  const level = (styleId && ctx.headingStyles.get(styleId)) || (outline !== undefined ? Number(outline) + 1 : 0)
+  if (level > 0 && level <= 6) {
+    return `${'#'.repeat(level)} ${text}`
+  }
+
+  const numPr = pPr ? child(pPr, 'numPr') : undefined
+  if (numPr) {
+    const numId = attr(child(numPr, 'numId'), 'val') || ''
+    const ilvl = attr(child(numPr, 'ilvl'), 'val') || '0'
+    const indent = '  '.repeat(Number(ilvl) || 0)
+
+    if (ctx.numbering.get(numId)?.get(ilvl)?.ordered) {
+      const key = `${numId}:${ilvl}`
+      const index = (ctx.counters.get(key) || 0) + 1
+      ctx.counters.set(key, index)
+      return `${indent}${index}. ${text}`
+    }
+    return `${indent}- ${text}`
+  }
+
+  return text
+}
+
+function renderTable(tbl: Element, ctx: DocxContext): string {
+  const rows = childElements(tbl)
+    .filter(el => localName(el) === 'tr')
+    .map(tr => childElements(tr)
+      .filter(el => localName(el) === 'tc')
+      .map(tc => childElements(tc)
+        .filter(el => localName(el) === 'p')
+        .map(p => renderParagraph(p, ctx))
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\|/g, '\\|')))
+
+  if (rows.length === 0) return ''
+
+  const lines = rows.map(cells => `| ${cells.join(' | ')} |`)
+  lines.splice(1, 0, `| ${rows[0].map(() => '---').join(' | ')} |`)
+  return lines.join('\n')
+}
+
+function renderBody(el: Element, ctx: DocxContext, blocks: string[]): void {
+  for (const node of childElements(el)) {
+    const name = localName(node)
+    if (name === 'p') {
+      blocks.push(renderParagraph(node, ctx))
+    } else if (name === 'tbl') {
+      blocks.push(renderTable(node, ctx))
+    } else if (name === 'sdt' || name === 'sdtcontent' || name === 'customxml') {
+      renderBody(node, ctx, blocks)
+    }
+  }
+}
+
+/**
+ * 解析 Word 文档（.docx）
+ * 标题样式输出为 Markdown 标题，列表、表格、公式（OMML → LaTeX）保留结构
+ */
+export function parseDocx(buffer: Uint8Array): { title: string; content: string } {
+  const files = unzipEntries(buffer, name => /^(word\/(document|styles|numbering)\.xml|docProps\/core\.xml)$/.test(name))
+
+  const documentXml = files['word/document.xml']
+  if (!documentXml) {
+    throw new Error('不是有效的 Word 文档（缺少 word/document.xml）')
+  }
+
+  const read = (name: string) => (files[name] ? strFromU8(files[name]) : undefined)
+  const ctx: DocxContext = {
+    headingStyles: readHeadingStyles(read('word/styles.xml')),
+    numbering: readNumbering(read('word/numbering.xml')),
+    counters: new Map()
+  }
+
+  const body = findFirst(parseXml(strFromU8(documentXml)), 'body')
+  const blocks: string[] = []
+  if (body) {
+    renderBody(body, ctx, blocks)
+  }
+
+  // 相邻列表项不空行，其余段落之间空一行
+  const isListItem = (block: string) => /^\s*(-|\d+\.) /.test(block)
+  let content = ''
+  for (const block of blocks.filter(Boolean)) {
+    if (content) {
+      content += isListItem(block) && /(^|\n)\s*(-|\d+\.) [^\n]*$/.test(content) ? '\n' : '\n\n'
+    }
+    content += block
+  }
+
+  const core = read('docProps/core.xml')
+  const coreTitle = core ? findFirst(parseXml(core), 'title') : undefined
+  const heading = blocks.find(block => block.startsWith('#'))
+  const title = (coreTitle && textContent(coreTitle).trim())
+    || (heading ? heading.replace(/^#+\s*/, '') : '')
+
+  return { title, content }
+}
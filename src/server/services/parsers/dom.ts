@@ -0,0 +1,88 @@
+import { parseDocument } from 'htmlparser2'
+import { isTag, isText } from 'domhandler'
+import type { ChildNode, Element, Document } from 'domhandler'
+
+export type { ChildNode, Element, Document }
+export { isTag, isText }
+
+/**
+ * 解析 XML（保留大小写和命名空间前缀）
+ */
+export function parseXml(xml: string): Document {
+  return parseDocument(xml, { xmlMode: true })
+}
+
+/**
+ * 解析 HTML（容错，标签名统一小写）
+ */
+export function parseHtml(html: string): Document {
+  return parseDocument(html, { decodeEntities: true })
+}
+
+/**
+ * 去掉命名空间前缀的小写标签名（w:p → p，m:oMath → omath）
+ */
+export function localName(el: Element): string {
+  return el.name.replace(/^.*:/, '').toLowerCase()
+}
+
+export function childElements(node: Element | Document): Element[] {
+  return node.children.filter(isTag)
+}
+
+/**
+ * 第一个指定名称的直接子元素（名称不区分大小写、忽略命名空间前缀）
+ */
+export function child(node: Element | Document, name: string): Element | undefined {
+  const target = name.toLowerCase()
+  return childElements(node).find(el => localName(el) === target)
+}
+
+/**
+ * 深度优先查找所有指定名称的元素
+ */
+export function findAll(node: Element | Document, name: string): Element[] {
+  const target = name.toLowerCase()
+  const result: Element[] = []
+  for (const el of childElements(node)) {
+    if (localName(el) === target) {
+      result.push(el)
+    }
+    result.push(...findAll(el, target))
+  }
+  return result
+}
+
+export function findFirst(node: Element | Document, name: string): Element | undefined {
+  const target = name.toLowerCase()
+  for (const el of childElements(node)) {
+    if (localName(el) === target) return el
+    const found = findFirst(el, target)
+    if (found) return found
+  }
+  return undefined
+}
+
+/**
+ * 读取属性，忽略命名空间前缀（w:val、m:val 都按 val 读取）
+ */
+export function attr(el: Element | undefined, name: string): string | undefined {
+  if (!el) return undefined
+  for (const [key, value] of Object.entries(el.attribs)) {
+    if (key === name || key.endsWith(`:${name}`)) {
+      return value
+    }
+  }
+  return undefined
+}
+
+/**
+ * 元素下的全部文字
+ */
+export function textContent(node: ChildNode | Document): string {
+  if (isText(node)) return node.data
+  if ('children' in node) {
+    return (node.children as ChildNode[]).map(textContent).join('')
+  }
+  return ''
+}
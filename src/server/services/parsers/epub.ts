@@ -0,0 +1,60 @@
+import path from 'path'
+import { strFromU8 } from 'fflate'
+import { parseXml, findAll, findFirst, attr, textContent } from './dom.ts'
+import { htmlToText } from './html.ts'
+import { unzipEntries } from './zip.ts'
+
+/**
+ * 解析电子书（.epub）
+ * 按 OPF 中 spine 的阅读顺序逐章转换 XHTML
+ */
+export function parseEpub(buffer: Uint8Array): { title: string; content: string } {
+  // 只解压 container.xml、OPF 和章节，图片、字体等资源不需要
+  const files = unzipEntries(buffer, name => name === 'META-INF/container.xml' || /\.(opf|x?html?)$/i.test(name))
+  const read = (name: string) => (files[name] ? strFromU8(files[name]) : undefined)
+
+  const container = read('META-INF/container.xml')
+  const opfPath = container ? attr(findFirst(parseXml(container), 'rootfile'), 'full-path') : undefined
+  const opfXml = opfPath ? read(opfPath) : undefined
+  if (!opfPath || !opfXml) {
+    throw new Error('不是有效的 EPUB 文件（缺少 container.xml 或 OPF）')
+  }
+
+  const opf = parseXml(opfXml)
+  const baseDir = path.posix.dirname(opfPath)
+
+  const manifest = new Map<string, { href: string; mediaType: string }>()
+  for (const item of findAll(opf, 'item')) {
+    const id = attr(item, 'id')
+    const href = attr(item, 'href')
+    if (id && href) {
+      manifest.set(id, { href, mediaType: attr(item, 'media-type') || '' })
+    }
+  }
+
+  const chapters: string[] = []
+  for (const itemref of findAll(opf, 'itemref')) {
+    const item = manifest.get(attr(itemref, 'idref') || '')
+    if (!item || !/html/.test(item.mediaType)) continue
+
+    const href = decodeURIComponent(item.href.split('#')[0])
+    const chapterPath = baseDir === '.' ? href : path.posix.join(baseDir, href)
+    const xhtml = read(chapterPath)
+    if (!xhtml) continue
+
+    const { content } = htmlToText(xhtml, { xml: true })
+    if (content) {
+      chapters.push(content)
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('EPUB 中没有可提取的章节内容')
+  }
+
+  const titleEl = findFirst(opf, 'title')
+  return {
+    title: titleEl ? textContent(titleEl).trim() : '',
+    content: chapters.join('\n\n')
+  }
+}
@@ -0,0 +1,241 @@
+import { parseHtml, parseXml, childElements, localName, textContent, attr, findFirst, isTag, isText } from './dom.ts'
+import type { ChildNode, Element, Document } from './dom.ts'
+import { mathmlToLatex } from './mathml.ts'
+
+// 不输出内容的元素
+const SKIPPED = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav', 'iframe', 'button', 'select'])
+
+// 块级元素：前后断行
+const BLOCKS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'figure',
+  'figcaption', 'dl', 'dt', 'dd', 'address', 'details', 'summary', 'body', 'html', 'center', 'form'
+])
+
+/**
+ * 逐段收集文字，块级元素之间空一行，便于按段落切分
+ */
+class TextBuilder {
+  lines: string[] = []
+  private buffer = ''
+
+  inline(text: string): void {
+    this.buffer += text
+  }
+
+  flush(prefix: string = ''): void {
+    const text = this.buffer.replace(/[ \t\r\n]+/g, ' ').trim()
+    if (text) {
+      this.lines.push(prefix + text)
+    }
+    this.buffer = ''
+  }
+
+  line(text: string): void {
+    this.flush()
+    this.lines.push(text)
+  }
+
+  blank(): void {
+    this.flush()
+    if (this.lines.length > 0 && this.lines[this.lines.length - 1] !== '') {
+      this.lines.push('')
+    }
+  }
+
+  toString(): string {
+    this.flush()
+    return this.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+  }
+}
+
+/**
+ * 行内文字（标题、列表项、表格单元格）
+ */
+function inlineText(el: Element): string {
+  const builder = new TextBuilder()
+  for (const node of el.children) {
+    walk(node, builder)
+  }
+  return builder.toString().replace(/\s*\n+\s*/g, ' ')
+}
+
+/**
+ * MathJax 的 <script type="math/tex"> 和 KaTeX 渲染结果中也保存了 TeX 源码
+ */
+function isTexScript(el: Element): boolean {
+  return localName(el) === 'script' && /math\/tex/i.test(attr(el, 'type') || '')
+}
+
+function renderList(list: Element, builder: TextBuilder, depth: number): void {
+  const ordered = localName(list) === 'ol'
+  let index = 0
+
+  for (const item of childElements(list)) {
+    if (localName(item) !== 'li') continue
+    index++
+
+    // 列表项文字与嵌套列表分开处理
+    const nested: Element[] = []
+    const itemBuilder = new TextBuilder()
+    for (const node of item.children) {
+      if (isTag(node) && (localName(node) === 'ul' || localName(node) === 'ol')) {
+        nested.push(node)
+      } else {
+        walk(node, itemBuilder)
+      }
+    }
+
+    const indent = '  '.repeat(depth)
+    const marker = ordered ? `${index}.` : '-'
+    const text = itemBuilder.toString().replace(/\s*\n+\s*/g, ' ')
+    if (text) {
+      builder.line(`${indent}${marker} ${text}`)
+    }
+    for (const sub of nested) {
+      renderList(sub, builder, depth + 1)
+    }
+  }
+}
+
+/**
+ * 表格转为 Markdown 表格，第一行作为表头
+ */
+function renderTable(table: Element, builder: TextBuilder): void {
+  const rows: string[][] = []
+  const collectRows = (el: Element) => {
+    for (const c of childElements(el)) {
+      const name = localName(c)
+      if (name === 'tr') {
+        rows.push(childElements(c)
+          .filter(cell => localName(cell) === 'td' || localName(cell) === 'th')
+          .map(cell => inlineText(cell).replace(/\|/g, '\\|')))
+      } else if (name === 'thead' || name === 'tbody' || name === 'tfoot') {
+        collectRows(c)
+      }
+    }
+  }
+  collectRows(table)
+
+  if (rows.length === 0) return
+
+  builder.blank()
+  rows.forEach((cells, index) => {
+    builder.line(`| ${cells.join(' | ')} |`)
+    if (index === 0) {
+      builder.line(`| ${cells.map(() => '---').join(' | ')} |`)
+    }
+  })
+  builder.blank()
+}
+
+function walk(node: ChildNode, builder: TextBuilder): void {
+  if (isText(node)) {
+    builder.inline(node.data)
+    return
+  }
+  if (!isTag(node)) return
+
+  const name = localName(node)
+
+  if (isTexScript(node)) {
+    const tex = textContent(node).trim()
+    if (/mode\s*=\s*display/i.test(attr(node, 'type') || '')) {
+      builder.blank()
+      builder.line(`$$${tex}$$`)
+      builder.blank()
+    } else {
+      builder.inline(`$${tex}$`)
+    }
+    return
+  }
+
+  // KaTeX 的可视部分与 MathML 重复
+  if (SKIPPED.has(name) || /\bkatex-html\b/.test(attr(node, 'class') || '')) return
+
+  const heading = name.match(/^h([1-6])$/)
+  if (heading) {
+    builder.blank()
+    const text = inlineText(node)
+    if (text) builder.line(`${'#'.repeat(Number(heading[1]))} ${text}`)
+    builder.blank()
+    return
+  }
+
+  switch (name) {
+    case 'math': {
+      const latex = mathmlToLatex(node)
+      if (!latex) return
+      if (attr(node, 'display') === 'block') {
+        builder.blank()
+        builder.line(`$$${latex}$$`)
+        builder.blank()
+      } else {
+        builder.inline(`$${latex}$`)
+      }
+      return
+    }
+    case 'br':
+      builder.flush()
+      return
+    case 'hr':
+      builder.blank()
+      return
+    case 'ul':
+    case 'ol':
+      builder.blank()
+      renderList(node, builder, 0)
+      builder.blank()
+      return
+    case 'table':
+      renderTable(node, builder)
+      return
+    case 'pre':
+      builder.blank()
+      builder.line(textContent(node).replace(/\n+$/, ''))
+      builder.blank()
+      return
+    case 'img': {
+      const alt = attr(node, 'alt')
+      if (alt) builder.inline(`[图：${alt}]`)
+      return
+    }
+    case 'li':
+      // 不在 ul/ol 中的零散列表项
+      builder.flush()
+      builder.inline('- ')
+      for (const c of node.children) walk(c, builder)
+      builder.flush()
+      return
+  }
+
+  if (BLOCKS.has(name)) {
+    builder.blank()
+    for (const c of node.children) walk(c, builder)
+    builder.blank()
+    return
+  }
+
+  // 行内元素
+  for (const c of node.children) walk(c, builder)
+}
+
+/**
+ * HTML/XHTML 转为保留标题、列表、表格和公式的纯文本
+ * 标题输出为 Markdown 标题，公式输出为 $...$ / $$...$$
+ */
+export function htmlToText(markup: string, options: { xml?: boolean } = {}): { title: string; content: string } {
+  const doc: Document = options.xml ? parseXml(markup) : parseHtml(markup)
+  const builder = new TextBuilder()
+
+  const body = findFirst(doc, 'body')
+  const roots = body ? [body] : doc.children
+  for (const node of roots) {
+    walk(node, builder)
+  }
+
+  const titleEl = findFirst(doc, 'title')
+  const h1 = findFirst(doc, 'h1')
+  const title = (titleEl && textContent(titleEl).trim()) || (h1 && textContent(h1).trim()) || ''
+
+  return { title, content: builder.toString() }
+}
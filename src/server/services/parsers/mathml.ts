@@ -0,0 +1,148 @@
+import { childElements, localName, textContent, attr } from './dom.ts'
+import type { Element } from './dom.ts'
+
+// 常见数学符号到 LaTeX 命令的映射，OMML 转换也复用
+const SYMBOLS: Record<string, string> = {
+  'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\varepsilon', 'ζ': '\\zeta',
+  'η': '\\eta', 'θ': '\\theta', 'λ': '\\lambda', 'μ': '\\mu', 'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi',
+  'ρ': '\\rho', 'σ': '\\sigma', 'τ': '\\tau', 'φ': '\\varphi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+  'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Π': '\\Pi', 'Σ': '\\Sigma',
+  'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+  '≤': '\\le', '≥': '\\ge', '≠': '\\ne', '≈': '\\approx', '≡': '\\equiv', '∝': '\\propto',
+  '×': '\\times', '÷': '\\div', '±': '\\pm', '∓': '\\mp', '·': '\\cdot', '⋅': '\\cdot', '∗': '*',
+  '∞': '\\infty', '∂': '\\partial', '∇': '\\nabla', '′': "'", '″': "''", '°': '^\\circ',
+  '→': '\\to', '←': '\\leftarrow', '↔': '\\leftrightarrow', '⇒': '\\Rightarrow', '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow', '∈': '\\in', '∉': '\\notin', '⊂': '\\subset', '⊆': '\\subseteq',
+  '⊃': '\\supset', '⊇': '\\supseteq', '∪': '\\cup', '∩': '\\cap', '∅': '\\emptyset', '∀': '\\forall',
+  '∃': '\\exists', '¬': '\\neg', '∧': '\\wedge', '∨': '\\vee', '∠': '\\angle', '△': '\\triangle',
+  '⊥': '\\perp', '∥': '\\parallel', '∽': '\\sim', '≅': '\\cong', '∑': '\\sum', '∏': '\\prod',
+  '∫': '\\int', '∬': '\\iint', '∮': '\\oint', '√': '\\sqrt', '…': '\\ldots', '⋯': '\\cdots',
+  '⁡': '', '⁢': '', '⁣': '', ' ': ' '
+}
+
+const FUNCTION_NAMES = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan',
+  'sinh', 'cosh', 'tanh', 'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'det'
+])
+
+const ACCENTS: Record<string, string> = {
+  '¯': '\\overline', '‾': '\\overline', '^': '\\hat', 'ˆ': '\\hat', '→': '\\vec', '⃗': '\\vec',
+  '~': '\\tilde', '˜': '\\tilde', '˙': '\\dot', '¨': '\\ddot'
+}
+
+/**
+ * 将文字中的特殊符号替换为 LaTeX 命令
+ */
+export function symbolsToLatex(text: string): string {
+  let result = ''
+  for (const char of text) {
+    const mapped = SYMBOLS[char]
+    if (mapped === undefined) {
+      result += char
+    } else {
+      // 命令后紧跟字母时需要空格分隔
+      result += /^\\[a-zA-Z]+$/.test(mapped) ? `${mapped} ` : mapped
+    }
+  }
+  return result
+}
+
+export function functionName(name: string): string | undefined {
+  return FUNCTION_NAMES.has(name) ? `\\${name}` : undefined
+}
+
+export function accentCommand(char: string): string | undefined {
+  return ACCENTS[char]
+}
+
+/**
+ * 多个字符的表达式加花括号
+ */
+export function group(latex: string): string {
+  return latex.length === 1 ? latex : `{${latex}}`
+}
+
+function convertChildren(el: Element): string {
+  return childElements(el).map(convertElement).join('')
+}
+
+function convertElement(el: Element): string {
+  const name = localName(el)
+  const children = childElements(el)
+
+  switch (name) {
+    case 'math':
+    case 'mrow':
+    case 'mstyle':
+    case 'mpadded':
+    case 'merror':
+    case 'menclose':
+      return convertChildren(el)
+    case 'semantics': {
+      // 优先使用附带的 TeX 源码
+      const tex = children.find(c => localName(c) === 'annotation' && /tex/i.test(attr(c, 'encoding') || ''))
+      if (tex) return textContent(tex).trim()
+      return children.length > 0 ? convertElement(children[0]) : ''
+    }
+    case 'annotation':
+    case 'annotation-xml':
+    case 'mphantom':
+      return ''
+    case 'mi': {
+      const text = textContent(el).trim()
+      return functionName(text) ? `${functionName(text)} ` : symbolsToLatex(text)
+    }
+    case 'mn':
+      return textContent(el).trim()
+    case 'mo':
+      return symbolsToLatex(textContent(el).trim())
+    case 'mtext':
+      return `\\text{${textContent(el)}}`
+    case 'mspace':
+      return ' '
+    case 'mfrac':
+      return `\\frac{${convertElement(children[0])}}{${convertElement(children[1])}}`
+    case 'msqrt':
+      return `\\sqrt{${convertChildren(el)}}`
+    case 'mroot':
+      return `\\sqrt[${convertElement(children[1])}]{${convertElement(children[0])}}`
+    case 'msup':
+      return `${group(convertElement(children[0]))}^${group(convertElement(children[1]))}`
+    case 'msub':
+      return `${group(convertElement(children[0]))}_${group(convertElement(children[1]))}`
+    case 'msubsup':
+      return `${group(convertElement(children[0]))}_${group(convertElement(children[1]))}^${group(convertElement(children[2]))}`
+    case 'munder':
+      return `${convertElement(children[0])}_${group(convertElement(children[1]))}`
+    case 'mover': {
+      const accent = accentCommand(textContent(children[1]).trim())
+      if (accent) return `${accent}{${convertElement(children[0])}}`
+      return `${convertElement(children[0])}^${group(convertElement(children[1]))}`
+    }
+    case 'munderover':
+      return `${convertElement(children[0])}_${group(convertElement(children[1]))}^${group(convertElement(children[2]))}`
+    case 'mfenced': {
+      const open = attr(el, 'open') ?? '('
+      const close = attr(el, 'close') ?? ')'
+      const separator = attr(el, 'separators') ?? ','
+      return `\\left${open || '.'}${children.map(convertElement).join(separator)}\\right${close || '.'}`
+    }
+    case 'mtable': {
+      const rows = children
+        .filter(row => localName(row) === 'mtr' || localName(row) === 'mlabeledtr')
+        .map(row => childElements(row).map(convertElement).join(' & '))
+      return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`
+    }
+    case 'mtd':
+      return convertChildren(el)
+    default:
+      return convertChildren(el) || symbolsToLatex(textContent(el).trim())
+  }
+}
+
+/**
+ * MathML 转 LaTeX
+ */
+export function mathmlToLatex(math: Element): string {
+  return convertElement(math).replace(/\s+/g, ' ').trim()
+}
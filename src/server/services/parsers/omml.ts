@@ -0,0 +1,113 @@
+import { childElements, child, localName, attr, textContent } from './dom.ts'
+import type { Element } from './dom.ts'
+import { symbolsToLatex, functionName, accentCommand, group } from './mathml.ts'
+
+// n 元运算符（求和、积分等），未指定时 Word 默认为积分
+const NARY: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint',
+  '⋃': '\\bigcup', '⋂': '\\bigcap'
+}
+
+/**
+ * 读取属性元素中的值，如 <m:dPr><m:begChr m:val="["/></m:dPr>
+ */
+function prop(el: Element, prName: string, name: string): string | undefined {
+  const pr = child(el, prName)
+  return pr ? attr(child(pr, name), 'val') : undefined
+}
+
+function part(el: Element, name: string): string {
+  const found = child(el, name)
+  return found ? convertChildren(found) : ''
+}
+
+function convertChildren(el: Element): string {
+  return childElements(el).map(convertElement).join('')
+}
+
+function convertElement(el: Element): string {
+  const name = localName(el)
+
+  // 属性元素（rPr、fPr、ctrlPr 等）不产生内容
+  if (name.endsWith('pr')) return ''
+
+  switch (name) {
+    case 'r': {
+      const text = childElements(el)
+        .filter(c => localName(c) === 't')
+        .map(c => textContent(c))
+        .join('')
+      const fn = functionName(text.trim())
+      return fn ? `${fn} ` : symbolsToLatex(text)
+    }
+    case 'f': {
+      const num = part(el, 'num')
+      const den = part(el, 'den')
+      return prop(el, 'fpr', 'type') === 'lin' ? `${group(num)}/${group(den)}` : `\\frac{${num}}{${den}}`
+    }
+    case 'rad': {
+      const deg = part(el, 'deg')
+      const base = part(el, 'e')
+      return deg ? `\\sqrt[${deg}]{${base}}` : `\\sqrt{${base}}`
+    }
+    case 'ssup':
+      return `${group(part(el, 'e'))}^${group(part(el, 'sup'))}`
+    case 'ssub':
+      return `${group(part(el, 'e'))}_${group(part(el, 'sub'))}`
+    case 'ssubsup':
+      return `${group(part(el, 'e'))}_${group(part(el, 'sub'))}^${group(part(el, 'sup'))}`
+    case 'spre':
+      return `{}_${group(part(el, 'sub'))}^${group(part(el, 'sup'))}${part(el, 'e')}`
+    case 'nary': {
+      const chr = prop(el, 'narypr', 'chr') || '∫'
+      const op = NARY[chr] || symbolsToLatex(chr)
+      const sub = part(el, 'sub')
+      const sup = part(el, 'sup')
+      return `${op}${sub ? `_${group(sub)}` : ''}${sup ? `^${group(sup)}` : ''} ${part(el, 'e')}`
+    }
+    case 'd': {
+      const open = prop(el, 'dpr', 'begchr') ?? '('
+      const close = prop(el, 'dpr', 'endchr') ?? ')'
+      const separator = prop(el, 'dpr', 'sepchr') ?? ','
+      const items = childElements(el).filter(c => localName(c) === 'e').map(convertChildren)
+      const fence = (chr: string) => (chr === '{' || chr === '}' ? `\\${chr}` : chr || '.')
+      return `\\left${fence(open)}${items.join(separator)}\\right${fence(close)}`
+    }
+    case 'func':
+      return `${part(el, 'fname').trim()} ${part(el, 'e')}`
+    case 'limlow':
+      return `${part(el, 'e').trim()}_${group(part(el, 'lim'))}`
+    case 'limupp':
+      return `${part(el, 'e').trim()}^${group(part(el, 'lim'))}`
+    case 'acc': {
+      const command = accentCommand(prop(el, 'accpr', 'chr') || '^') || '\\hat'
+      return `${command}{${part(el, 'e')}}`
+    }
+    case 'bar':
+      return prop(el, 'barpr', 'pos') === 'bot'
+        ? `\\underline{${part(el, 'e')}}`
+        : `\\overline{${part(el, 'e')}}`
+    case 'groupchr':
+      return `\\underbrace{${part(el, 'e')}}`
+    case 'm': {
+      const rows = childElements(el)
+        .filter(c => localName(c) === 'mr')
+        .map(row => childElements(row).filter(c => localName(c) === 'e').map(convertChildren).join(' & '))
+      return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`
+    }
+    case 'eqarr': {
+      const rows = childElements(el).filter(c => localName(c) === 'e').map(convertChildren)
+      return `\\begin{aligned}${rows.join(' \\\\ ')}\\end{aligned}`
+    }
+    default:
+      // oMath、e、num、box、borderBox 等容器元素
+      return convertChildren(el)
+  }
+}
+
+/**
+ * Word 公式（OMML）转 LaTeX
+ */
+export function ommlToLatex(oMath: Element): string {
+  return convertElement(oMath).replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,23 @@
+import { unzipSync } from 'fflate'
+import type { Unzipped } from 'fflate'
+
+// 解压后的总大小上限，超过时视为压缩炸弹
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024
+
+/**
+ * 只解压名称符合条件的条目，按条目声明的解压后大小累计，超过上限时拒绝解析
+ * fflate 按声明的大小分配输出缓冲区，实际解压的内容不会超过声明值
+ */
+export function unzipEntries(buffer: Uint8Array, accept: (name: string) => boolean): Unzipped {
+  let total = 0
+  return unzipSync(buffer, {
+    filter: file => {
+      if (!accept(file.name)) return false
+      total += file.originalSize
+      if (total > MAX_UNZIPPED_BYTES) {
+        throw new Error(`文档解压后超过 ${MAX_UNZIPPED_BYTES / 1024 / 1024}MB，已拒绝解析`)
+      }
+      return true
+    }
+  })
+}
@@ -0,0 +1,45 @@
+import fs from 'fs'
+import path from 'path'
+
+let tmpCounter = 0
+
+// 临时文件名带进程号和递增序号，同一进程内对同一文件的并发写入也不会共用临时文件
+function tmpPathFor(filePath: string): string {
+  return `${filePath}.${process.pid}.${++tmpCounter}.tmp`
+}
+
+/**
+ * 原子写入文件：先写同目录下的临时文件再重命名，读取方不会读到写了一半的内容，中途退出也不会损坏原文件
+ * 目录不存在时自动创建
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tmpPath = tmpPathFor(filePath)
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.promises.writeFile(tmpPath, content, 'utf-8')
+  await fs.promises.rename(tmpPath, filePath)
+}
+
+/**
+ * writeFileAtomic 的同步版本，供命令行脚本使用
+ */
+export function writeFileAtomicSync(filePath: string, content: string): void {
+  const tmpPath = tmpPathFor(filePath)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(tmpPath, content, 'utf-8')
+  fs.renameSync(tmpPath, filePath)
+}
+
+export type WriteQueue = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * 创建写操作队列：任务按加入顺序依次执行，前一个任务失败不影响后面的任务
+ * 用于同一份数据的读改写，避免并发请求互相覆盖
+ */
+export function createWriteQueue(): WriteQueue {
+  let tail: Promise<unknown> = Promise.resolve()
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task)
+    tail = result.catch(() => undefined)
+    return result
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { updateJsonArray } from './jsonFormat.ts'
+
+const original = `[
+  {
+    "id": "a",
+    "keywords": ["x", "y"],
+    "steps": [
+      "one"
+    ],
+    "schemaVersion": 1
+  },
+  {
+    "id": "b",
+    "keywords": ["z"]
+  }
+]
+`
+
+describe('updateJsonArray', () => {
+  it('没有变化时原样返回', () => {
+    expect(updateJsonArray(original, JSON.parse(original))).toBe(original)
+  })
+
+  it('只改动变化的字段，一行写法的值仍写在一行', () => {
+    const items = JSON.parse(original)
+    items[0].keywords = ['x', 'y', 'w']
+    items[0].schemaVersion = 2
+
+    const result = updateJsonArray(original, items)
+    expect(result).toBe(original
+      .replace('"keywords": ["x", "y"]', '"keywords": ["x", "y", "w"]')
+      .replace('"schemaVersion": 1', '"schemaVersion": 2'))
+  })
+
+  it('多行写法的值按缩进展开', () => {
+    const items = JSON.parse(original)
+    items[0].steps = ['one', 'two']
+
+    expect(updateJsonArray(original, items)).toContain(`"steps": [
+      "one",
+      "two"
+    ],`)
+  })
+
+  it('新增字段插在前一个字段之后，沿用前一个字段的写法', () => {
+    const items = JSON.parse(original)
+    items[1] = { id: 'b', keywords: ['z'], aliases: ['zz'] }
+
+    const result = updateJsonArray(original, items)
+    expect(result).toContain(`"keywords": ["z"],
+    "aliases": ["zz"]
+  }`)
+    expect(JSON.parse(result)).toEqual(items)
+  })
+
+  it('删除字段时整个条目重新格式化', () => {
+    const items = JSON.parse(original)
+    delete items[1].keywords
+
+    const result = updateJsonArray(original, items)
+    expect(JSON.parse(result)).toEqual(items)
+    expect(result).toContain('"keywords": ["x", "y"]')
+  })
+
+  it('条目数量变化或原文本不是对象数组时整个文件重新格式化', () => {
+    const items = [...JSON.parse(original), { id: 'c' }]
+    expect(updateJsonArray(original, items)).toBe(JSON.stringify(items, null, 2) + '\n')
+    expect(updateJsonArray('{"id": "a"}', [{ id: 'a' }])).toBe('[\n  {\n    "id": "a"\n  }\n]\n')
+  })
+})
@@ -0,0 +1,165 @@
+interface PropertySpan {
+  keyStart: number
+  valueStart: number
+  valueEnd: number
+}
+
+interface ObjectSpan {
+  start: number
+  end: number
+  properties: Map<string, PropertySpan>
+}
+
+interface TextEdit {
+  start: number
+  end: number
+  text: string
+}
+
+function skipWhitespace(text: string, pos: number): number {
+  while (pos < text.length && /\s/.test(text[pos])) pos++
+  return pos
+}
+
+function skipString(text: string, pos: number): number {
+  for (pos++; pos < text.length; pos++) {
+    if (text[pos] === '\\') pos++
+    else if (text[pos] === '"') return pos + 1
+  }
+  throw new Error('JSON 字符串没有结束')
+}
+
+/**
+ * 跳过一个 JSON 值（字符串、数字、字面量或嵌套的对象和数组），返回值之后的位置
+ */
+function skipValue(text: string, pos: number): number {
+  if (text[pos] === '"') return skipString(text, pos)
+  if (text[pos] !== '{' && text[pos] !== '[') {
+    while (pos < text.length && !/[\s,\]}]/.test(text[pos])) pos++
+    return pos
+  }
+
+  let depth = 0
+  for (; pos < text.length; pos++) {
+    const ch = text[pos]
+    if (ch === '"') {
+      pos = skipString(text, pos) - 1
+    } else if (ch === '{' || ch === '[') {
+      depth++
+    } else if (ch === '}' || ch === ']') {
+      if (--depth === 0) return pos + 1
+    }
+  }
+  throw new Error('JSON 括号不匹配')
+}
+
+function parseObjectSpan(text: string, start: number): ObjectSpan {
+  const properties = new Map<string, PropertySpan>()
+  let pos = skipWhitespace(text, start + 1)
+  while (text[pos] !== '}') {
+    const keyStart = pos
+    const keyEnd = skipString(text, pos)
+    const key = JSON.parse(text.slice(keyStart, keyEnd))
+    const valueStart = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1)
+    const valueEnd = skipValue(text, valueStart)
+    properties.set(key, { keyStart, valueStart, valueEnd })
+    pos = skipWhitespace(text, valueEnd)
+    if (text[pos] === ',') pos = skipWhitespace(text, pos + 1)
+  }
+  return { start, end: pos + 1, properties }
+}
+
+/**
+ * 顶层数组中每个元素的位置，元素不全是对象时返回 undefined
+ */
+function parseArraySpans(text: string): ObjectSpan[] | undefined {
+  let pos = skipWhitespace(text, 0)
+  if (text[pos] !== '[') return undefined
+
+  const spans: ObjectSpan[] = []
+  pos = skipWhitespace(text, pos + 1)
+  while (text[pos] !== ']') {
+    if (text[pos] !== '{') return undefined
+    const span = parseObjectSpan(text, pos)
+    spans.push(span)
+    pos = skipWhitespace(text, span.end)
+    if (text[pos] === ',') pos = skipWhitespace(text, pos + 1)
+  }
+  return spans
+}
+
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1
+  return /^[ \t]*/.exec(text.slice(lineStart))![0]
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * 按原来的写法输出新值：原值写在一行时新值也写在一行（如 ["a", "b"]），否则按两格缩进展开
+ */
+function formatValue(value: unknown, indent: string, inline: boolean): string {
+  if (inline) {
+    return Array.isArray(value) ? `[${value.map(item => JSON.stringify(item)).join(', ')}]` : JSON.stringify(value)
+  }
+  return JSON.stringify(value, null, 2).replace(/\n/g, `\n${indent}`)
+}
+
+/**
+ * 把条目数组写回 JSON 文本，只改动有变化的字段，其余内容保持原有的格式
+ * 条目数量变化、原文本不是对象数组或有字段被删除时，整个文件或该条目重新格式化
+ */
+export function updateJsonArray(originalText: string, items: unknown[]): string {
+  let spans: ObjectSpan[] | undefined
+  try {
+    spans = parseArraySpans(originalText)
+  } catch {
+    spans = undefined
+  }
+  if (!spans || spans.length !== items.length) {
+    return JSON.stringify(items, null, 2) + '\n'
+  }
+
+  const edits: TextEdit[] = []
+  spans.forEach((span, index) => {
+    const item = items[index] as Record<string, unknown>
+    const original = JSON.parse(originalText.slice(span.start, span.end))
+    if (isEqual(original, item)) return
+
+    const objectIndent = lineIndent(originalText, span.start)
+    if (Object.keys(original).some(key => !(key in item))) {
+      edits.push({ start: span.start, end: span.end, text: formatValue(item, objectIndent, false) })
+      return
+    }
+
+    // 新增字段插在条目中它前面的那个已有字段之后，写法与该字段一致
+    let anchor: PropertySpan | undefined
+    let propertyIndent = `${objectIndent}  `
+    for (const [key, value] of Object.entries(item)) {
+      const property = span.properties.get(key)
+      if (!property) {
+        const inline = !!anchor && !originalText.slice(anchor.valueStart, anchor.valueEnd).includes('\n')
+        const text = `${JSON.stringify(key)}: ${formatValue(value, propertyIndent, inline)}`
+        edits.push(anchor
+          ? { start: anchor.valueEnd, end: anchor.valueEnd, text: `,\n${propertyIndent}${text}` }
+          : { start: span.start + 1, end: span.start + 1, text: `\n${propertyIndent}${text}${span.properties.size > 0 ? ',' : `\n${objectIndent}`}` })
+        continue
+      }
+      anchor = property
+      propertyIndent = lineIndent(originalText, property.keyStart)
+      if (isEqual(original[key], value)) continue
+
+      const inline = !originalText.slice(property.valueStart, property.valueEnd).includes('\n')
+      edits.push({ start: property.valueStart, end: property.valueEnd, text: formatValue(value, propertyIndent, inline) })
+    }
+  })
+
+  // 从后往前应用，前面的位置不受影响；同一位置的插入保持字段顺序
+  let result = originalText
+  for (const edit of edits.map((edit, order) => ({ ...edit, order })).sort((a, b) => b.start - a.start || b.order - a.order)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end)
+  }
+  return result
+}
@@ -1,3 +1,5 @@
+import type { PromptVariableName, TutoringMode } from '../types'
+
 // ==================== API 配置 ====================
 export const API_CONFIG = {
   BASE_URL: '/api',
@@ -17,7 +19,8 @@ export const SDK_CONFIG = {
 
 // ==================== AI 模型配置 ====================
 export const AI_CONFIG = {
-  CHAT_MODEL: 'deepseek-ai/DeepSeek-V3',
+  // 默认使用支持视觉的多模态模型，以便解析题目图片
+  CHAT_MODEL: 'Qwen/Qwen3-VL-235B-A22B-Instruct',
   EMBEDDING_MODEL: 'Qwen/Qwen3-Embedding-8B',
   DEFAULT_TEMPERATURE: 0.7,
   MAX_TOKENS: 2000
@@ -143,6 +146,117 @@ export const CACHE_CONFIG = {
   RESPONSE_CACHE_TTL: 5 * 60 * 1000 // 响应缓存时间 (5分钟)
 } as const
 
+// ==================== 检索配置 ====================
+export const RAG_CONFIG = {
+  VECTOR_WEIGHT: 1, // 向量检索在融合排序中的权重
+  LEXICAL_WEIGHT: 1, // 关键词检索在融合排序中的权重
+  VECTOR_THRESHOLD: 0.3, // 余弦相似度阈值
+  LEXICAL_THRESHOLD: 0.15, // 归一化 BM25 分数阈值
+  RRF_K: 60, // 倒数排名融合常数
+  CANDIDATES: 20, // 每一路参与融合的候选数
+  PREFERRED_DIFFICULTY_BOOST: 0.3 // 符合学习者偏好难度的定理在融合排序中的加成
+} as const
+
+// ==================== 文档切分配置 ====================
+export const CHUNK_CONFIG = {
+  SIZE: 500, // 每个片段的目标字符数
+  OVERLAP: 80, // 相邻片段重叠的字符数
+  CONTEXT_CHUNKS: 3 // 对话时放入上下文的片段数
+} as const
+
+// ==================== 会话配置 ====================
+export const SESSION_CONFIG = {
+  TTL: 7 * 24 * 60 * 60 * 1000, // 闲置会话过期时间 (7天)
+  MAX_STORED_MESSAGES: 200, // 单个会话最多保存的消息数
+  CONTEXT_MESSAGES: 20, // 发送给模型的历史消息数
+  CLEANUP_INTERVAL: 10 * 60 * 1000 // 过期清理间隔 (10分钟)
+} as const
+
+// ==================== 辅导模式 ====================
+export const TUTORING_MODES: Record<TutoringMode, { name: string; icon: string; description: string }> = {
+  explain: { name: '讲解', icon: '📖', description: '完整讲解定理和概念' },
+  socratic: { name: '引导', icon: '🤔', description: '通过提问引导思考，不直接给出答案' },
+  solve: { name: '解题', icon: '📝', description: '给出完整的解题步骤和答案' },
+  quiz: { name: '测验', icon: '✅', description: '逐题提问并点评回答' },
+  review: { name: '复习', icon: '🔁', description: '回顾学过的内容，查漏补缺' }
+}
+
+// ==================== 引导配置 ====================
+export const DIALOGUE_CONFIG = {
+  MAX_HINT_LEVEL: 3, // 提示用完仍未理解时演示关键步骤
+  UNDERSTOOD_SCORE: 4, // 理解评分达到该值视为已理解
+  MAX_SCORE_HISTORY: 10 // 保存的理解评分条数
+} as const
+
+// ==================== 理解判断配置 ====================
+// 各判断结果对应的理解评分（0-5），偏离话题不算理解或困惑
+export const UNDERSTANDING_SCORES = {
+  correct: 5,
+  partial: 2,
+  misconception: 1,
+  off_topic: 3
+} as const
+
+// ==================== 学习者配置 ====================
+export const GRADE_LEVELS = ['小学', '初中', '高中', '大学'] as const
+
+export type GradeLevel = typeof GRADE_LEVELS[number]
+
+// 各年级的适配方式：检索只保留 difficulties 中难度的定理，preferred 为默认偏好的难度；promptId 为该年级的讲解要求模板
+export const GRADE_ADAPTATION: Record<GradeLevel, {
+  difficulties: DifficultyLevel[]
+  preferred: DifficultyLevel
+  promptId: string
+}> = {
+  小学: { difficulties: ['初级'], preferred: '初级', promptId: 'grade-primary' },
+  初中: { difficulties: ['初级', '中级'], preferred: '初级', promptId: 'grade-junior' },
+  高中: { difficulties: ['初级', '中级', '高级'], preferred: '中级', promptId: 'grade-senior' },
+  大学: { difficulties: ['初级', '中级', '高级'], preferred: '高级', promptId: 'grade-university' }
+}
+
+export const LEARNER_CONFIG = {
+  MAX_HISTORY_RECORDS: 500, // 单个学习者最多保存的学习记录数
+  MASTERY_LEVEL: 4 // understandingLevel 达到该值视为已掌握
+} as const
+
+// ==================== 间隔复习配置 ====================
+export const REVIEW_CONFIG = {
+  INITIAL_EASE: 2.5, // 新条目的间隔增长系数
+  MIN_EASE: 1.3,
+  FIRST_INTERVAL_DAYS: 1, // 首次学习或遗忘后隔多久复习
+  SECOND_INTERVAL_DAYS: 6,
+  PASSING_GRADE: 3, // 评分低于该值视为遗忘，重新开始排期
+  MAX_DAILY_REVIEWS: 20 // 每天最多返回的待复习条目
+} as const
+
+// ==================== 练习配置 ====================
+export const EXERCISE_CONFIG = {
+  NUMERIC_TOLERANCE: 0.01, // 数值题默认允许的相对误差
+  NUMERIC_ZERO_TOLERANCE: 1e-9, // 数值题正确答案为 0 时允许的绝对误差
+  PASS_SCORE: 0.6, // 简答题得分达到该值视为正确
+  MAX_STORED: 500 // 内存中最多保存的题目数，超出时丢弃最早的
+} as const
+
+// ==================== 提示词模板配置 ====================
+// 模板中可以使用的变量及说明
+export const PROMPT_VARIABLES: Record<PromptVariableName, string> = {
+  subject: '当前学科，如"数学"；未选择学科时为空',
+  gradeLevel: '学习者档案中的年级，如"初中"；没有档案时为空',
+  gradeInstructions: '当前年级模板（grade-<年级>）渲染后的讲解要求，只能在 system 模板中使用',
+  mode: '当前辅导模式的名称，如"引导"',
+  modeInstructions: '当前模式模板（mode-<模式>）渲染后的教学要求，只能在 system 模板中使用',
+  reviewContext: '复习模式下到期复习或最近学过的内容',
+  ragContext: '知识库检索到的定理和文档片段（带引用编号）',
+  guidingQuestions: '引导模式下建议学生思考的问题列表',
+  dialogueProgress: '引导模式下的多轮引导进度和本轮要求'
+}
+
+export const PROMPT_CONFIG = {
+  MAX_CONTENT_LENGTH: 20000, // 单个模板版本的最大字符数
+  MAX_NOTE_LENGTH: 200,
+  MAX_VERSIONS: 100 // 单个模板最多保存的版本数，超出时丢弃最早的未启用版本
+} as const
+
 // ==================== UI 配置 ====================
 export const UI_CONFIG = {
   MESSAGE_ANIMATION_DURATION: 300,
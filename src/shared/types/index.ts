@@ -23,7 +23,54 @@ export interface ChatMessage {
   timestamp: number
   thinking?: string // AI思考过程
   relatedTheorems?: string[] // 相关定理
+  socraticQuestions?: string[] // 引导性问题
   visualAids?: Widget[] // 可视化组件
+  citations?: Citation[] // 回复中实际引用的知识来源
+  assessment?: UnderstandingAssessment // 学生消息的理解判断
+}
+
+// 学生回答的理解判断：正确 / 部分正确 / 存在误解 / 偏离话题
+export type UnderstandingLabel = 'correct' | 'partial' | 'misconception' | 'off_topic'
+
+export interface UnderstandingAssessment {
+  label: UnderstandingLabel
+  confidence: number // 0-1
+  score: number // 换算成 0-5 的理解评分，3 表示没有明显信号
+  matchedMistake?: CommonMistake // 命中的定理常见误区
+  reason?: string
+  classifiedBy: 'llm' | 'heuristic' // 模型判断，或离线关键词估计
+}
+
+// 对话会话（服务端持久化）
+export interface ChatSession {
+  id: string
+  messages: ChatMessage[]
+  createdAt: number
+  updatedAt: number
+  dialogue?: DialogueState // 苏格拉底式引导的进度
+  learnerId?: string // 开始会话的学习者，之后的请求沿用，省略 learnerId 也不能绕开班级设置
+}
+
+// 引导阶段：摸底提问 → 逐级提示 → 演示关键步骤 → 检验理解 → 巩固总结
+export type DialogueStage = 'probe' | 'hint' | 'worked_step' | 'check' | 'consolidate'
+
+// 单个会话的引导状态，每轮对话后更新
+export interface DialogueState {
+  stage: DialogueStage
+  theoremId?: string // 正在引导的定理，换到其他定理时重新开始
+  hintLevel: number // 已给出的提示级别，0 表示还没有提示
+  attempts: number // 本轮引导中学生的回答次数
+  understandingScores: number[] // 本轮引导中每次回答的理解评分（0-5）
+  updatedAt: number
+}
+
+// 会话列表摘要
+export interface ChatSessionSummary {
+  id: string
+  title: string
+  messageCount: number
+  createdAt: number
+  updatedAt: number
 }
 
 // ==================== Widget 类型 ====================
@@ -129,13 +176,19 @@ export interface Theorem {
 
   socraticQuestions: string[]
 
-  prerequisites: string[]
+  prerequisites: string[] // 前置条目ID
+  prerequisiteConcepts: string[] // 知识库中没有对应条目的前置概念（如"直角三角形"），只用于展示
   relatedTheorems: string[]
 
   teachingTips: string[]
 
   keywords: string[]
   embeddingText: string
+
+  chunkCount?: number // 上传文档切分的片段数，有片段时按片段检索
+  source?: 'uploaded_document' // 由上传文档生成的条目
+  sourceFile?: string // 上传时的原始文件名
+  schemaVersion?: number // 条目结构版本，见 KnowledgeMigrator
 }
 
 export interface ProofStep {
@@ -163,6 +216,17 @@ export interface ApiKeys {
   xmovAppSecret?: string
 }
 
+// 大模型服务提供方
+export type LLMProviderName = 'modelscope' | 'openai' | 'ollama' | 'mock'
+
+export interface LLMSelection {
+  provider?: LLMProviderName
+  model?: string
+}
+
+// 辅导模式：讲解 / 苏格拉底式引导 / 解题 / 测验 / 复习
+export type TutoringMode = 'explain' | 'socratic' | 'solve' | 'quiz' | 'review'
+
 export interface ChatRequest {
   message: string
   images?: string[] // 图片 URL 列表
@@ -171,14 +235,20 @@ export interface ChatRequest {
   sessionId: string
   conversationHistory?: ChatMessage[]
   userProfile?: UserProfile
+  learnerId?: string // 学习者ID，填写后对话会更新该学习者的学习记录
+  mode?: TutoringMode // 辅导模式，不填时上传图片为 solve，否则为 socratic；所在班级锁定模式时以班级为准
   apiKeys?: ApiKeys
+  llm?: LLMSelection // 指定本次对话使用的模型，不填则使用服务端配置
 }
 
 export interface ChatResponse {
   success: boolean
   response?: string
   thinking?: string
+  mode?: TutoringMode // 本次回复实际使用的模式
+  modeLocked?: boolean
   relatedTheorems?: TheoremReference[]
+  citations?: Citation[]
   visualAids?: Widget[]
   socraticQuestions?: string[]
   error?: string
@@ -191,6 +261,47 @@ export interface TheoremReference {
   relevanceScore: number
 }
 
+// 回复中的引用（编号与系统提示词中的知识库条目一致）
+export interface Citation {
+  index: number // 回复中的 [n] 编号
+  kind: 'theorem' | 'chunk'
+  theoremId: string // 定理ID；文档片段为所属文档的知识库条目ID
+  title: string
+  chunkId?: string
+  heading?: string // 文档片段所在章节
+  page?: number // 文档片段所在页码
+  excerpt?: string // 文档片段摘录
+}
+
+// ==================== 流式对话事件（SSE） ====================
+export interface ChatStreamMeta {
+  sessionId: string
+  messageId: string
+  subject?: string
+  mode: TutoringMode // 本次回复实际使用的模式
+  modeLocked: boolean // 模式是否被班级锁定
+}
+
+export interface ChatUsage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+  elapsedMs: number
+}
+
+export type ChatStreamEvent =
+  | { type: 'meta'; data: ChatStreamMeta }
+  | { type: 'theorems'; data: TheoremReference[] }
+  | { type: 'questions'; data: string[] }
+  | { type: 'widget'; data: Widget }
+  | { type: 'content'; data: string }
+  | { type: 'citations'; data: Citation[] }
+  | { type: 'usage'; data: ChatUsage }
+  | { type: 'done'; data: { response: string } }
+  | { type: 'error'; data: string }
+
+export type ChatStreamEventType = ChatStreamEvent['type']
+
 export interface KnowledgeQuery {
   category?: SubjectCategory
   topic?: string
@@ -208,6 +319,111 @@ export interface SearchResult {
   difficulty: DifficultyLevel
 }
 
+// ==================== 知识图谱类型 ====================
+// 条目中无法解析的引用（既不是已有ID，也不是已有定理名称）
+export interface DanglingReference {
+  theoremId: string
+  field: 'prerequisites' | 'relatedTheorems'
+  reference: string
+}
+
+export interface KnowledgeGraphNode {
+  id: string
+  theorem: string
+  category: SubjectCategory
+  topic: string
+  difficulty: DifficultyLevel
+}
+
+// prerequisite：source 是 target 的前置知识；related：两个条目相关（无方向）
+export interface KnowledgeGraphEdge {
+  source: string
+  target: string
+  kind: 'prerequisite' | 'related'
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeGraphNode[]
+  edges: KnowledgeGraphEdge[]
+}
+
+export interface KnowledgeGraphReport {
+  nodeCount: number
+  edgeCount: number // 前置关系数量
+  cycles: string[][] // 前置关系中的环，每个环为参与的条目ID
+  danglingReferences: DanglingReference[]
+}
+
+export interface LearningPathStep {
+  id: string
+  theorem: string
+  category: SubjectCategory
+  topic: string
+  difficulty: DifficultyLevel
+  prerequisites: string[] // 路径中需要先学的条目ID
+}
+
+// 从已掌握的知识到目标定理的学习路径（按拓扑顺序，最后一步为目标）
+export interface LearningPath {
+  targetId: string
+  steps: LearningPathStep[]
+  mastered: Array<{ id: string; theorem: string }> // 路径上已掌握而跳过的前置条目
+  missingPrerequisites: string[] // 知识库中找不到的前置知识
+  cycles: string[][] // 涉及路径的循环依赖
+}
+
+// ==================== 练习类型 ====================
+// numeric 数值答案；symbolic 表达式或等式；choice 选择题（答案为选项字母）；free 简答题
+export type ExerciseType = 'numeric' | 'symbolic' | 'choice' | 'free'
+
+// 发给学生的题目（不含答案）
+export interface Exercise {
+  id: string
+  theoremId: string
+  theorem: string
+  type: ExerciseType
+  difficulty: DifficultyLevel
+  question: string
+  options?: string[] // 选择题选项，按 A、B、C… 顺序
+  unit?: string // 数值题答案的单位
+  source: 'llm' | 'knowledge' // 由模型生成，或由知识库例题改编
+  createdAt: number
+}
+
+// 服务端保存的答案
+export interface ExerciseAnswerKey {
+  answer: string
+  tolerance?: number // 数值题允许的相对误差
+  solution: string
+  rubric: string[] // 评分要点
+}
+
+export interface ExerciseGenerateRequest {
+  theoremId: string
+  type?: ExerciseType // 不填时由模型或知识库内容决定
+  difficulty?: DifficultyLevel // 不填时使用定理的难度
+  apiKeys?: ApiKeys
+  llm?: LLMSelection
+}
+
+export interface ExerciseSubmitRequest {
+  answer: string
+  learnerId?: string // 填写后得分计入该学习者的练习正确率
+  apiKeys?: ApiKeys
+  llm?: LLMSelection
+}
+
+export interface ExerciseGradeResult {
+  exerciseId: string
+  correct: boolean
+  score: number // 0-1
+  feedback: string
+  expectedAnswer: string
+  solution: string
+  rubric: string[]
+  gradedBy: 'rule' | 'llm' | 'heuristic' // 规则判分、模型评分或离线相似度估计
+}
+
 // ==================== 用户类型 ====================
 export interface UserProfile {
   id?: string
@@ -225,6 +441,88 @@ export interface LearningRecord {
   understandingLevel: number // 1-5
   practiceCount: number
   correctRate: number
+  // 间隔复习（SM-2）状态，首次学习时开始排期
+  repetitions?: number // 连续回忆成功的次数
+  easeFactor?: number // 间隔增长系数
+  intervalDays?: number // 当前复习间隔（天）
+  nextReviewAt?: number // 下次复习时间
+  lastReviewedAt?: number
+}
+
+// 复习评分：0 完全忘记 … 5 轻松回忆（SM-2 的回忆质量）
+export type RecallGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface DueReview {
+  record: LearningRecord
+  theorem: Theorem
+}
+
+// 服务端保存的学习者档案
+export interface LearnerProfile extends UserProfile {
+  id: string
+  classId?: string // 所在班级，班级锁定的辅导模式对该学习者生效
+  createdAt: number
+  updatedAt: number
+}
+
+// 班级设置（由老师维护）
+export interface ClassPolicy {
+  id: string
+  name: string
+  lockedMode?: TutoringMode // 锁定后班级内学习者只能使用该模式
+  createdAt: number
+  updatedAt: number
+}
+
+// ==================== 提示词模板类型 ====================
+// system 为各模式共用的基础提示词，mode-<模式> 为各辅导模式的教学要求，grade-<年级> 为各年级的讲解要求
+export interface PromptTemplateVersion {
+  version: number
+  content: string // 模板正文，{{变量}} 插入变量，{{#变量}}...{{/变量}} 在变量非空时才输出
+  note?: string // 修改说明
+  createdAt: number
+}
+
+export interface PromptTemplate {
+  id: string
+  name: string
+  description: string
+  activeVersion: number // 对话时使用的版本，回滚即切换到旧版本
+  updatedAt: number
+  versions: PromptTemplateVersion[]
+}
+
+export interface PromptTemplateSummary {
+  id: string
+  name: string
+  description: string
+  activeVersion: number
+  latestVersion: number
+  updatedAt: number
+}
+
+export type PromptVariableName =
+  | 'subject'
+  | 'gradeLevel'
+  | 'gradeInstructions'
+  | 'mode'
+  | 'modeInstructions'
+  | 'reviewContext'
+  | 'ragContext'
+  | 'guidingQuestions'
+  | 'dialogueProgress'
+
+export type PromptVariables = Partial<Record<PromptVariableName, string>>
+
+export interface PromptPreviewRequest {
+  content?: string // 未保存的草稿；不传时预览当前启用的版本
+  mode?: TutoringMode // 预览 system 模板时拼入哪个模式的要求
+  variables?: PromptVariables // 覆盖示例变量
+}
+
+export interface PromptPreviewResult {
+  rendered: string
+  variables: PromptVariables // 实际使用的变量
 }
 
 // ==================== 学科状态类型 ====================
@@ -234,6 +532,7 @@ export interface SubjectState {
   difficulty: DifficultyLevel
   currentTheorem: Theorem | null
   learningProgress: LearningProgress
+  masteredTheoremIds: string[]
 }
 
 export interface LearningProgress {
@@ -267,6 +566,19 @@ export interface Document {
   metadata: Record<string, any>
 }
 
+// 上传文档切分后的片段
+export interface DocumentChunk {
+  id: string
+  documentId: string // 对应的知识库条目ID
+  sourceFile: string // 原始文件名
+  title: string // 文档标题
+  heading?: string // 所在章节标题
+  page?: number // PDF 页码
+  category: SubjectCategory
+  index: number
+  content: string
+}
+
 export interface EmbeddingVector {
   id: string
   vector: number[]
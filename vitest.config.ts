@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// 单独的测试配置：不加载 vite.config.ts 中挂载后端的插件
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts']
+  }
+})